@@ -1,79 +1,60 @@
 // Update: Fix logic for status colors and Vercel sync (2026-05-15)
-import React, { useState, useMemo, useEffect } from 'react';
+import React, { useState, useMemo, useEffect, useCallback } from 'react';
 import { 
   BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, 
   ComposedChart, Line, AreaChart, Area, PieChart, Pie, Cell, Legend
 } from 'recharts';
-import { initialClients, initialMonthlyData, initialSalespersonData, initialCustosEficiencia, initialGestaoTop20, initialQuarterlyHistory, QuarterlyData, initialSalespeopleConfig } from './src/data';
+import { initialClients, initialMonthlyData, initialGestaoTop20, initialQuarterlyHistory, QuarterlyData, Client } from './src/data';
+import { YearKeyed, ensureYear, listYears, initialMetasByYear, initialSalespeopleConfigByYear, initialSalespersonDataByYear, initialCustosByYear, initialMetasVendedoresByYear, initialPeriodosByYear } from './src/yearlyData';
+import { YEARS } from './constants';
+import { normalCdf } from './utils/forecast';
+import { computeMonthlyMargins, summarizeMargins, summarizeYear, quarterSeasonality, projectQuarterlyClose, withClosedQuarters, rankClients, ClienteStatusThresholds, AbcXyzSettings, DEFAULT_ABC_XYZ, DEFAULT_STATUS_THRESHOLDS, sellerAttainment, reconcileSellerTargets, computeCommissions, revenueForecastFor, opportunityCost, clientYears, clientYearValue, buildScenarioBase, Scenario,
+  monthlySeasonality, planCatchUp, catchUpWeights, CatchUpSettings, DEFAULT_CATCH_UP, CostCategory, DEFAULT_COST_CATEGORIES, COST_CATEGORY_TYPES, COST_CATEGORY_TYPE_LABELS,
+  analyzeLogistics, LogisticsSettings, DEFAULT_LOGISTICS,
+  closedMonthCount, lockedChanges, supplierCommitment, allocateMargins, AllocationSettings, DEFAULT_ALLOCATION, lockedEditMessage, PERIOD_LOCKED_FIELDS, protectLockedMonths } from './src/kpi';
+import { useAutoSave } from './src/storage/useAutoSave';
+import { useServerSync } from './src/storage/useServerSync';
+import { useEditHistory } from './src/hooks/useEditHistory';
+import { useAuditLog } from './src/hooks/useAuditLog';
+import { AuditEntry, revertCell } from './src/storage/auditLog';
+import { Workspace, WORKSPACE_FIELDS, WORKSPACE_LABELS, WorkspaceField } from './src/storage/backup';
 import { ChartWrapper } from './components/ChartWrapper';
 import { DatabaseManager } from './src/components/DatabaseManager';
 import { GaugeChart } from './src/components/GaugeChart';
 import { YoYComparison } from './src/components/YoYComparison';
+import { SaveStatusIndicator } from './src/components/SaveStatusIndicator';
+import { AuditLogViewer } from './src/components/AuditLogViewer';
+import { SyncStatusIndicator } from './src/components/SyncStatusIndicator';
+import { ClientHealthBoard } from './src/components/ClientHealthBoard';
+import { ScenarioSimulator } from './src/components/ScenarioSimulator';
+import { CatchUpPlanner } from './src/components/CatchUpPlanner';
+import { SellerTargetReconciliation } from './src/components/SellerTargetReconciliation';
+import { CommissionCalculator } from './src/components/CommissionCalculator';
+import { AbcXyzClassification } from './src/components/AbcXyzClassification';
+import { ClientPortfolio } from './src/components/ClientPortfolio';
+import { CohortRetention } from './src/components/CohortRetention';
+import { LogisticsEfficiency } from './src/components/LogisticsEfficiency';
+import { MarginAllocation } from './src/components/MarginAllocation';
+import { SupplierCommitmentPanel, CommitmentBar, CommitmentPerc } from './src/components/SupplierCommitment';
+import { ExportButtons } from './src/components/ExportButtons';
 
 const formatBRL = (value: number): string => 
   new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL', minimumFractionDigits: 2 }).format(value || 0);
 
-const getClienteStatus = (c: any, currentYearBilling: number) => {
-  const h = c.history || {};
-  const historyArray = Object.values(h) as number[];
-  const real2022 = historyArray[0] || h[2022] || 0;
-  const real2023 = historyArray[1] || h[2023] || 0;
-  const real2024 = historyArray[2] || h[2024] || 0;
-  const real2025 = historyArray[3] || h[2025] || 0;
-  
-  const hArr = [real2022, real2023, real2024, real2025];
-  const mediaValue = hArr.reduce((a, b) => a + b, 0) / 4;
-
-  const current = currentYearBilling || 0;
-  
-  const isZero = current === 0;
-  const isDeclining = (real2025 < real2024 && real2024 < real2023) || (real2025 < real2024 && real2025 < 5000) || (real2025 < mediaValue * 0.5);
-  const isVeryLow = real2025 < 5000 && current < 5000;
-  const growthRate = real2025 > 0 ? (current / real2025) - 1 : (current > 0 ? 1 : 0);
-
-  if (isZero) {
-    return { status: 'ALERTA OCIOSIDADE', colorText: 'text-red-500', colorBg: 'bg-red-950', colorBorder: 'border-red-900' };
-  } else if (isDeclining && current < mediaValue * 0.8) {
-    return { status: 'ALERTA RECUO', colorText: 'text-red-500', colorBg: 'bg-red-950', colorBorder: 'border-red-900' };
-  } else if (isDeclining && current >= real2025 && current > 5000) {
-    return { status: 'EM RECUPERAÇÃO', colorText: 'text-amber-400', colorBg: 'bg-amber-950', colorBorder: 'border-amber-900' };
-  } else if (current < mediaValue * 0.7) {
-    return { status: 'ALERTA OCIOSIDADE', colorText: 'text-red-500', colorBg: 'bg-red-950', colorBorder: 'border-red-900' };
-  } else if (growthRate > 0.05 && current > mediaValue * 1.2 && current >= 100000) {
-    return { status: 'TOP PERFORMANCE', colorText: 'text-blue-400', colorBg: 'bg-blue-950', colorBorder: 'border-blue-500 shadow-[0_0_10px_rgba(59,130,246,0.5)]' };
-  } else if (growthRate > 0.05 && !isVeryLow) {
-    return { status: 'EXPANSÃO', colorText: 'text-emerald-400', colorBg: 'bg-emerald-950', colorBorder: 'border-emerald-900' };
-  } else if (Math.abs(growthRate) <= 0.15 && current >= 5000) {
-    return { status: 'ESTABILIDADE', colorText: 'text-gray-400', colorBg: 'bg-gray-900', colorBorder: 'border-gray-800' };
-  } else if (isVeryLow) {
-    return { status: 'BAIXO VOLUME', colorText: 'text-gray-500', colorBg: 'bg-gray-900', colorBorder: 'border-gray-800' };
-  }
-  
-  return { status: 'ESTABILIDADE', colorText: 'text-emerald-400', colorBg: 'bg-emerald-950', colorBorder: 'border-emerald-900' };
-};
+// Cores das barras por ano no gráfico dos clientes T10 (repetem quando há mais anos que cores).
+const T10_YEAR_COLORS = ['#ef4444', '#f97316', '#6b7280', '#facc15', '#10b981', '#3b82f6', '#8b5cf6'];
 
-export const metaMensal = [
-  { month: 'Jan', meta: 136250.00, r2026: 74919.58, r2027: 0, r2028: 0 },
-  { month: 'Fev', meta: 154416.67, r2026: 128909.00, r2027: 0, r2028: 0 },
-  { month: 'Mar', meta: 163500.00, r2026: 66982.35, r2027: 0, r2028: 0 },
-  { month: 'Abr', meta: 172583.33, r2026: 143492.89, r2027: 0, r2028: 0 },
-  { month: 'Mai', meta: 172583.33, r2026: 131965.14, r2027: 0, r2028: 0 },
-  { month: 'Jun', meta: 163500.00, r2026: 0, r2027: 0, r2028: 0 },
-  { month: 'Jul', meta: 190750.00, r2026: 0, r2027: 0, r2028: 0 },
-  { month: 'Ago', meta: 199833.33, r2026: 0, r2027: 0, r2028: 0 },
-  { month: 'Set', meta: 208916.67, r2026: 0, r2027: 0, r2028: 0 },
-  { month: 'Out', meta: 218000.00, r2026: 0, r2027: 0, r2028: 0 },
-  { month: 'Nov', meta: 227083.33, r2026: 0, r2027: 0, r2028: 0 },
-  { month: 'Dez', meta: 172583.34, r2026: 0, r2027: 0, r2028: 0 },
-];
-
-const CustomRentabilidadeTooltip = ({ active, payload }: any) => {
+const CustomRentabilidadeTooltip = ({ active, payload, categories }: any) => {
   if (active && payload && payload.length) {
     const data = payload[0].payload;
     const isProfitable = data.lucro >= 0;
+    const breakdown = (categories as CostCategory[]).filter(c => (data.custos[c.key] || 0) !== 0);
     return (
       <div className="bg-gray-950 border border-gray-800 p-4 rounded-xl shadow-2xl space-y-2 text-white">
-        <p className="text-gray-300 font-black text-sm uppercase tracking-wider">{data.mes}</p>
+        <p className="text-gray-300 font-black text-sm uppercase tracking-wider">
+          {data.mes}
+          {!data.fechado && <span className="ml-2 text-[9px] text-amber-400">Em aberto · provisório</span>}
+        </p>
         <div className="space-y-1">
           <div className="flex justify-between gap-8 text-xs font-bold text-gray-400">
             <span>Faturamento:</span>
@@ -83,6 +64,12 @@ const CustomRentabilidadeTooltip = ({ active, payload }: any) => {
             <span>Custo Geral:</span>
             <span className="text-rose-400">{formatBRL(data.custoGeral)}</span>
           </div>
+          {breakdown.map(c => (
+            <div key={c.key} className="flex justify-between gap-8 text-[10px] font-bold text-gray-500 pl-3">
+              <span>{c.label}:</span>
+              <span className="text-rose-300/80">{formatBRL(data.custos[c.key])}</span>
+            </div>
+          ))}
           <div className="border-t border-gray-800 my-1 pt-1 flex justify-between gap-8 text-xs font-black text-gray-300">
             <span>Resultado:</span>
             <span className={isProfitable ? 'text-emerald-400' : 'text-rose-400'}>
@@ -104,177 +91,164 @@ const CustomRentabilidadeTooltip = ({ active, payload }: any) => {
 
 const App: React.FC = () => {
   const [activeTab, setActiveTab] = useState('FATURAMENTO E CUSTOS');
-  const [metas, setMetas] = useState(() => JSON.parse(localStorage.getItem('skg-metas') || JSON.stringify(metaMensal)));
-  const [vendedoresConfig, setVendedoresConfig] = useState(() => JSON.parse(localStorage.getItem('skg-vendedores-config') || JSON.stringify(initialSalespeopleConfig)));
-  const [vendedorData, setVendedorData] = useState(() => JSON.parse(localStorage.getItem('skg-vendedores') || JSON.stringify(initialSalespersonData['2026'])));
-  const [quarterlyHistory, setQuarterlyHistory] = useState<QuarterlyData[]>(() => JSON.parse(localStorage.getItem('skg-quarterly') || JSON.stringify(initialQuarterlyHistory)));
-  const [custos, setCustos] = useState(() => JSON.parse(localStorage.getItem('skg-custos') || JSON.stringify(initialCustosEficiencia)));
-  const [gestaoTop20, setGestaoTop20] = useState(() => {
-    const saved = localStorage.getItem('skg-gestao-top20');
-    if (saved) {
-      try {
-        const parsed = JSON.parse(saved);
-        if (parsed.clientes && parsed.clientes.length > 0 && parsed.clientes[0].history) {
-          return parsed;
-        }
-      } catch (e) {
-        console.error("Erro ao carregar Gestão Top 20", e);
-      }
-    }
-    return initialGestaoTop20;
-  });
+  const [metasByYear, setMetasByYear] = useState<YearKeyed>(initialMetasByYear);
+  const [vendedoresConfigByYear, setVendedoresConfigByYear] = useState<YearKeyed>(initialSalespeopleConfigByYear);
+  const [vendedorDataByYear, setVendedorDataByYear] = useState<YearKeyed>(initialSalespersonDataByYear);
+  const [metasVendedoresByYear, setMetasVendedoresByYear] = useState<YearKeyed>(initialMetasVendedoresByYear);
+  const [quarterlyHistory, setQuarterlyHistory] = useState<QuarterlyData[]>(initialQuarterlyHistory);
+  const [carteira, setCarteira] = useState<Client[]>(initialClients);
+  const [custosByYear, setCustosByYear] = useState<YearKeyed>(initialCustosByYear);
+  const [periodosByYear, setPeriodosByYear] = useState<YearKeyed>(initialPeriodosByYear);
+  const [categoriasCusto, setCategoriasCusto] = useState<CostCategory[]>(DEFAULT_COST_CATEGORIES);
+  const [gestaoTop20, setGestaoTop20] = useState(initialGestaoTop20);
+  const [auditEntries, setAuditEntries] = useState<AuditEntry[]>([]);
+  const [scenarios, setScenarios] = useState<Scenario[]>([]);
+  const [catchUpSettings, setCatchUpSettings] = useState<CatchUpSettings>(DEFAULT_CATCH_UP);
+  const [logisticsSettings, setLogisticsSettings] = useState<LogisticsSettings>(DEFAULT_LOGISTICS);
+  const [allocationSettings, setAllocationSettings] = useState<AllocationSettings>(DEFAULT_ALLOCATION);
+  const [abcXyzSettings, setAbcXyzSettings] = useState<AbcXyzSettings>(DEFAULT_ABC_XYZ);
+  const [statusThresholds, setStatusThresholds] = useState<ClienteStatusThresholds>(DEFAULT_STATUS_THRESHOLDS);
   const [selectedYear, setSelectedYear] = useState('2026');
   const [selectedClientT10, setSelectedClientT10] = useState('Consolidado T10');
   const [selectedQuarterAnalysis, setSelectedQuarterAnalysis] = useState('1º');
   const [rentabilidadeChartType, setRentabilidadeChartType] = useState('composed');
-
-  // Migrate to exact 2026 meta goal and custos structure
+  const [metaCategoriaKey, setMetaCategoriaKey] = useState('');
+
+  // Fatias do ano selecionado usadas por todas as abas.
+  const metas = metasByYear[selectedYear] || [];
+  const vendedoresConfig = vendedoresConfigByYear[selectedYear] || [];
+  const vendedorData = vendedorDataByYear[selectedYear] || [];
+  const metasVendedores = metasVendedoresByYear[selectedYear] || [];
+  const custos = custosByYear[selectedYear] || [];
+  const periodos = periodosByYear[selectedYear] || [];
+  // Meses fechados do ano: só eles contam como realizado em médias, medidores e projeções.
+  const closedMonths = closedMonthCount(periodos);
+
+  // Garante que o ano selecionado exista em todos os datasets mensais (ex.: metas de 2027 sem lançamentos de vendedores).
   useEffect(() => {
-     setMetas((prev: typeof metaMensal) => {
-         const currentTotal = prev.reduce((acc, m) => acc + m.meta, 0);
-         if (currentTotal !== 2180000) {
-             return prev.map((m, idx) => ({ ...m, meta: metaMensal[idx]?.meta || m.meta }));
-         }
-         return prev;
-     });
-     
-     setCustos((prev: any[]) => {
-         if (!prev || prev.length === 0) return initialCustosEficiencia;
-         const needsMigration = prev.some(c => ('materiaPrima' in c) || !('Camozzi' in c) || !('Outros Fornecedores' in c) || ('eficiencia' in c || !('metaCamozzi' in c)));
-         if (needsMigration) {
-             return initialCustosEficiencia.map((initItem, idx) => {
-                 const prevItem = prev[idx] || {};
-                 const copy = { ...initItem };
-                 if ('faturamento' in prevItem) copy.faturamento = prevItem.faturamento;
-                 if ('zmExpress' in prevItem) copy.zmExpress = prevItem.zmExpress;
-                 if ('tercExpress' in prevItem) copy.tercExpress = prevItem.tercExpress;
-                 if ('correios' in prevItem) copy.correios = prevItem.correios;
-                 
-                 if ('materiaPrima' in prevItem) {
-                     copy.Camozzi = prevItem.materiaPrima;
-                 } else if ('Camozzi' in prevItem) {
-                     copy.Camozzi = prevItem.Camozzi;
-                 }
-                 
-                 if ('Outros Fornecedores' in prevItem) {
-                     copy['Outros Fornecedores'] = prevItem['Outros Fornecedores'];
-                 }
-                 
-                 return copy;
-             });
-         }
-         return prev;
-     });
-     
-     // Migrate V3 to SKG
-     setVendedorData((prev: any[]) => {
-         const needsMigration = prev.some(v => v.V3 !== undefined);
-         if (needsMigration) {
-             return prev.map(v => {
-                 if (v.V3 !== undefined) {
-                     const copy = { ...v, SKG: v.V3 };
-                     delete copy.V3;
-                     return copy;
-                 }
-                 return v;
-             });
-         }
-         return prev;
-     });
-     
-     setVendedoresConfig((prev: any[]) => {
-         const needsMigration = prev.some(v => v.id === 'V3');
-         if (needsMigration) {
-             return prev.map(v => {
-                 if (v.id === 'V3') {
-                     return { ...v, id: 'SKG', label: 'SK-G' };
-                 }
-                 return v;
-             });
-         }
-         return prev;
-     });
-  }, []);
+    const changes = ensureYear({ metas: metasByYear, vendedoresConfig: vendedoresConfigByYear, vendedorData: vendedorDataByYear, custos: custosByYear, metasVendedores: metasVendedoresByYear, periodos: periodosByYear }, selectedYear);
+    if (changes.metas) setMetasByYear(changes.metas);
+    if (changes.vendedoresConfig) setVendedoresConfigByYear(changes.vendedoresConfig);
+    if (changes.vendedorData) setVendedorDataByYear(changes.vendedorData);
+    if (changes.custos) setCustosByYear(changes.custos);
+    if (changes.metasVendedores) setMetasVendedoresByYear(changes.metasVendedores);
+    if (changes.periodos) setPeriodosByYear(changes.periodos);
+  }, [selectedYear, metasByYear, vendedoresConfigByYear, vendedorDataByYear, custosByYear, metasVendedoresByYear, periodosByYear]);
 
   useEffect(() => {
-     setCustos((prev: any[]) => {
+     setCustosByYear(prev => {
          let changed = false;
-         const next = prev.map((c, idx) => {
-             const m = metas[idx];
-             if (m && c.faturamento !== m.r2026) {
+         const next = Object.fromEntries(Object.entries<any[]>(prev).map(([year, rows]) => [year, rows.map((c, idx) => {
+             const m = metasByYear[year]?.[idx];
+             if (m && c.faturamento !== m.realizado) {
                  changed = true;
-                 return { ...c, faturamento: m.r2026 };
+                 return { ...c, faturamento: m.realizado };
              }
              return c;
-         });
+         })]));
          return changed ? next : prev;
      });
-  }, [metas]);
-
-  const totalBilling2026 = useMemo(() => metas.reduce((acc: any, m: any) => acc + m.r2026, 0), [metas]);
-  const metaAno = useMemo(() => metas.reduce((acc: any, m: any) => acc + m.meta, 0), [metas]);
-  const atingimento = useMemo(() => (metaAno > 0 ? (totalBilling2026 / metaAno) * 100 : 0), [totalBilling2026, metaAno]);
+  }, [metasByYear]);
+
+  const {
+    totalRealizado, metaAno, atingimento, realizadoFechado, categorias: categoryTotals, custoPorTipo, custoTotalGeral,
+  } = useMemo(() => summarizeYear(metas, custos, categoriasCusto, closedMonths), [metas, custos, categoriasCusto, closedMonths]);
+
+  // Categoria acompanhada no medidor e na Métrica 2; a primeira com meta quando nenhuma foi escolhida.
+  const totaisComMeta = categoryTotals.filter(c => c.categoria.metaKey);
+  const metaCategoria = totaisComMeta.find(c => c.categoria.key === metaCategoriaKey) || totaisComMeta[0];
+  const commitment = useMemo(
+    () => (metaCategoria ? supplierCommitment(custos, metaCategoria.categoria, closedMonths) : null),
+    [custos, metaCategoria?.categoria, closedMonths]
+  );
   
-  // Migration: Reset local data if stale or incorrect
+  // Projeção dos meses em aberto a partir do histórico trimestral e das séries mensais.
+  const revenueForecast = useMemo(
+    () => revenueForecastFor(metasByYear, quarterlyHistory, selectedYear, closedMonths),
+    [metasByYear, quarterlyHistory, selectedYear, closedMonths]
+  );
+
+  // Plano de recuperação: o desvio dos meses já lançados volta para as metas dos meses em aberto.
+  const seasonality = useMemo(() => monthlySeasonality(metasByYear, quarterlyHistory, selectedYear), [metasByYear, quarterlyHistory, selectedYear]);
+  const catchUpWeightsByMonth = useMemo(() => catchUpWeights(catchUpSettings, seasonality), [catchUpSettings, seasonality]);
+
+  const catchUpPlan = useMemo(
+    () => planCatchUp(metas.map((m: any) => m.meta), metas.map((m: any) => m.realizado), closedMonths, catchUpWeightsByMonth),
+    [metas, closedMonths, catchUpWeightsByMonth]
+  );
+
+  const sellerResults = useMemo(() => sellerAttainment(vendedoresConfig, vendedorData, metas, metasVendedores).map(s => ({
+    ...s,
+    plan: planCatchUp(s.months.map(m => m.target), s.months.map(m => m.real), closedMonths, catchUpWeightsByMonth),
+  })), [vendedoresConfig, vendedorData, metas, metasVendedores, closedMonths, catchUpWeightsByMonth]);
+
+  const commissions = useMemo(
+    () => computeCommissions(vendedoresConfig, sellerResults, closedMonths),
+    [vendedoresConfig, sellerResults, closedMonths]
+  );
+
+  const targetReconciliation = useMemo(
+    () => reconcileSellerTargets(vendedoresConfig, metas, metasVendedores),
+    [vendedoresConfig, metas, metasVendedores]
+  );
+
+  const faturamentoVsMetaData = useMemo(
+    () => metas.map((m: any, idx: number) => ({ ...m, ...revenueForecast.points[idx], month: m.month, metaRecuperacao: catchUpPlan.months[idx]?.recuperacao ?? null })),
+    [metas, revenueForecast, catchUpPlan]
+  );
 
-  const metaAnualCamozzi = useMemo(() => custos.reduce((acc: any, m: any) => acc + m.metaCamozzi, 0), [custos]);
-  const custoTotalCamozzi = useMemo(() => custos.reduce((acc: any, m: any) => acc + (m.Camozzi || 0), 0), [custos]);
-  const custoTotalOutrosFornecedores = useMemo(() => custos.reduce((acc: any, m: any) => acc + (m['Outros Fornecedores'] || 0), 0), [custos]);
-  const custoTotalOutros = useMemo(() => custos.reduce((acc: any, m: any) => acc + (m.zmExpress + m.tercExpress + m.correios), 0), [custos]);
-  const percCamozziGlobal = metaAnualCamozzi > 0 ? (custoTotalCamozzi / metaAnualCamozzi) * 100 : 0;
   
-  const faturamentoVsCustoData = useMemo(() => {
-    return metas.map((item: any, idx: number) => {
-      const monthName = item.month || item.mes;
-      const faturamento = item[`r${selectedYear}`] !== undefined ? item[`r${selectedYear}`] : (item.r2026 || 0);
-      const c = custos[idx] || {};
-      const custoGeral = (c.Camozzi || 0) + (c['Outros Fornecedores'] || 0) + (c.zmExpress || 0) + (c.tercExpress || 0) + (c.correios || 0);
-      const lucro = faturamento - custoGeral;
-      const margem = faturamento > 0 ? (lucro / faturamento) * 100 : 0;
-      return {
-        mes: monthName,
-        faturamento,
-        custoGeral,
-        lucro,
-        margem: parseFloat(margem.toFixed(1))
-      };
-    });
-  }, [metas, custos, selectedYear]);
-
-  const { avgMargin, totalLucro, bestMonth, highestCostMonth } = useMemo(() => {
-    let sumMargin = 0;
-    let sumFaturamento = 0;
-    let sumCustoGeral = 0;
-    let best = { mes: '-', margem: -999 };
-    let highestCost = { mes: '-', custoGeral: 0 };
-    let validMonthsCount = 0;
-
-    faturamentoVsCustoData.forEach(d => {
-      if (d.faturamento > 0 || d.custoGeral > 0) {
-        sumMargin += d.margem;
-        sumFaturamento += d.faturamento;
-        sumCustoGeral += d.custoGeral;
-        validMonthsCount++;
-        
-        if (d.faturamento > 0 && d.margem > best.margem) {
-          best = { mes: d.mes, margem: d.margem };
-        }
-        if (d.custoGeral > highestCost.custoGeral) {
-          highestCost = { mes: d.mes, custoGeral: d.custoGeral };
-        }
-      }
-    });
+  const faturamentoVsCustoData = useMemo(
+    () => computeMonthlyMargins(metas, custos, categoriasCusto, closedMonths),
+    [metas, custos, categoriasCusto, closedMonths]
+  );
+
+  const logistics = useMemo(
+    () => analyzeLogistics(metas, custos, categoriasCusto, logisticsSettings, closedMonths),
+    [metas, custos, categoriasCusto, logisticsSettings, closedMonths]
+  );
 
-    const avgMarginVal = validMonthsCount > 0 ? (sumMargin / validMonthsCount) : 0;
-    const totalLucroVal = sumFaturamento - sumCustoGeral;
+  const { avgMargin, totalLucro, bestMonth, highestCostMonth } = useMemo(() => summarizeMargins(faturamentoVsCustoData), [faturamentoVsCustoData]);
+
+  const scenarioBase = useMemo(() => buildScenarioBase({
+    year: selectedYear,
+    metas,
+    custos,
+    categorias: categoriasCusto,
+    vendedoresConfig,
+    vendedorData,
+    clientes: gestaoTop20.clientes,
+    expectedClose: revenueForecast.yearEnd.expected,
+    closedMonths,
+  }), [selectedYear, metas, custos, categoriasCusto, vendedoresConfig, vendedorData, gestaoTop20, revenueForecast, closedMonths]);
+
+  const margins = useMemo(() => allocateMargins({
+    year: selectedYear,
+    metas,
+    custos,
+    categorias: categoriasCusto,
+    vendedoresConfig,
+    vendedorData,
+    clientes: gestaoTop20.clientes,
+    closedMonths,
+    faturamentoAno: revenueForecast.yearEnd.expected,
+    settings: allocationSettings,
+  }), [selectedYear, metas, custos, categoriasCusto, vendedoresConfig, vendedorData, gestaoTop20, closedMonths, revenueForecast, allocationSettings]);
+
+  const oportunidade = useMemo(
+    () => opportunityCost(gestaoTop20.clientes, metaAno, selectedYear),
+    [gestaoTop20, metaAno, selectedYear]
+  );
 
-    return {
-      avgMargin: avgMarginVal,
-      totalLucro: totalLucroVal,
-      bestMonth: best.mes !== '-' ? best : { mes: 'Sem dados', margem: 0 },
-      highestCostMonth: highestCost.mes !== '-' ? highestCost : { mes: 'Sem dados', custoGeral: 0 }
-    };
-  }, [faturamentoVsCustoData]);
+  // Anos do histórico e das projeções dos clientes T10, na ordem em que aparecem no gráfico.
+  const t10Years = useMemo(() => {
+    const t10 = gestaoTop20.clientes.slice(0, 10);
+    return clientYears(t10).map((y, idx) => ({
+      year: String(y),
+      projecao: t10.some((c: any) => c[`projection${y}`] !== undefined),
+      color: T10_YEAR_COLORS[idx % T10_YEAR_COLORS.length],
+    }));
+  }, [gestaoTop20]);
   
   const quarterlySummaries = useMemo(() => {
     const byYear: Record<string, number> = {};
@@ -293,43 +267,162 @@ const App: React.FC = () => {
      return Object.entries(dist).map(([name, value]) => ({ name, value }));
   }, [quarterlyHistory]);
 
+  const datasetSetters = useMemo(() => ({
+    'skg-metas': setMetasByYear,
+    'skg-vendedores-config': setVendedoresConfigByYear,
+    'skg-vendedores': setVendedorDataByYear,
+    'skg-metas-vendedores': setMetasVendedoresByYear,
+    'skg-quarterly': setQuarterlyHistory,
+    'skg-carteira': setCarteira,
+    'skg-custos': setCustosByYear,
+    'skg-categorias-custo': setCategoriasCusto,
+    'skg-periodos': setPeriodosByYear,
+    'skg-gestao-top20': setGestaoTop20,
+    'skg-audit-log': setAuditEntries,
+    'skg-scenarios': setScenarios,
+    'skg-catch-up': (value: Partial<CatchUpSettings>) => setCatchUpSettings({ ...DEFAULT_CATCH_UP, ...value }),
+    'skg-status-thresholds': (value: Partial<ClienteStatusThresholds>) => setStatusThresholds({ ...DEFAULT_STATUS_THRESHOLDS, ...value }),
+    'skg-abc-xyz': (value: Partial<AbcXyzSettings>) => setAbcXyzSettings({ ...DEFAULT_ABC_XYZ, ...value }),
+    'skg-logistica': (value: Partial<LogisticsSettings>) => setLogisticsSettings({ ...DEFAULT_LOGISTICS, ...value }),
+    'skg-alocacao-custos': (value: Partial<AllocationSettings>) => setAllocationSettings({ ...DEFAULT_ALLOCATION, ...value }),
+  }), []);
+
+  const persistedDatasets = {
+    'skg-metas': metasByYear,
+    'skg-vendedores-config': vendedoresConfigByYear,
+    'skg-vendedores': vendedorDataByYear,
+    'skg-metas-vendedores': metasVendedoresByYear,
+    'skg-quarterly': quarterlyHistory,
+    'skg-carteira': carteira,
+    'skg-custos': custosByYear,
+    'skg-categorias-custo': categoriasCusto,
+    'skg-periodos': periodosByYear,
+    'skg-gestao-top20': gestaoTop20,
+    'skg-audit-log': auditEntries,
+    'skg-status-thresholds': statusThresholds,
+    'skg-abc-xyz': abcXyzSettings,
+    'skg-logistica': logisticsSettings,
+    'skg-alocacao-custos': allocationSettings,
+    'skg-scenarios': scenarios,
+    'skg-catch-up': catchUpSettings,
+  };
+
+  const { status: saveStatus, lastSavedAt, error: saveError, saveNow, hydrated } = useAutoSave(persistedDatasets, datasetSetters);
+
+  const audit = useAuditLog(auditEntries, setAuditEntries);
+  const { record: recordAudit } = audit;
+
+  const sync = useServerSync(persistedDatasets, datasetSetters, hydrated, audit.user);
+
+  // Desfazer/refazer também entra na auditoria, com o dataset traduzido para o campo do workspace.
+  const auditHistoryApply = useCallback((dataset: string, from: any, to: any, label: string) => {
+    const field = (Object.keys(WORKSPACE_FIELDS) as WorkspaceField[]).find(f => WORKSPACE_FIELDS[f] === dataset);
+    if (field) recordAudit(field, from, to, label);
+  }, [recordAudit]);
+
+  // Desfazer/refazer não passa por cima de meses bloqueados: a entrada é recusada inteira.
+  const historyGuard = useCallback((changes: { dataset: string, from: any, to: any }[], applied: Record<string, any>) => {
+    const periodos = applied[WORKSPACE_FIELDS.periodos] ?? periodosByYear;
+    const rejected = changes.flatMap(c => {
+      const field = (Object.keys(WORKSPACE_FIELDS) as WorkspaceField[]).find(f => WORKSPACE_FIELDS[f] === c.dataset);
+      if (field !== 'periodos' && !PERIOD_LOCKED_FIELDS.includes(field)) return [];
+      return protectLockedMonths({ periodos, [field]: c.from }, { [field]: c.to }).rejected;
+    });
+    return rejected.length > 0 ? lockedEditMessage(rejected) : null;
+  }, [periodosByYear]);
+
+  const editHistory = useEditHistory(datasetSetters, 100, auditHistoryApply, historyGuard);
+
+  const workspace: Workspace = {
+    metas: metasByYear,
+    vendedoresConfig: vendedoresConfigByYear,
+    vendedorData: vendedorDataByYear,
+    metasVendedores: metasVendedoresByYear,
+    custos: custosByYear,
+    categoriasCusto,
+    periodos: periodosByYear,
+    quarterlyHistory,
+    gestaoTop20,
+    carteira,
+    statusThresholds,
+    abcXyz: abcXyzSettings,
+  };
+
+  const handleRevertAudit = (entry: AuditEntry) => {
+    const field = entry.dataset;
+    const before = workspace[field];
+    const { data, error } = revertCell(field, before, entry);
+    if (error) {
+      alert(`Não foi possível reverter: ${error}`);
+      return;
+    }
+    const locked = PERIOD_LOCKED_FIELDS.includes(field) ? lockedChanges(before, data, periodosByYear) : [];
+    if (locked.length > 0) {
+      alert(`Não foi possível reverter. ${lockedEditMessage(locked)}`);
+      return;
+    }
+    const label = `Reverteu "${entry.column}" (${entry.row})`;
+    editHistory.record('Auditoria', label, [{ dataset: WORKSPACE_FIELDS[field], before, after: data }]);
+    recordAudit(field, before, data, `Reversão de alteração de ${entry.user}`);
+    audit.markReverted(entry.id);
+    datasetSetters[WORKSPACE_FIELDS[field]](data);
+  };
+
+  // Plano de comissão editado fora do Banco de Dados: mesmo registro de desfazer e auditoria das planilhas.
+  const handleSellerConfigChange = (rows: any[], label: string) => {
+    const before = vendedoresConfigByYear;
+    const after = { ...before, [selectedYear]: rows };
+    editHistory.record(`${WORKSPACE_LABELS.vendedoresConfig} ${selectedYear}`, label, [{ dataset: WORKSPACE_FIELDS.vendedoresConfig, before, after }]);
+    recordAudit('vendedoresConfig', before, after, label);
+    setVendedoresConfigByYear(after);
+  };
+
   const handleSave = () => {
-    localStorage.setItem('skg-metas', JSON.stringify(metas));
-    localStorage.setItem('skg-vendedores-config', JSON.stringify(vendedoresConfig));
-    localStorage.setItem('skg-vendedores', JSON.stringify(vendedorData));
-    localStorage.setItem('skg-quarterly', JSON.stringify(quarterlyHistory));
-    localStorage.setItem('skg-custos', JSON.stringify(custos));
-    localStorage.setItem('skg-gestao-top20', JSON.stringify(gestaoTop20));
-    alert('Dados salvos com sucesso!');
+    saveNow();
   };
 
-  // Sync 2026 Quarterly data from Monthly Billing
+  // Sync Quarterly data from Monthly Billing (every open year)
   useEffect(() => {
-    const q1 = (metas[0]?.r2026 || 0) + (metas[1]?.r2026 || 0) + (metas[2]?.r2026 || 0);
-    const q2 = (metas[3]?.r2026 || 0) + (metas[4]?.r2026 || 0) + (metas[5]?.r2026 || 0);
-    const q3 = (metas[6]?.r2026 || 0) + (metas[7]?.r2026 || 0) + (metas[8]?.r2026 || 0);
-    const q4 = (metas[9]?.r2026 || 0) + (metas[10]?.r2026 || 0) + (metas[11]?.r2026 || 0);
+    const quarterTotals = Object.entries<any[]>(metasByYear).map(([year, rows]) => ({
+      ano: Number(year),
+      totals: ['1º', '2º', '3º', '4º'].map((trimestre, q) => ({
+        trimestre,
+        value: rows.slice(q * 3, q * 3 + 3).reduce((acc: number, m: any) => acc + (m.realizado || 0), 0),
+      })),
+    }));
 
     setQuarterlyHistory(prev => {
       let changed = false;
       const next = prev.map(d => {
-        if (d.ano === 2026) {
-          let newVal = 0;
-          if (d.trimestre === '1º') newVal = q1;
-          else if (d.trimestre === '2º') newVal = q2;
-          else if (d.trimestre === '3º') newVal = q3;
-          else if (d.trimestre === '4º') newVal = q4;
-          
-          if (d.faturamento !== newVal) {
-            changed = true;
-            return { ...d, faturamento: newVal };
-          }
+        const newVal = quarterTotals.find(y => y.ano === d.ano)?.totals.find(t => t.trimestre === d.trimestre)?.value;
+        if (newVal !== undefined && d.faturamento !== newVal) {
+          changed = true;
+          return { ...d, faturamento: newVal };
         }
         return d;
       });
+      // Anos abertos com faturamento lançado ganham suas linhas no histórico.
+      quarterTotals.forEach(({ ano, totals }) => {
+        if (totals.every(t => t.value === 0)) return;
+        totals.forEach(t => {
+          if (!next.some(d => d.ano === ano && d.trimestre === t.trimestre)) {
+            changed = true;
+            next.push({ ano, trimestre: t.trimestre as QuarterlyData['trimestre'], faturamento: t.value });
+          }
+        });
+      });
       return changed ? next : prev;
     });
-  }, [metas]);
+  }, [metasByYear]);
+
+  // Os datasets vêm do IndexedDB (useAutoSave); até lá a tela não mostra nem aceita edição sobre os dados iniciais.
+  if (!hydrated) {
+    return (
+      <div className="min-h-screen bg-gray-950 text-gray-500 font-sans flex items-center justify-center text-xs font-black tracking-widest uppercase">
+        Carregando lançamentos...
+      </div>
+    );
+  }
 
   return (
     <div className="min-h-screen bg-gray-950 text-white font-sans p-2">
@@ -339,21 +432,26 @@ const App: React.FC = () => {
           <h1 className="text-xl font-black italic">SK-G INDUSTRIAL INTELLIGENCE</h1>
         </div>
         <div className="flex gap-2 items-center">
-          {['FATURAMENTO E CUSTOS', 'VENDEDORES', 'DASHBOARD T10', 'GESTÃO TOP 20', 'ANÁLISE TRIMESTRAL', 'ANÁLISE YOY', 'BANCO DE DADOS (PLANILHAS)'].map(tab => (
+          {['FATURAMENTO E CUSTOS', 'LOGÍSTICA', 'MARGENS', 'VENDEDORES', 'COMISSÕES', 'DASHBOARD T10', 'GESTÃO TOP 20', 'CARTEIRA', 'ANÁLISE TRIMESTRAL', 'ANÁLISE YOY', 'SIMULADOR', 'AUDITORIA', 'BANCO DE DADOS (PLANILHAS)'].map(tab => (
             <button key={tab} onClick={() => setActiveTab(tab)} className={`px-4 py-2 text-xs font-bold rounded ${activeTab === tab ? 'bg-white text-red-700' : 'bg-red-900/50 text-white hover:bg-red-900'}`}>{tab}</button>
           ))}
           {(() => {
-            const availableYears = Object.keys(metas[0] || {})
-               .filter(k => k.startsWith('r20'))
-               .map(k => k.replace('r', ''));
-            
+            const availableYears = listYears(metasByYear);
+            const closedYears = YEARS.filter(y => !availableYears.includes(y));
+
             return (
               <select value={selectedYear} onChange={(e) => setSelectedYear(e.target.value)} className="bg-red-900 text-white font-bold p-2 rounded">
                 {availableYears.map(y => <option key={y} value={y}>{y}</option>)}
+                {closedYears.length > 0 && (
+                  <optgroup label="Abrir novo ano">
+                    {closedYears.map(y => <option key={y} value={y}>+ Abrir {y}</option>)}
+                  </optgroup>
+                )}
               </select>
             );
           })()}
-          <button onClick={handleSave} className="bg-green-600 text-white px-4 py-2 rounded font-bold hover:bg-green-700 flex items-center gap-2">💾 SALVAR LANÇAMENTOS</button>
+          <SaveStatusIndicator status={saveStatus} lastSavedAt={lastSavedAt} error={saveError} onSaveNow={handleSave} />
+          <SyncStatusIndicator sync={sync} />
         </div>
       </header>
 
@@ -361,48 +459,144 @@ const App: React.FC = () => {
         <div className="space-y-6 animate-in fade-in duration-500">
            <section className="grid grid-cols-5 gap-4">
               <div className="bg-gray-900 p-6 rounded-2xl border border-gray-800 shadow-xl">
-                <p className="text-[10px] text-gray-400 uppercase font-bold">Meta Anual Camozzi</p>
-                <p className="text-xl font-black mt-2 text-emerald-400">{formatBRL(metaAnualCamozzi)}</p>
+                <p className="text-[10px] text-gray-400 uppercase font-bold">Meta Anual {metaCategoria ? metaCategoria.categoria.label : 'de Compras'}</p>
+                <p className="text-xl font-black mt-2 text-emerald-400">{formatBRL(metaCategoria?.meta || 0)}</p>
               </div>
               <div className="bg-gray-900 p-6 rounded-2xl border border-gray-800 shadow-xl">
                 <p className="text-[10px] text-gray-400 uppercase font-bold">Faturamento Total</p>
-                <p className="text-xl font-black mt-2 text-emerald-400">{formatBRL(metas.reduce((a,c) => a + c.r2026, 0))}</p>
+                <p className="text-xl font-black mt-2 text-emerald-400">{formatBRL(totalRealizado)}</p>
+                <p className="text-[10px] font-bold mt-1 text-gray-500">
+                  {closedMonths} {closedMonths === 1 ? 'mês fechado' : 'meses fechados'}
+                  {totalRealizado !== realizadoFechado ? ` · ${formatBRL(totalRealizado - realizadoFechado)} em aberto` : ''}
+                </p>
               </div>
-              <div className="bg-gray-900 p-6 rounded-2xl border border-gray-800 shadow-xl">
+              <div className="bg-gray-900 p-6 rounded-2xl border border-gray-800 shadow-xl" title={COST_CATEGORY_TYPES.map(t => `${COST_CATEGORY_TYPE_LABELS[t]}: ${formatBRL(custoPorTipo[t])}`).join(' · ')}>
                 <p className="text-[10px] text-gray-400 uppercase font-bold">Custo Total Geral</p>
-                <p className="text-xl font-black mt-2 text-amber-500">{formatBRL(custos.reduce((a,c) => a + (c.Camozzi || 0) + (c['Outros Fornecedores'] || 0) + c.zmExpress + c.tercExpress + c.correios, 0))}</p>
+                <p className="text-xl font-black mt-2 text-amber-500">{formatBRL(custoTotalGeral)}</p>
               </div>
               <div className="bg-gray-900 p-6 rounded-2xl border border-gray-800 shadow-xl">
                 <p className="text-[10px] text-gray-400 uppercase font-bold">Custo Matéria-Prima Real</p>
-                <p className="text-xl font-black mt-2 text-red-500">{formatBRL(custoTotalCamozzi + custoTotalOutrosFornecedores)}</p>
+                <p className="text-xl font-black mt-2 text-red-500">{formatBRL(custoPorTipo.fornecedor)}</p>
               </div>
-              <div className="bg-gray-900 p-6 rounded-2xl border border-gray-800 shadow-xl">
+              <button onClick={() => setActiveTab('LOGÍSTICA')} className="text-left bg-gray-900 p-6 rounded-2xl border border-gray-800 shadow-xl hover:border-gray-600 transition-all" title="Abrir a análise de eficiência logística">
                 <p className="text-[10px] text-gray-400 uppercase font-bold">Custos Logísticos</p>
-                <p className="text-xl font-black mt-2 text-red-400">{formatBRL(custoTotalOutros)}</p>
-              </div>
+                <p className="text-xl font-black mt-2 text-red-400">{formatBRL(custoPorTipo.logistica)}</p>
+                <p className={`text-[10px] font-bold mt-1 ${logistics.percentual > logisticsSettings.limite ? 'text-red-400' : 'text-gray-500'}`}>
+                  {logistics.percentual.toFixed(2)}% do faturamento · meta {logisticsSettings.meta.toFixed(1)}%
+                </p>
+              </button>
            </section>
 
            <section className="grid grid-cols-1 lg:grid-cols-2 gap-8">
               <section className="bg-gray-900 p-6 rounded-2xl border border-gray-800">
-                <h2 className="text-emerald-400 font-bold italic mb-6">FATURAMENTO VS META</h2>
+                <div className="flex justify-between items-center mb-6">
+                  <h2 className="text-emerald-400 font-bold italic">FATURAMENTO VS META</h2>
+                  <ExportButtons
+                    fileName={`Faturamento vs Meta ${selectedYear}`}
+                    getTable={() => ({
+                      columns: [
+                        { key: 'month', label: 'Mês' },
+                        { key: 'situacao', label: 'Situação' },
+                        { key: 'meta', label: 'Meta (R$)', kind: 'currency' },
+                        { key: 'realizado', label: `Realizado ${selectedYear} (R$)`, kind: 'currency' },
+                        { key: 'atingimento', label: '% Atingimento', kind: 'percent' },
+                        { key: 'metaRecuperacao', label: 'Meta de Recuperação (R$)', kind: 'currency' },
+                        { key: 'previsao', label: 'Previsão (R$)', kind: 'currency' },
+                        { key: 'min80', label: 'Mínimo 80% (R$)', kind: 'currency' },
+                        { key: 'max80', label: 'Máximo 80% (R$)', kind: 'currency' },
+                        { key: 'min95', label: 'Mínimo 95% (R$)', kind: 'currency' },
+                        { key: 'max95', label: 'Máximo 95% (R$)', kind: 'currency' },
+                      ],
+                      rows: faturamentoVsMetaData.map((m: any, idx: number) => {
+                        const realizado = m.realizado || 0;
+                        const projected = idx > revenueForecast.lastActualIndex;
+                        return {
+                          month: m.month, situacao: idx < closedMonths ? 'Fechado' : 'Em aberto', meta: m.meta, realizado, atingimento: m.meta > 0 ? (realizado / m.meta) * 100 : 0,
+                          metaRecuperacao: m.metaRecuperacao,
+                          previsao: projected ? m.forecast : null,
+                          min80: projected ? m.band80?.[0] : null, max80: projected ? m.band80?.[1] : null,
+                          min95: projected ? m.band95?.[0] : null, max95: projected ? m.band95?.[1] : null,
+                        };
+                      })
+                    })}
+                  />
+                </div>
                 <ChartWrapper height={350}>
-                    <ComposedChart data={metas}>
+                    <ComposedChart data={faturamentoVsMetaData}>
                         <CartesianGrid stroke="#374151" strokeDasharray="3 3"/>
                         <XAxis dataKey="month" stroke="#9ca3af"/>
                         <YAxis tickFormatter={v => formatBRL(v)} stroke="#9ca3af" width={100} />
-                        <Tooltip formatter={(v: number) => formatBRL(v)} />
-                        <Bar dataKey="r2026" fill="#10b981" name="Realizado 2026" />
+                        <Tooltip formatter={(v: any) => (Array.isArray(v) ? `${formatBRL(v[0])} – ${formatBRL(v[1])}` : formatBRL(v))} />
+                        <Area dataKey="band95" stroke="none" fill="#3b82f6" fillOpacity={0.12} name="Faixa 95%" />
+                        <Area dataKey="band80" stroke="none" fill="#3b82f6" fillOpacity={0.25} name="Faixa 80%" />
+                        <Bar dataKey="realizado" fill="#10b981" name={`Realizado ${selectedYear}`}>
+                            {faturamentoVsMetaData.map((_: any, idx: number) => (
+                                <Cell key={idx} fillOpacity={idx < closedMonths ? 1 : 0.35} />
+                            ))}
+                        </Bar>
                         <Line dataKey="meta" stroke="#374151" strokeWidth={3} name="Meta" />
+                        <Line dataKey="metaRecuperacao" stroke="#f59e0b" strokeWidth={2} strokeDasharray="3 3" dot={{ r: 2 }} name="Meta de Recuperação" />
+                        <Line dataKey="forecast" stroke="#60a5fa" strokeWidth={2} strokeDasharray="6 4" dot={{ r: 3 }} connectNulls name="Previsão" />
                     </ComposedChart>
                 </ChartWrapper>
+                {(() => {
+                  const { yearEnd } = revenueForecast;
+                  const gap = yearEnd.expected - metaAno;
+                  const probability = yearEnd.sd > 0 ? (1 - normalCdf((metaAno - yearEnd.expected) / yearEnd.sd)) * 100 : (gap >= 0 ? 100 : 0);
+                  return (
+                    <div className="grid grid-cols-4 gap-3 mt-4 text-center">
+                      <div className="bg-gray-950 rounded-lg p-3 border border-gray-800">
+                        <p className="text-[10px] text-gray-500 uppercase font-bold">Fechamento Provável</p>
+                        <p className="text-sm font-black text-blue-400 mt-1">{formatBRL(yearEnd.expected)}</p>
+                      </div>
+                      <div className="bg-gray-950 rounded-lg p-3 border border-gray-800" title={`Faixa 95%: ${formatBRL(yearEnd.band95[0])} – ${formatBRL(yearEnd.band95[1])}`}>
+                        <p className="text-[10px] text-gray-500 uppercase font-bold">Faixa 80%</p>
+                        <p className="text-[11px] font-bold text-gray-300 mt-1">{formatBRL(yearEnd.band80[0])} – {formatBRL(yearEnd.band80[1])}</p>
+                      </div>
+                      <div className="bg-gray-950 rounded-lg p-3 border border-gray-800">
+                        <p className="text-[10px] text-gray-500 uppercase font-bold">Vs Meta Anual</p>
+                        <p className={`text-sm font-black mt-1 ${gap >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>
+                          {gap >= 0 ? '+' : ''}{formatBRL(gap)} ({metaAno > 0 ? ((yearEnd.expected / metaAno) * 100).toFixed(1) : '0.0'}%)
+                        </p>
+                      </div>
+                      <div className="bg-gray-950 rounded-lg p-3 border border-gray-800" title={`Holt-Winters α=${revenueForecast.params.alpha} β=${revenueForecast.params.beta} γ=${revenueForecast.params.gamma}; erro médio ${revenueForecast.mape.toFixed(1)}%`}>
+                        <p className="text-[10px] text-gray-500 uppercase font-bold">Chance de Bater a Meta</p>
+                        <p className="text-sm font-black text-amber-400 mt-1">{probability.toFixed(0)}%</p>
+                      </div>
+                    </div>
+                  );
+                })()}
               </section>
               
               <section className="bg-gray-900 p-6 rounded-2xl border border-gray-800 flex flex-col justify-center">
                 <h2 className="text-amber-400 font-bold italic mb-6 uppercase tracking-wider text-center">
-                  ATINGIMENTO META CAMOZZI
+                  ATINGIMENTO META {metaCategoria ? metaCategoria.categoria.label : 'DE COMPRAS'}
                 </h2>
+                {totaisComMeta.length > 1 && (
+                  <select
+                    value={metaCategoria.categoria.key}
+                    onChange={(e) => setMetaCategoriaKey(e.target.value)}
+                    className="self-center bg-gray-950 text-xs font-bold text-gray-300 px-3 py-1.5 border border-gray-800 rounded-lg"
+                  >
+                    {totaisComMeta.map(c => <option key={c.categoria.key} value={c.categoria.key}>{c.categoria.label}</option>)}
+                  </select>
+                )}
                 <div className="flex-1 min-h-[300px] flex items-center justify-center">
-                   <GaugeChart value={percCamozziGlobal} />
+                   {metaCategoria ? (
+                     <div className="flex flex-col items-center gap-2">
+                       <GaugeChart value={metaCategoria.atingimentoFechado} />
+                       <p className="text-[10px] text-gray-500 font-bold uppercase text-center">
+                         {closedMonths} {closedMonths === 1 ? 'mês fechado' : 'meses fechados'}: {formatBRL(metaCategoria.totalFechado)} de {formatBRL(metaCategoria.metaFechada)}
+                         {' · '}ano com meses em aberto: {metaCategoria.atingimento.toFixed(1)}%
+                       </p>
+                       <p className="text-[10px] font-bold uppercase text-center">
+                         <span className="text-gray-500">Ritmo: </span><CommitmentPerc perc={commitment.ritmo} digits={1} />
+                         <span className="text-gray-500"> do esperado · necessário {formatBRL(commitment.necessarioMensal)}/mês</span>
+                       </p>
+                     </div>
+                   ) : (
+                     <p className="text-gray-500 text-sm text-center">Nenhuma categoria de custo com meta mensal. Ative a meta no cadastro de categorias do Banco de Dados.</p>
+                   )}
                 </div>
               </section>
            </section>
@@ -416,6 +610,21 @@ const App: React.FC = () => {
                     </h2>
                     <p className="text-[10px] text-gray-500 uppercase font-black tracking-widest mt-1">Comparativo Mensal de Receitas, Custos Totais e Margem de Contribuição</p>
                   </div>
+                  <div className="flex items-center gap-3">
+                  <ExportButtons
+                    fileName={`Rentabilidade ${selectedYear}`}
+                    getTable={() => ({
+                      columns: [
+                        { key: 'mes', label: 'Mês' },
+                        { key: 'faturamento', label: 'Faturamento (R$)', kind: 'currency' },
+                        ...categoriasCusto.map(c => ({ key: `custo_${c.key}`, label: `${c.label} (R$)`, kind: 'currency' as const })),
+                        { key: 'custoGeral', label: 'Custo Geral (R$)', kind: 'currency' },
+                        { key: 'lucro', label: 'Resultado (R$)', kind: 'currency' },
+                        { key: 'margem', label: 'Margem (%)', kind: 'percent' },
+                      ],
+                      rows: faturamentoVsCustoData.map(m => ({ ...m, ...Object.fromEntries(categoriasCusto.map(c => [`custo_${c.key}`, m.custos[c.key] || 0])) }))
+                    })}
+                  />
                   <div className="flex gap-1.5 bg-gray-950 p-1.5 rounded-xl border border-gray-800">
                     <button 
                       onClick={() => setRentabilidadeChartType('composed')} 
@@ -436,6 +645,7 @@ const App: React.FC = () => {
                       Áreas
                     </button>
                   </div>
+                  </div>
                 </div>
 
                 <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
@@ -453,7 +663,7 @@ const App: React.FC = () => {
                           <CartesianGrid stroke="#1f2937" strokeDasharray="3 3" vertical={false} />
                           <XAxis dataKey="mes" stroke="#9ca3af" fontSize={11} tickLine={false} />
                           <YAxis tickFormatter={v => `R$ ${(v / 1000).toFixed(0)}k`} stroke="#9ca3af" fontSize={11} width={80} tickLine={false} />
-                          <Tooltip content={<CustomRentabilidadeTooltip />} />
+                          <Tooltip content={<CustomRentabilidadeTooltip categories={categoriasCusto} />} />
                           <Legend verticalAlign="top" height={36} iconType="circle" wrapperStyle={{ fontSize: '11px', fontWeight: 'bold' }} />
                           <Bar dataKey="faturamento" fill="url(#colorFaturamento)" stroke="#10b981" strokeWidth={1} name="Faturamento Real" radius={[4, 4, 0, 0]} />
                           <Line dataKey="custoGeral" stroke="#ef4444" strokeWidth={3} dot={{ r: 4, strokeWidth: 2, fill: '#111827' }} activeDot={{ r: 6 }} name="Custo Geral" />
@@ -464,7 +674,7 @@ const App: React.FC = () => {
                           <CartesianGrid stroke="#1f2937" strokeDasharray="3 3" vertical={false} />
                           <XAxis dataKey="mes" stroke="#9ca3af" fontSize={11} tickLine={false} />
                           <YAxis tickFormatter={v => `R$ ${(v / 1000).toFixed(0)}k`} stroke="#9ca3af" fontSize={11} width={80} tickLine={false} />
-                          <Tooltip content={<CustomRentabilidadeTooltip />} />
+                          <Tooltip content={<CustomRentabilidadeTooltip categories={categoriasCusto} />} />
                           <Legend verticalAlign="top" height={36} iconType="circle" wrapperStyle={{ fontSize: '11px', fontWeight: 'bold' }} />
                           <Bar dataKey="faturamento" fill="#10b981" name="Faturamento Real" radius={[4, 4, 0, 0]} />
                           <Bar dataKey="custoGeral" fill="#ef4444" name="Custo Geral" radius={[4, 4, 0, 0]} />
@@ -485,7 +695,7 @@ const App: React.FC = () => {
                           <CartesianGrid stroke="#1f2937" strokeDasharray="3 3" vertical={false} />
                           <XAxis dataKey="mes" stroke="#9ca3af" fontSize={11} tickLine={false} />
                           <YAxis tickFormatter={v => `R$ ${(v / 1000).toFixed(0)}k`} stroke="#9ca3af" fontSize={11} width={80} tickLine={false} />
-                          <Tooltip content={<CustomRentabilidadeTooltip />} />
+                          <Tooltip content={<CustomRentabilidadeTooltip categories={categoriasCusto} />} />
                           <Legend verticalAlign="top" height={36} iconType="circle" wrapperStyle={{ fontSize: '11px', fontWeight: 'bold' }} />
                           <Area type="monotone" dataKey="faturamento" stroke="#10b981" strokeWidth={2} fillOpacity={1} fill="url(#colorFaturamentoArea)" name="Faturamento Real" />
                           <Area type="monotone" dataKey="custoGeral" stroke="#ef4444" strokeWidth={2} fillOpacity={1} fill="url(#colorCustoArea)" name="Custo Geral" />
@@ -501,7 +711,7 @@ const App: React.FC = () => {
                       <p className={`text-2xl font-black ${avgMargin >= 30 ? 'text-emerald-400' : avgMargin >= 15 ? 'text-amber-400' : 'text-rose-500'}`}>
                         {avgMargin.toFixed(1)}%
                       </p>
-                      <p className="text-[8px] text-gray-600 mt-1 uppercase font-bold italic">Rentabilidade Média Geral</p>
+                      <p className="text-[8px] text-gray-600 mt-1 uppercase font-bold italic">Rentabilidade Média dos Meses Fechados</p>
                     </div>
 
                     <div className="bg-gray-950 p-4 rounded-2xl border border-gray-800 shadow-lg flex-1 flex flex-col justify-center">
@@ -509,7 +719,7 @@ const App: React.FC = () => {
                       <p className={`text-2xl font-black ${totalLucro >= 0 ? 'text-emerald-400' : 'text-rose-500'}`}>
                         {formatBRL(totalLucro)}
                       </p>
-                      <p className="text-[8px] text-gray-600 mt-1 uppercase font-bold italic">Acumulado Receitas vs Despesas</p>
+                      <p className="text-[8px] text-gray-600 mt-1 uppercase font-bold italic">Acumulado dos Meses Fechados</p>
                     </div>
 
                     <div className="bg-gray-950 p-4 rounded-2xl border border-gray-800 shadow-lg flex-1 flex flex-col justify-center">
@@ -532,7 +742,19 @@ const App: React.FC = () => {
               </section>
 
               <section className="bg-gray-900 p-6 rounded-2xl border border-gray-800">
-                <h2 className="text-blue-400 font-bold italic mb-6">MÉTRICA 1: DESEMPENHO DOS VENDEDORES</h2>
+                <div className="flex justify-between items-center mb-6">
+                  <h2 className="text-blue-400 font-bold italic">MÉTRICA 1: DESEMPENHO DOS VENDEDORES</h2>
+                  <ExportButtons
+                    fileName="Desempenho dos Vendedores"
+                    getTable={() => ({
+                      columns: [
+                        { key: 'month', label: 'Mês' },
+                        ...vendedoresConfig.map((v: any) => ({ key: v.id, label: `${v.label} (R$)`, kind: 'currency' as const })),
+                      ],
+                      rows: vendedorData
+                    })}
+                  />
+                </div>
                 <ChartWrapper height={400}>
                   <BarChart data={vendedorData}>
                     <CartesianGrid strokeDasharray="3 3" stroke="#333" />
@@ -547,85 +769,90 @@ const App: React.FC = () => {
                 </ChartWrapper>
               </section>
 
-              <section className="bg-gray-900 p-6 rounded-2xl border border-gray-800">
-                <h2 className="text-pink-400 font-bold italic mb-6">MÉTRICA 2: DESEMPENHO MENSAL MATÉRIA-PRIMA CAMOZZI</h2>
-                <div className="overflow-x-auto">
-                  <table className="w-full text-left text-sm text-gray-400">
-                    <thead className="bg-[#1f2937] text-gray-400 text-xs uppercase font-bold">
-                       <tr>
-                          <th className="px-4 py-3">MÊS</th>
-                          <th className="px-4 py-3">VALOR CONSUMIDO (R$)</th>
-                          <th className="px-4 py-3">META (R$)</th>
-                          <th className="px-4 py-3">% DA META</th>
-                          <th className="px-4 py-3 w-1/3">MINI GRÁFICO</th>
-                       </tr>
-                    </thead>
-                    <tbody>
-                       {custos.map((row: any, i: number) => {
-                          const meta = row.metaCamozzi || 0;
-                          const consumido = row.Camozzi || 0;
-                          let perc = 0;
-                          if (meta > 0) {
-                              perc = (consumido / meta) * 100;
-                          } else if (consumido > 0) {
-                              perc = 100;
-                          }
-                          
-                          let progressColor = "bg-red-500";
-                          if (perc >= 100) progressColor = "bg-emerald-500";
-                          else if (perc >= 50) progressColor = "bg-amber-500";
-                          
-                          return (
-                             <tr key={i} className="border-b border-gray-800 hover:bg-gray-800/50">
-                                <td className="px-4 py-3 font-medium text-white">{row.mes}</td>
-                                <td className="px-4 py-3 text-white">{formatBRL(consumido)}</td>
-                                <td className="px-4 py-3">{formatBRL(meta)}</td>
-                                <td className="px-4 py-3 font-black text-white">{perc.toFixed(2)}%</td>
-                                <td className="px-4 py-3 font-mono text-xs flex items-center gap-2">
-                                   <div className="flex-1 h-3 bg-gray-800 rounded-full overflow-hidden relative">
-                                      <div className={`h-full ${progressColor} transition-all duration-500`} style={{ width: `${Math.min(perc, 100)}%` }}></div>
-                                      {perc > 100 && (
-                                          <div className="absolute top-0 bottom-0 right-0 left-0 bg-emerald-500 opacity-50" style={{ width: `${Math.min(perc - 100, 100)}%`, left: '100%' }}></div>
-                                      )}
-                                   </div>
-                                   <span className="min-w-[40px] text-right">{perc.toFixed(0)}%</span>
-                                </td>
-                             </tr>
-                          );
-                       })}
-                    </tbody>
-                  </table>
-                </div>
-              </section>
+              {commitment && (
+                <SupplierCommitmentPanel year={selectedYear} commitment={commitment} />
+              )}
+
+              {commitment && (
+                <section className="bg-gray-900 p-6 rounded-2xl border border-gray-800">
+                  <div className="flex justify-between items-center mb-6">
+                    <h2 className="text-pink-400 font-bold italic uppercase">MÉTRICA 2: DESEMPENHO MENSAL MATÉRIA-PRIMA {commitment.categoria.label}</h2>
+                    <ExportButtons
+                      fileName={`Matéria-Prima ${commitment.categoria.label}`}
+                      getTable={() => ({
+                        columns: [
+                          { key: 'mes', label: 'Mês' },
+                          { key: 'situacao', label: 'Situação' },
+                          { key: 'consumido', label: 'Valor Consumido (R$)', kind: 'currency' },
+                          { key: 'meta', label: 'Meta (R$)', kind: 'currency' },
+                          { key: 'perc', label: '% da Meta', kind: 'percent' },
+                        ],
+                        rows: commitment.months.map(m => ({
+                          mes: m.mes, situacao: m.fechado ? 'Fechado' : 'Em aberto', consumido: m.compra, meta: m.meta, perc: m.perc,
+                        }))
+                      })}
+                    />
+                  </div>
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-left text-sm text-gray-400">
+                      <thead className="bg-[#1f2937] text-gray-400 text-xs uppercase font-bold">
+                         <tr>
+                            <th className="px-4 py-3">MÊS</th>
+                            <th className="px-4 py-3">VALOR CONSUMIDO (R$)</th>
+                            <th className="px-4 py-3">META (R$)</th>
+                            <th className="px-4 py-3">% DA META</th>
+                            <th className="px-4 py-3 w-1/3">MINI GRÁFICO</th>
+                         </tr>
+                      </thead>
+                      <tbody>
+                         {commitment.months.map((m, i) => (
+                            // Mês em aberto sem compra lançada não conta como desempenho ruim.
+                            <tr key={i} className={`border-b border-gray-800 hover:bg-gray-800/50 ${m.fechado ? '' : 'opacity-60'}`}>
+                               <td className="px-4 py-3 font-medium text-white">
+                                 {m.mes}
+                                 {!m.fechado && <span className="ml-2 text-[9px] text-gray-500 font-bold uppercase">em aberto</span>}
+                               </td>
+                               <td className="px-4 py-3 text-white">{formatBRL(m.compra)}</td>
+                               <td className="px-4 py-3">{formatBRL(m.meta)}</td>
+                               <td className="px-4 py-3 font-black">{m.naoLancado ? <span className="text-gray-500 text-xs">NÃO LANÇADO</span> : <CommitmentPerc perc={m.perc} />}</td>
+                               <td className="px-4 py-3">{!m.naoLancado && <CommitmentBar perc={m.perc} />}</td>
+                            </tr>
+                         ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </section>
+              )}
            </section>
 
 
         </div>
       )}
 
+      {activeTab === 'LOGÍSTICA' && (
+        <LogisticsEfficiency year={selectedYear} analysis={logistics} settings={logisticsSettings} setSettings={setLogisticsSettings} />
+      )}
+
+      {activeTab === 'MARGENS' && (
+        <MarginAllocation
+          year={selectedYear}
+          result={margins}
+          categories={categoriasCusto}
+          sellers={vendedoresConfig}
+          clientes={gestaoTop20.clientes}
+          settings={allocationSettings}
+          setSettings={setAllocationSettings}
+        />
+      )}
+
       {activeTab === 'VENDEDORES' && (
         <div className="space-y-8 animate-in fade-in duration-500">
            {/* Section 1: Visual Performance Cards */}
            <section className="grid grid-cols-1 lg:grid-cols-3 gap-6">
              {(() => {
-                const salespeople = vendedoresConfig;
-
-                const totalMetaEmpresa = salespeople.reduce((acc: any, s: any) => acc + s.meta, 0);
-
-                return salespeople.map((s: any) => {
-                  const totalRealizado = vendedorData.reduce((acc: number, m: any) => acc + (m[s.id] || 0), 0);
-                  const percAtingimento = s.meta > 0 ? (totalRealizado / s.meta) * 100 : 0;
-                  
-                  // Monthly chart data
-                  const chartData = vendedorData.map((m: any, idx: number) => {
-                    const share = s.meta / totalMetaEmpresa;
-                    const monthlyTarget = metaMensal[idx]?.meta * share;
-                    return {
-                      month: m.month,
-                      real: m[s.id] || 0,
-                      target: monthlyTarget
-                    };
-                  });
+                return vendedoresConfig.map((s: any, i: number) => {
+                  const { realizado: totalRealizado, atingimento: percAtingimento, months, plan } = sellerResults[i];
+                  const chartData = months.map((m, idx) => ({ ...m, recuperacao: plan.months[idx].recuperacao }));
 
                   return (
                     <div key={s.id} className="bg-[#0f1218] p-6 rounded-3xl border border-gray-800 shadow-2xl relative overflow-hidden flex flex-col group">
@@ -672,6 +899,14 @@ const App: React.FC = () => {
                               strokeDasharray="5 5" 
                               dot={false}
                             />
+                            <Line 
+                              type="monotone" 
+                              dataKey="recuperacao" 
+                              stroke="#f59e0b" 
+                              strokeWidth={2} 
+                              strokeDasharray="2 3" 
+                              dot={false}
+                            />
                           </AreaChart>
                         </ResponsiveContainer>
                       </div>
@@ -698,31 +933,38 @@ const App: React.FC = () => {
              })()}
            </section>
 
+           <SellerTargetReconciliation year={selectedYear} reconciliation={targetReconciliation} />
 
+           <CatchUpPlanner
+             year={selectedYear}
+             plan={catchUpPlan}
+             sellers={sellerResults.map(s => ({ id: s.id, label: s.label, color: s.color, plan: s.plan }))}
+             settings={catchUpSettings}
+             setSettings={setCatchUpSettings}
+             weights={catchUpWeightsByMonth}
+           />
         </div>
       )}
 
+      {activeTab === 'COMISSÕES' && (
+         <CommissionCalculator year={selectedYear} statements={commissions} config={vendedoresConfig} onConfigChange={handleSellerConfigChange} />
+      )}
+
       {activeTab === 'DASHBOARD T10' && (
         <div className="space-y-8 animate-in slide-in-from-right duration-500">
           {(() => {
             const t10Clients = gestaoTop20.clientes.slice(0, 10);
             
             // Evolution Chart Data
-            const evolutionDataT10 = [2022, 2023, 2024, 2025, 2026, 2027, 2028].map(year => {
+            const evolutionDataT10 = t10Years.map(({ year }) => {
               let value = 0;
               if (selectedClientT10 === 'Consolidado T10') {
-                value = t10Clients.reduce((acc: number, c: any) => {
-                  if (year <= 2025) return acc + (c.history[year] || 0);
-                  return acc + (c[`projection${year}`] || 0);
-                }, 0);
+                value = t10Clients.reduce((acc: number, c: any) => acc + clientYearValue(c, year), 0);
               } else {
                 const c = t10Clients.find((cli: any) => cli.nome === selectedClientT10);
-                if (c) {
-                  if (year <= 2025) value = c.history[year] || 0;
-                  else value = c[`projection${year}`] || 0;
-                }
+                if (c) value = clientYearValue(c, year);
               }
-              return { year: String(year), total: value };
+              return { year, total: value };
             });
 
             // YoY comparing Current Year to Previous Year
@@ -731,24 +973,8 @@ const App: React.FC = () => {
             const yoyGrowth = prevVal > 0 ? ((currentVal / prevVal) - 1) * 100 : 0;
             const isNegative = yoyGrowth < 0;
 
-            // Ranking and ABC Analysis for T10
-            const t10Ranking = [...t10Clients].map((c: any) => ({
-                name: c.nome,
-                shortName: c.nome.split(' ').slice(0, 2).join(' '),
-                value: c[`projection${selectedYear}`] || c.history?.[selectedYear] || 0,
-                prevValue: c.history?.[Number(selectedYear)-1] || 0
-            })).sort((a, b) => b.value - a.value);
-
-            const totalT10 = t10Ranking.reduce((acc, c) => acc + c.value, 0);
-            let acum = 0;
-            const curvaABC = t10Ranking.map(c => {
-                acum += c.value;
-                const perc = (acum / totalT10) * 100;
-                let classe = 'C';
-                if (perc <= 70) classe = 'A';
-                else if (perc <= 90) classe = 'B';
-                return { ...c, classe, perc };
-            });
+            // Ranking for T10
+            const t10Ranking = rankClients(t10Clients, selectedYear);
 
             return (
               <>
@@ -759,6 +985,16 @@ const App: React.FC = () => {
                       <p className="text-xs text-gray-500 mt-1 uppercase font-bold italic tracking-widest">Inteligência 360° - Análise de Comportamento e Ciclo de Vida</p>
                     </div>
                     <div className="flex items-center gap-4">
+                      <ExportButtons
+                        fileName={`Evolução T10 - ${selectedClientT10}`}
+                        getTable={() => ({
+                          columns: [
+                            { key: 'year', label: 'Ano' },
+                            { key: 'total', label: `${selectedClientT10} (R$)`, kind: 'currency' },
+                          ],
+                          rows: evolutionDataT10
+                        })}
+                      />
                       <select 
                         value={selectedClientT10} 
                         onChange={(e) => setSelectedClientT10(e.target.value)}
@@ -827,10 +1063,23 @@ const App: React.FC = () => {
                   </div>
                 </section>
                 
-                {/* Ranking e Curva ABC */}
-                <section className="grid grid-cols-1 lg:grid-cols-2 gap-8 mt-8">
+                {/* Ranking */}
+                <section className="mt-8">
                    <div className="bg-[#0a0c10] p-6 rounded-3xl border border-gray-800 shadow-xl">
-                     <h2 className="text-white font-bold italic text-sm uppercase tracking-widest text-emerald-100 mb-6 border-b border-gray-800 pb-2">Ranking Atual: Top 10 Clientes ({selectedYear})</h2>
+                     <div className="flex justify-between items-center mb-6 border-b border-gray-800 pb-2">
+                       <h2 className="text-white font-bold italic text-sm uppercase tracking-widest text-emerald-100">Ranking Atual: Top 10 Clientes ({selectedYear})</h2>
+                       <ExportButtons
+                         fileName={`Ranking T10 ${selectedYear}`}
+                         getTable={() => ({
+                           columns: [
+                             { key: 'name', label: 'Cliente' },
+                             { key: 'value', label: `Faturamento ${selectedYear} (R$)`, kind: 'currency' },
+                             { key: 'prevValue', label: `Faturamento ${Number(selectedYear) - 1} (R$)`, kind: 'currency' },
+                           ],
+                           rows: t10Ranking
+                         })}
+                       />
+                     </div>
                      <ChartWrapper height={350}>
                         <BarChart data={t10Ranking} layout="vertical" margin={{ left: 80, right: 20 }}>
                           <CartesianGrid strokeDasharray="3 3" stroke="#222" horizontal={false} />
@@ -845,107 +1094,33 @@ const App: React.FC = () => {
                      </ChartWrapper>
                    </div>
                    
-                   <div className="bg-[#0a0c10] p-6 rounded-3xl border border-gray-800 shadow-xl overflow-hidden flex flex-col">
-                     <h2 className="text-white font-bold italic text-sm uppercase tracking-widest text-amber-100 mb-6 border-b border-gray-800 pb-2">Análise de Segmentação: Curva ABC (T10)</h2>
-                     <div className="flex-1 overflow-x-auto">
-                        <table className="w-full text-left text-sm text-gray-300">
-                           <thead className="bg-gray-950 text-gray-400 text-[10px] uppercase font-bold tracking-wider">
-                              <tr>
-                                 <th className="px-4 py-3">Cliente</th>
-                                 <th className="px-4 py-3 text-right">Faturamento</th>
-                                 <th className="px-4 py-3 text-right">Acumulado</th>
-                                 <th className="px-4 py-3 text-center">Classe</th>
-                              </tr>
-                           </thead>
-                           <tbody className="divide-y divide-gray-800">
-                              {curvaABC.map((c, idx) => (
-                                <tr key={idx} className="hover:bg-gray-800/30">
-                                   <td className="px-4 py-3 font-bold text-xs">{c.name}</td>
-                                   <td className="px-4 py-3 text-right font-mono text-emerald-400 text-xs">{formatBRL(c.value)}</td>
-                                   <td className="px-4 py-3 text-right font-mono text-xs">{c.perc.toFixed(1)}%</td>
-                                   <td className="px-4 py-3 text-center">
-                                      <span className={`px-2 py-1 rounded text-[10px] font-black 
-                                        ${c.classe === 'A' ? 'bg-emerald-950 text-emerald-500 border border-emerald-900' : 
-                                          c.classe === 'B' ? 'bg-amber-950 text-amber-500 border border-amber-900' : 
-                                          'bg-gray-800 text-gray-400 border border-gray-700'}`}
-                                      >
-                                        CLASSE {c.classe}
-                                      </span>
-                                   </td>
-                                </tr>
-                              ))}
-                           </tbody>
-                        </table>
-                     </div>
-                   </div>
                 </section>
+
+                <AbcXyzClassification clientes={gestaoTop20.clientes} defaultYear={selectedYear} settings={abcXyzSettings} setSettings={setAbcXyzSettings} />
               </>
             );
           })()}
         </div>
       )}
 
+      {activeTab === 'CARTEIRA' && (
+        <div className="space-y-8">
+          <ClientPortfolio clients={carteira} sellers={vendedoresConfig} />
+          <CohortRetention gestaoClientes={gestaoTop20.clientes} carteira={carteira} />
+        </div>
+      )}
+
       {activeTab === 'ANÁLISE TRIMESTRAL' && (
         <div className="space-y-8 animate-in slide-in-from-right duration-500">
            {(() => {
                // --- 1. ESTRUTURA DE DADOS & CÁLCULOS HISTÓRICOS ---
-               // Historical years (<= 2025)
-               const paramHistYears = [2022, 2023, 2024, 2025];
-               let sumHistTotal = 0;
-               const sumHistQ: Record<string, number> = { '1º': 0, '2º': 0, '3º': 0, '4º': 0 };
-               
-               quarterlyHistory.forEach(d => {
-                   if (paramHistYears.includes(d.ano)) {
-                       sumHistTotal += d.faturamento;
-                       if (sumHistQ[d.trimestre] !== undefined) sumHistQ[d.trimestre] += d.faturamento;
-                   }
-               });
-               
-               // Sazonalidade Histórica (Shares)
-               const sharesQ = { 
-                   '1º': sumHistQ['1º'] / sumHistTotal,
-                   '2º': sumHistQ['2º'] / sumHistTotal,
-                   '3º': sumHistQ['3º'] / sumHistTotal,
-                   '4º': sumHistQ['4º'] / sumHistTotal
-               };
-
-               const avgHistQ = {
-                   '1º': sumHistQ['1º'] / paramHistYears.length,
-                   '2º': sumHistQ['2º'] / paramHistYears.length,
-                   '3º': sumHistQ['3º'] / paramHistYears.length,
-                   '4º': sumHistQ['4º'] / paramHistYears.length
-               };
-
-               // --- 2. CÁLCULO DE PROJEÇÃO DE FECHAMENTO (2026) ---
-               const currentYear = parseInt(selectedYear); // Normally 2026
-               const qDataCurrent = quarterlyHistory.filter(d => d.ano === currentYear);
-               
-               let sumCurrentYearFilled = 0;
-               let combinedShareOfFilled = 0;
-
-               const filledStatus: Record<string, boolean> = {};
-
-               const projectionQ: Record<string, number> = { '1º': 0, '2º': 0, '3º': 0, '4º': 0 };
+               // Sazonalidade histórica (2022-2025)
+               const { sharesQ, avgHistQ } = quarterSeasonality(quarterlyHistory);
 
-               qDataCurrent.forEach(d => {
-                   if (d.faturamento > 0) {
-                       sumCurrentYearFilled += d.faturamento;
-                       combinedShareOfFilled += sharesQ[d.trimestre as '1º' | '2º' | '3º' | '4º'];
-                       filledStatus[d.trimestre] = true;
-                   }
-               });
-
-               // Se já tem pelo menos um preenchido, projeta o fim de ano
-               const projectedTotalCurrentYear = combinedShareOfFilled > 0 ? (sumCurrentYearFilled / combinedShareOfFilled) : 0;
-
-               ['1º', '2º', '3º', '4º'].forEach(qStr => {
-                   const q = qStr as '1º' | '2º' | '3º' | '4º';
-                   if (filledStatus[q]) {
-                       projectionQ[q] = qDataCurrent.find(d => d.trimestre === q)?.faturamento || 0;
-                   } else {
-                       projectionQ[q] = projectedTotalCurrentYear * sharesQ[q];
-                   }
-               });
+               // --- 2. CÁLCULO DE PROJEÇÃO DE FECHAMENTO (ano selecionado) ---
+               // Só trimestres com os três meses fechados contam como realizados.
+               const currentYear = parseInt(selectedYear);
+               const { filledStatus, projectionQ, projectedTotal: projectedTotalCurrentYear, combinedShareOfFilled } = projectQuarterlyClose(withClosedQuarters(quarterlyHistory, currentYear, metas, closedMonths), currentYear, sharesQ);
 
                // --- 3. STATUS YOY & FAROL (Meta vs Realizado) ---
                // Faturamento Histórico vs Atual (Selected Quarter)
@@ -984,6 +1159,7 @@ const App: React.FC = () => {
                            <div>
                               <h2 className="text-white font-black italic text-3xl uppercase tracking-tighter">Sazonalidade e Projeção ({currentYear})</h2>
                               <p className="text-xs text-gray-500 mt-1 uppercase font-bold italic tracking-widest">Base de Estudo: Histórico vs Alvo de Recuperação</p>
+                              <p className="text-[10px] text-gray-600 mt-1 uppercase font-bold">Realizado: trimestres com os três meses fechados ({closedMonths} de {metas.length} meses fechados)</p>
                            </div>
                            <div className="bg-gray-950 p-4 rounded-xl border border-gray-800 flex items-center gap-6">
                                <div className="flex flex-col items-end">
@@ -1008,7 +1184,20 @@ const App: React.FC = () => {
                         <div className="grid grid-cols-1 lg:grid-cols-4 gap-8">
                            {/* Year Overall Seasonality Analysis */}
                            <div className="lg:col-span-3 bg-gray-950/50 p-6 rounded-2xl border border-gray-800">
-                               <h3 className="text-white font-black italic mb-6 text-sm uppercase text-gray-400">Curva de Viabilidade (Real vs Projetado)</h3>
+                               <div className="flex justify-between items-center mb-6">
+                                 <h3 className="text-white font-black italic text-sm uppercase text-gray-400">Curva de Viabilidade (Real vs Projetado)</h3>
+                                 <ExportButtons
+                                   fileName={`Projeção Trimestral ${currentYear}`}
+                                   getTable={() => ({
+                                     columns: [
+                                       { key: 'name', label: 'Trimestre' },
+                                       { key: 'real', label: 'Faturamento Realizado (R$)', kind: 'currency' },
+                                       { key: 'proj', label: 'Projeção Sazonal (R$)', kind: 'currency' },
+                                     ],
+                                     rows: dataProjDist
+                                   })}
+                                 />
+                               </div>
                                <ChartWrapper height={350}>
                                   <BarChart data={dataProjDist}>
                                       <CartesianGrid strokeDasharray="3 3" stroke="#222" vertical={false} />
@@ -1018,7 +1207,7 @@ const App: React.FC = () => {
                                           contentStyle={{ backgroundColor: '#000', border: '1px solid #333' }}
                                           formatter={(v: number) => formatBRL(v)}
                                       />
-                                      <Bar dataKey="real" name="Faturamento Realizado (Lançado)" fill="#10b981" radius={[4, 4, 0, 0]} barSize={40} />
+                                      <Bar dataKey="real" name="Faturamento Realizado (Fechado)" fill="#10b981" radius={[4, 4, 0, 0]} barSize={40} />
                                       <Bar dataKey="proj" name="Projeção IA Sazonal" fill="#ef4444" opacity={0.6} radius={[4, 4, 0, 0]} barSize={40} />
                                   </BarChart>
                                </ChartWrapper>
@@ -1039,7 +1228,7 @@ const App: React.FC = () => {
                                      <p className="text-[10px] text-gray-500 font-bold uppercase italic">Validação do Semestre (Até Junho)</p>
                                      {(() => {
                                          const metaSemestre = metas.slice(0, 6).reduce((acc: any, m: any) => acc + m.meta, 0);
-                                         const realizadoSemestre = metas.slice(0, 6).reduce((acc: any, m: any) => acc + m.r2026, 0);
+                                         const realizadoSemestre = metas.slice(0, 6).reduce((acc: any, m: any) => acc + (m.realizado || 0), 0);
                                          const isSemestreNegative = realizadoSemestre < metaSemestre;
                                          return (
                                             <>
@@ -1075,6 +1264,17 @@ const App: React.FC = () => {
                              </p>
                            </div>
                            <div className="flex items-center gap-3">
+                              <ExportButtons
+                                 fileName={`Comparativo ${selectedQuarterAnalysis} Trimestre`}
+                                 getTable={() => ({
+                                    columns: [
+                                       { key: 'year', label: 'Ano' },
+                                       { key: 'realizado', label: 'Faturamento Real (R$)', kind: 'currency' },
+                                       { key: 'metaHistorica', label: 'Média Histórica (R$)', kind: 'currency' },
+                                    ],
+                                    rows: chartDataSelectedQ
+                                 })}
+                              />
                               <p className="text-[10px] text-gray-500 font-bold uppercase">Filtrar Sazonalidade (T):</p>
                               <select 
                                  value={selectedQuarterAnalysis} 
@@ -1147,8 +1347,8 @@ const App: React.FC = () => {
            {/* Top Indicators */}
            <section className="grid grid-cols-5 gap-4">
               <div className="bg-gray-900 p-6 rounded-2xl border border-gray-800 shadow-xl">
-                <p className="text-[10px] text-gray-400 uppercase font-bold">Meta Anual 2026</p>
-                <p className="text-xl font-black mt-2 text-white">{formatBRL(gestaoTop20.indicadores.meta_anual_2026)}</p>
+                <p className="text-[10px] text-gray-400 uppercase font-bold">Meta Anual {selectedYear}</p>
+                <p className="text-xl font-black mt-2 text-white">{formatBRL(metaAno)}</p>
               </div>
               <div className="bg-gray-900 p-6 rounded-2xl border border-gray-800 shadow-xl">
                 <p className="text-[10px] text-gray-400 uppercase font-bold">Custo Oportunidade Mensal</p>
@@ -1156,7 +1356,7 @@ const App: React.FC = () => {
               </div>
               <div className="bg-gray-900 p-6 rounded-2xl border border-gray-800 shadow-xl">
                 <p className="text-[10px] text-gray-400 uppercase font-bold">Custo Operacional Fixo</p>
-                <p className="text-xl font-black mt-2 text-red-500">{formatBRL(gestaoTop20.indicadores.custo_operacional_fixo_2026)}</p>
+                <p className="text-xl font-black mt-2 text-red-500">{formatBRL(gestaoTop20.indicadores[`custo_operacional_fixo_${selectedYear}`] || 0)}</p>
               </div>
               <div className="bg-gray-900 p-6 rounded-2xl border border-gray-800 shadow-xl">
                 <p className="text-[10px] text-gray-400 uppercase font-bold">Target Recuperação</p>
@@ -1166,8 +1366,7 @@ const App: React.FC = () => {
                 <button 
                   onClick={() => {
                     if(confirm("Deseja resetar os dados do Top 20 para o padrão de catálogo? Isso apagará suas edições manuais nesta aba.")) {
-                      localStorage.removeItem('skg-gestao-top20');
-                      window.location.reload();
+                      setGestaoTop20(initialGestaoTop20);
                     }
                   }}
                   className="w-full h-full text-[10px] font-black text-red-500 uppercase hover:bg-red-950/30 transition-colors flex flex-col items-center justify-center gap-2"
@@ -1178,20 +1377,29 @@ const App: React.FC = () => {
               </div>
            </section>
 
-           {/* Behavioral Chart 2022-2028 */}
+           {/* Behavioral Chart */}
            <section className="bg-gray-900 p-6 rounded-2xl border border-gray-800">
-             <h2 className="text-white font-bold italic mb-6 uppercase text-center text-xl tracking-widest text-red-100">Clientes T10 Performance Histórica & Projeção (2022-2028)</h2>
+             <div className="flex justify-center items-center gap-4 mb-6">
+               <h2 className="text-white font-bold italic uppercase text-center text-xl tracking-widest text-red-100">Clientes T10 Performance Histórica & Projeção{t10Years.length > 0 ? ` (${t10Years[0].year}-${t10Years[t10Years.length - 1].year})` : ''}</h2>
+               <ExportButtons
+                 fileName="Clientes T10 Histórico e Projeção"
+                 getTable={() => ({
+                   columns: [
+                     { key: 'nome', label: 'Cliente' },
+                     ...t10Years.map(({ year, projecao }) => ({ key: year, label: projecao ? `Projeção ${year} (R$)` : `${year} (R$)`, kind: 'currency' as const })),
+                   ],
+                   rows: gestaoTop20.clientes.slice(0, 10).map((c: any) => ({
+                     nome: c.nome,
+                     ...Object.fromEntries(t10Years.map(({ year }) => [year, clientYearValue(c, year)])),
+                   }))
+                 })}
+               />
+             </div>
              <ChartWrapper height={450}>
                <BarChart 
                  data={gestaoTop20.clientes.slice(0, 10).map((c: any) => ({
                    name: c.nome.split(' ').slice(0, 2).join(' '),
-                   '2022': c.history?.[2022] || 0,
-                   '2023': c.history?.[2023] || 0,
-                   '2024': c.history?.[2024] || 0,
-                   '2025': c.history?.[2025] || 0,
-                   '2026': c.projection2026 || 0,
-                   '2027': c.projection2027 || 0,
-                   '2028': c.projection2028 || 0,
+                   ...Object.fromEntries(t10Years.map(({ year }) => [year, clientYearValue(c, year)])),
                  }))}
                  margin={{ top: 20, right: 30, left: 20, bottom: 60 }}
                >
@@ -1215,28 +1423,27 @@ const App: React.FC = () => {
                    contentStyle={{ backgroundColor: '#111827', border: '1px solid #374151', borderRadius: '8px' }}
                    formatter={(v: number) => formatBRL(v)}
                  />
-                 <Bar dataKey="2022" fill="#ef4444" radius={[4, 4, 0, 0]} />
-                 <Bar dataKey="2023" fill="#f97316" radius={[4, 4, 0, 0]} />
-                 <Bar dataKey="2024" fill="#6b7280" radius={[4, 4, 0, 0]} />
-                 <Bar dataKey="2025" fill="#facc15" radius={[4, 4, 0, 0]} />
-                 <Bar dataKey="2026" fill="#10b981" radius={[4, 4, 0, 0]} />
-                 <Bar dataKey="2027" fill="#3b82f6" radius={[4, 4, 0, 0]} />
-                 <Bar dataKey="2028" fill="#8b5cf6" radius={[4, 4, 0, 0]} />
+                 {t10Years.map(({ year, color }) => (
+                   <Bar key={year} dataKey={year} fill={color} radius={[4, 4, 0, 0]} />
+                 ))}
                </BarChart>
              </ChartWrapper>
              <div className="flex justify-center gap-6 mt-4 text-[10px] font-bold">
-               <div className="flex items-center gap-2"><div className="w-3 h-3 bg-[#ef4444] rounded"></div> 2022</div>
-               <div className="flex items-center gap-2"><div className="w-3 h-3 bg-[#f97316] rounded"></div> 2023</div>
-               <div className="flex items-center gap-2"><div className="w-3 h-3 bg-[#6b7280] rounded"></div> 2024</div>
-               <div className="flex items-center gap-2"><div className="w-3 h-3 bg-[#facc15] rounded"></div> 2025</div>
-               <div className="flex items-center gap-2"><div className="w-3 h-3 bg-[#10b981] rounded"></div> 2026 (Proj)</div>
-               <div className="flex items-center gap-2"><div className="w-3 h-3 bg-[#3b82f6] rounded"></div> 2027 (Proj)</div>
-               <div className="flex items-center gap-2"><div className="w-3 h-3 bg-[#8b5cf6] rounded"></div> 2028 (Proj)</div>
+               {t10Years.map(({ year, projecao, color }) => (
+                 <div key={year} className="flex items-center gap-2"><div className="w-3 h-3 rounded" style={{ backgroundColor: color }}></div> {year}{projecao ? ' (Proj)' : ''}</div>
+               ))}
              </div>
            </section>
 
 
 
+           <ClientHealthBoard
+             clientes={gestaoTop20.clientes}
+             year={selectedYear}
+             thresholds={statusThresholds}
+             setThresholds={setStatusThresholds}
+           />
+
            {/* Opportunity Cost Insight */}
            <section className="bg-gray-900 p-8 rounded-2xl border border-dashed border-red-500/30 flex items-center gap-8">
               <div className="bg-red-500/10 p-4 rounded-full">
@@ -1245,12 +1452,8 @@ const App: React.FC = () => {
               <div>
                 <h3 className="text-red-500 font-black italic text-xl uppercase">Análise de Custo de Oportunidade</h3>
                 <p className="text-gray-400 max-w-2xl mt-2 text-sm">
-                  Atualmente faltam <span className="text-white font-bold">{formatBRL(Math.max(0, 2180000 - gestaoTop20.clientes.reduce((acc: number, c: any) => acc + (c.projection2026 || 0), 0)))}</span> para atingir a Meta Anual de 2026. 
-                  O custo de ociosidade está concentrado em <span className="text-amber-500 font-bold">{gestaoTop20.clientes.filter((c: any) => {
-                    const h = Object.values(c.history || {}) as number[];
-                    const m = h.length > 0 ? h.reduce((a,b)=>a+b,0)/h.length : 0;
-                    return (c.projection2026 || 0) < m * 0.7;
-                  }).length} contas</span> em Alerta.
+                  Atualmente faltam <span className="text-white font-bold">{formatBRL(oportunidade.falta)}</span> para atingir a Meta Anual de {selectedYear}. 
+                  O custo de ociosidade está concentrado em <span className="text-amber-500 font-bold">{oportunidade.alertas} contas</span> em Alerta.
                 </p>
               </div>
            </section>
@@ -1259,19 +1462,36 @@ const App: React.FC = () => {
       
       {activeTab === 'ANÁLISE YOY' && (
         <div className="space-y-8 animate-in slide-in-from-right duration-500">
-           <YoYComparison metas={metas} />
+           <YoYComparison metasByYear={metasByYear} />
         </div>
       )}
 
+      {activeTab === 'SIMULADOR' && (
+         <ScenarioSimulator base={scenarioBase} scenarios={scenarios} setScenarios={setScenarios} />
+      )}
+
+      {activeTab === 'AUDITORIA' && (
+         <AuditLogViewer audit={audit} onRevert={handleRevertAudit} />
+      )}
+
       {activeTab === 'BANCO DE DADOS (PLANILHAS)' && (
          <DatabaseManager 
-            vendedoresConfig={vendedoresConfig} setVendedoresConfig={setVendedoresConfig}
-            metas={metas} setMetas={setMetas}
-            vendedorData={vendedorData} setVendedorData={setVendedorData}
-            custos={custos} setCustos={setCustos}
+            selectedYear={selectedYear}
+            vendedoresConfigByYear={vendedoresConfigByYear} setVendedoresConfigByYear={setVendedoresConfigByYear}
+            metasByYear={metasByYear} setMetasByYear={setMetasByYear}
+            vendedorDataByYear={vendedorDataByYear} setVendedorDataByYear={setVendedorDataByYear}
+            metasVendedoresByYear={metasVendedoresByYear} setMetasVendedoresByYear={setMetasVendedoresByYear}
+            custosByYear={custosByYear} setCustosByYear={setCustosByYear}
+            categoriasCusto={categoriasCusto} setCategoriasCusto={setCategoriasCusto}
+            periodosByYear={periodosByYear} setPeriodosByYear={setPeriodosByYear}
             quarterlyHistory={quarterlyHistory} setQuarterlyHistory={setQuarterlyHistory}
+            carteira={carteira} setCarteira={setCarteira}
             gestaoTop20={gestaoTop20} setGestaoTop20={setGestaoTop20}
+            statusThresholds={statusThresholds} setStatusThresholds={datasetSetters['skg-status-thresholds']}
+            abcXyzSettings={abcXyzSettings} setAbcXyzSettings={datasetSetters['skg-abc-xyz']}
             handleSave={handleSave}
+            history={editHistory}
+            audit={audit}
          />
       )}
 
@@ -0,0 +1,60 @@
+import { readFileSync, writeFileSync } from 'node:fs';
+import { parseBackup } from '../src/storage/backup';
+import { buildClosingReport, lastReportedMonth, renderMarkdown, renderCsv } from '../src/kpi';
+
+// Relatório de fechamento a partir do backup do painel (Banco de Dados > Exportar backup):
+//   npm run report -- skg-workspace.json [--year 2026] [--month Mai] [--format md|csv] [--out arquivo]
+const USAGE = 'Uso: npm run report -- <backup.json> [--year 2026] [--month Mai] [--format md|csv] [--out arquivo]';
+
+const parseArgs = (argv: string[]) => {
+  const options: Record<string, string> = {};
+  const positional: string[] = [];
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg.startsWith('--')) {
+      const [name, inline] = arg.slice(2).split('=');
+      options[name] = inline ?? argv[++i];
+    } else {
+      positional.push(arg);
+    }
+  }
+  return { file: positional[0], options };
+};
+
+const fail = (message: string): never => {
+  console.error(message);
+  process.exit(1);
+};
+
+const { file, options } = parseArgs(process.argv.slice(2));
+if (!file || 'help' in options) fail(USAGE);
+
+const format = options.format || 'md';
+if (format !== 'md' && format !== 'csv') fail(`Formato inválido: ${format}. Use md ou csv.`);
+
+let text = '';
+try {
+  text = readFileSync(file, 'utf8');
+} catch (e: any) {
+  fail(`Não foi possível ler ${file}: ${e?.message || e}`);
+}
+
+const { workspace, errors } = parseBackup(text);
+if (errors.length > 0) fail(`Backup inválido:\n- ${errors.join('\n- ')}`);
+if (!workspace.metas) fail('O backup não contém as metas mensais.');
+
+// Sem --year, o ano mais recente com faturamento lançado.
+const years = Object.keys(workspace.metas).sort();
+const year = options.year || [...years].reverse().find(y => lastReportedMonth(workspace.metas[y])) || years[years.length - 1];
+
+let output = '';
+try {
+  const report = buildClosingReport(workspace, year, options.month);
+  output = format === 'csv' ? renderCsv(report) : renderMarkdown(report);
+} catch (e: any) {
+  fail(e?.message || String(e));
+}
+
+// BOM para o Excel reconhecer UTF-8 ao abrir o CSV gravado.
+if (options.out) writeFileSync(options.out, format === 'csv' ? '\uFEFF' + output : output);
+else process.stdout.write(output + '\n');
@@ -0,0 +1,62 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { DatasetKey, StoredDataset, getSchemaVersion } from '../src/storage/migrations';
+import type { RemoteDataset, RemoteDatasetInfo } from '../src/storage/syncClient';
+
+export type PutOutcome =
+  | { ok: true; info: RemoteDatasetInfo }
+  | { ok: false; current: RemoteDataset };
+
+const infoOf = ({ key, revision, updatedAt, updatedBy }: RemoteDataset): RemoteDatasetInfo => ({ key, revision, updatedAt, updatedBy });
+
+/**
+ * Guarda cada dataset em um arquivo JSON ({ key, revision, updatedAt, updatedBy, schemaVersion, data }).
+ * Arquivos gravados antes do envelope não têm schemaVersion; eles vieram de clientes já na versão
+ * atual de cada dataset, e é assim que são devolvidos.
+ * As gravações passam por uma fila única, então dois PUTs simultâneos nunca leem a
+ * mesma revisão; o arquivo é escrito em um temporário e renomeado para não corromper.
+ */
+export const createFileStore = (dir: string) => {
+  let queue: Promise<unknown> = Promise.resolve();
+  const serialize = <T>(task: () => Promise<T>): Promise<T> => {
+    const next = queue.then(task, task);
+    queue = next.catch(() => undefined);
+    return next;
+  };
+
+  const fileOf = (key: DatasetKey) => path.join(dir, `${key}.json`);
+
+  const get = async (key: DatasetKey): Promise<RemoteDataset | null> => {
+    try {
+      const record = JSON.parse(await fs.readFile(fileOf(key), 'utf8'));
+      return { ...record, schemaVersion: record.schemaVersion ?? getSchemaVersion(key) };
+    } catch (e: any) {
+      if (e?.code === 'ENOENT') return null;
+      throw e;
+    }
+  };
+
+  const list = async (): Promise<RemoteDatasetInfo[]> => {
+    await fs.mkdir(dir, { recursive: true });
+    const files = (await fs.readdir(dir)).filter(f => f.endsWith('.json'));
+    const records = await Promise.all(files.map(f => get(f.slice(0, -'.json'.length) as DatasetKey)));
+    return records.filter((r): r is RemoteDataset => r !== null).map(infoOf);
+  };
+
+  // Última gravação vence apenas se partiu da revisão atual; caso contrário devolve a versão do servidor.
+  const put = (key: DatasetKey, baseRevision: number, updatedBy: string, { schemaVersion, data }: StoredDataset): Promise<PutOutcome> => serialize(async () => {
+    const current = await get(key);
+    // Sem arquivo (servidor novo ou pasta apagada) a cópia do cliente é aceita como está.
+    if (current && current.revision !== baseRevision) return { ok: false, current };
+    const record: RemoteDataset = { key, revision: baseRevision + 1, updatedAt: new Date().toISOString(), updatedBy, schemaVersion, data };
+    await fs.mkdir(dir, { recursive: true });
+    const tmp = `${fileOf(key)}.${process.pid}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(record));
+    await fs.rename(tmp, fileOf(key));
+    return { ok: true, info: infoOf(record) };
+  });
+
+  return { list, get, put };
+};
+
+export type FileStore = ReturnType<typeof createFileStore>;
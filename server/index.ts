@@ -0,0 +1,94 @@
+import http from 'node:http';
+import path from 'node:path';
+import { DATASET_KEYS, DatasetKey } from '../src/storage/migrations';
+import type { PutDatasetBody } from '../src/storage/syncClient';
+import { createFileStore } from './fileStore';
+
+// Servidor de sincronização da equipe: npm run server (porta SKG_SYNC_PORT, padrão 3001;
+// dados em SKG_SYNC_DATA, padrão server/data). O Vite encaminha /api para cá.
+const PORT = Number(process.env.SKG_SYNC_PORT) || 3001;
+const DATA_DIR = path.resolve(process.env.SKG_SYNC_DATA || 'server/data');
+const MAX_BODY = 20 * 1024 * 1024;
+
+const store = createFileStore(DATA_DIR);
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+const send = (res: http.ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', 'Cache-Control': 'no-store' });
+  res.end(JSON.stringify(body));
+};
+
+const readBody = (req: http.IncomingMessage): Promise<any> =>
+  new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY) {
+        reject(new HttpError(413, 'Dataset maior que o limite de 20 MB.'));
+        req.destroy();
+      } else {
+        chunks.push(chunk);
+      }
+    });
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+      } catch (e) {
+        reject(new HttpError(400, 'Corpo da requisição não é um JSON válido.'));
+      }
+    });
+    req.on('error', reject);
+  });
+
+const datasetKey = (raw: string): DatasetKey => {
+  const key = decodeURIComponent(raw) as DatasetKey;
+  if (!DATASET_KEYS.includes(key)) throw new HttpError(404, `Dataset desconhecido: ${key}`);
+  return key;
+};
+
+const handle = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+  const { pathname } = new URL(req.url || '/', 'http://localhost');
+  const route = pathname.replace(/^\/api/, '').replace(/\/+$/, '');
+
+  if (req.method === 'GET' && route === '/health') return send(res, 200, { ok: true });
+  if (req.method === 'GET' && route === '/datasets') return send(res, 200, await store.list());
+
+  const match = route.match(/^\/datasets\/([^/]+)$/);
+  if (!match) throw new HttpError(404, 'Rota não encontrada.');
+  const key = datasetKey(match[1]);
+
+  if (req.method === 'GET') {
+    const record = await store.get(key);
+    return record ? send(res, 200, record) : send(res, 404, { error: 'Dataset ainda não enviado.' });
+  }
+  if (req.method === 'PUT') {
+    const body: PutDatasetBody = await readBody(req);
+    if (!body || typeof body !== 'object' || !Number.isInteger(body.baseRevision) || body.baseRevision < 0
+        || !Number.isInteger(body.schemaVersion) || body.schemaVersion < 0 || !('data' in body)) {
+      throw new HttpError(400, 'Esperado { baseRevision, updatedBy, schemaVersion, data }.');
+    }
+    const outcome = await store.put(key, body.baseRevision, String(body.updatedBy || 'Anônimo'), { schemaVersion: body.schemaVersion, data: body.data });
+    if ('current' in outcome) return send(res, 409, { error: 'Dataset alterado por outra pessoa.', current: outcome.current });
+    console.log(`${outcome.info.updatedAt} ${key} r${outcome.info.revision} por ${outcome.info.updatedBy}`);
+    return send(res, 200, outcome.info);
+  }
+  throw new HttpError(405, 'Método não suportado.');
+};
+
+http
+  .createServer((req, res) => {
+    handle(req, res).catch(e => {
+      if (e instanceof HttpError) return send(res, e.status, { error: e.message });
+      console.error(e);
+      send(res, 500, { error: 'Erro interno do servidor.' });
+    });
+  })
+  .listen(PORT, () => {
+    console.log(`Servidor de sincronização SK-G em http://localhost:${PORT}/api (dados em ${DATA_DIR})`);
+  });
@@ -0,0 +1,204 @@
+import React, { useMemo, useState } from 'react';
+import { AbcXyzSettings, CLASSES_ABC, CLASSES_XYZ, ClasseABC, ClasseXYZ, DEFAULT_ABC_XYZ, classifyAbcXyz, clientYears } from '../kpi';
+import { ExportButtons } from './ExportButtons';
+
+const formatBRL = (value: number): string =>
+  new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL', minimumFractionDigits: 2 }).format(value || 0);
+
+const ABC_STYLE: Record<ClasseABC, string> = {
+  A: 'bg-emerald-950 text-emerald-500 border border-emerald-900',
+  B: 'bg-amber-950 text-amber-500 border border-amber-900',
+  C: 'bg-gray-800 text-gray-400 border border-gray-700',
+};
+
+const XYZ_LABEL: Record<ClasseXYZ, string> = { X: 'Estável', Y: 'Oscilante', Z: 'Errático' };
+
+// Campos de limite editáveis: chave, rótulo e faixa aceita.
+const LIMIT_FIELDS: { key: keyof AbcXyzSettings; label: string; min: number; max: number }[] = [
+  { key: 'limiteA', label: 'A até (% acum.)', min: 1, max: 100 },
+  { key: 'limiteB', label: 'B até (% acum.)', min: 1, max: 100 },
+  { key: 'limiteX', label: 'X até (CV %)', min: 0, max: 1000 },
+  { key: 'limiteY', label: 'Y até (CV %)', min: 0, max: 1000 },
+];
+
+/**
+ * Classificação ABC/XYZ de toda a base de clientes: ABC pelo faturamento do ano (ou da janela
+ * de anos escolhida), XYZ pela volatilidade do faturamento anual, cruzados numa matriz 3×3.
+ */
+export const AbcXyzClassification = ({ clientes, defaultYear, settings, setSettings }: {
+  clientes: any[],
+  defaultYear: string,
+  settings: AbcXyzSettings,
+  setSettings: (value: AbcXyzSettings) => void
+}) => {
+  const years = useMemo(() => clientYears(clientes), [clientes]);
+  const [endYear, setEndYear] = useState<number>(() => (years.includes(Number(defaultYear)) ? Number(defaultYear) : years[years.length - 1]));
+  const [cell, setCell] = useState<{ abc: ClasseABC; xyz: ClasseXYZ } | null>(null);
+
+  const maxJanela = Math.max(1, endYear - (years[0] ?? endYear) + 1);
+  const anos = Math.min(settings.anos, maxJanela);
+  const result = useMemo(() => classifyAbcXyz(clientes, endYear, { ...settings, anos }), [clientes, endYear, settings, anos]);
+  const periodo = result.years.length > 1 ? `${result.years[0]}–${result.years[result.years.length - 1]}` : String(endYear);
+  const visible = cell ? result.clients.filter(c => c.classe === cell.abc && c.xyz === cell.xyz) : result.clients;
+
+  const setLimit = (key: keyof AbcXyzSettings, value: string, min: number, max: number) => {
+    const num = parseFloat(value.replace(',', '.'));
+    if (!Number.isFinite(num)) return;
+    const next = { ...settings, [key]: Math.min(max, Math.max(min, num)) };
+    // B nunca abaixo de A, Y nunca abaixo de X.
+    if (next.limiteB < next.limiteA) next.limiteB = next.limiteA;
+    if (next.limiteY < next.limiteX) next.limiteY = next.limiteX;
+    setSettings(next);
+  };
+
+  const getMatrixTable = () => ({
+    columns: [
+      { key: 'classe', label: 'Classe' },
+      ...CLASSES_XYZ.flatMap(x => [
+        { key: `${x}_count`, label: `${x} - Clientes`, kind: 'number' as const },
+        { key: `${x}_share`, label: `${x} - Faturamento (%)`, kind: 'percent' as const },
+      ]),
+    ],
+    rows: CLASSES_ABC.map(a => ({
+      classe: a,
+      ...Object.fromEntries(CLASSES_XYZ.flatMap(x => [[`${x}_count`, result.matrix[a][x].count], [`${x}_share`, result.matrix[a][x].share]])),
+    })),
+  });
+
+  const getClientsTable = () => ({
+    columns: [
+      { key: 'name', label: 'Cliente' },
+      { key: 'value', label: `Faturamento ${periodo} (R$)`, kind: 'currency' as const },
+      { key: 'share', label: 'Participação (%)', kind: 'percent' as const },
+      { key: 'perc', label: 'Acumulado (%)', kind: 'percent' as const },
+      { key: 'classe', label: 'ABC' },
+      { key: 'cv', label: 'Coef. de Variação (%)', kind: 'percent' as const },
+      { key: 'xyz', label: 'XYZ' },
+    ],
+    rows: visible.map(c => ({ ...c, cv: c.cv ?? '' })),
+  });
+
+  return (
+    <section className="bg-[#0a0c10] p-6 rounded-3xl border border-gray-800 shadow-xl space-y-6">
+      <div className="flex flex-col lg:flex-row justify-between lg:items-center gap-4 border-b border-gray-800 pb-4">
+        <div>
+          <h2 className="text-white font-bold italic text-sm uppercase tracking-widest text-amber-100">Classificação ABC/XYZ — Base Completa ({periodo})</h2>
+          <p className="text-[10px] text-gray-500 mt-1">
+            {result.clients.length} clientes · {formatBRL(result.total)} · volatilidade medida de {result.serieYears[0] ?? '—'} a {endYear}
+          </p>
+        </div>
+        <div className="flex flex-wrap items-end gap-3">
+          <label className="flex flex-col gap-1">
+            <span className="text-[9px] text-gray-500 font-bold uppercase">Ano</span>
+            <select value={endYear} onChange={(e) => setEndYear(Number(e.target.value))} className="bg-gray-800 text-xs px-2 py-1.5 border border-gray-700 rounded text-white">
+              {years.map(y => <option key={y} value={y}>{y}</option>)}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className="text-[9px] text-gray-500 font-bold uppercase">Janela</span>
+            <select value={anos} onChange={(e) => setSettings({ ...settings, anos: Number(e.target.value) })} className="bg-gray-800 text-xs px-2 py-1.5 border border-gray-700 rounded text-white">
+              {Array.from({ length: maxJanela }, (_, i) => i + 1).map(n => <option key={n} value={n}>{n === 1 ? 'Só o ano' : `${n} anos`}</option>)}
+            </select>
+          </label>
+          {LIMIT_FIELDS.map(f => (
+            <label key={f.key} className="flex flex-col gap-1">
+              <span className="text-[9px] text-gray-500 font-bold uppercase">{f.label}</span>
+              <input
+                type="number"
+                min={f.min}
+                max={f.max}
+                value={settings[f.key]}
+                onChange={(e) => setLimit(f.key, e.target.value, f.min, f.max)}
+                className="w-20 bg-gray-800 text-xs px-2 py-1.5 border border-gray-700 rounded text-white font-mono text-right"
+              />
+            </label>
+          ))}
+          <button onClick={() => setSettings(DEFAULT_ABC_XYZ)} className="text-[10px] text-gray-400 hover:text-white underline pb-2">Padrão</button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 xl:grid-cols-5 gap-6">
+        <div className="xl:col-span-2 space-y-3">
+          <div className="flex justify-between items-center">
+            <p className="text-[10px] text-gray-500 font-bold uppercase">Matriz (clientes · % do faturamento)</p>
+            <ExportButtons fileName={`Matriz ABC-XYZ ${periodo}`} getTable={getMatrixTable} />
+          </div>
+          <table className="w-full text-center text-xs">
+            <thead>
+              <tr>
+                <th></th>
+                {CLASSES_XYZ.map(x => (
+                  <th key={x} className="px-2 py-2 text-gray-400 font-black">
+                    {x}<span className="block text-[9px] text-gray-600 font-bold uppercase">{XYZ_LABEL[x]}</span>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {CLASSES_ABC.map(a => (
+                <tr key={a}>
+                  <td className="pr-2"><span className={`px-2 py-1 rounded text-[10px] font-black ${ABC_STYLE[a]}`}>{a}</span></td>
+                  {CLASSES_XYZ.map(x => {
+                    const c = result.matrix[a][x];
+                    const active = cell?.abc === a && cell?.xyz === x;
+                    return (
+                      <td key={x} className="p-1">
+                        <button
+                          onClick={() => setCell(active ? null : { abc: a, xyz: x })}
+                          className={`w-full rounded-xl border px-2 py-3 transition-all ${active ? 'border-white/60 bg-gray-800' : 'border-gray-800 bg-gray-950 hover:border-gray-600'}`}
+                          style={{ backgroundColor: !active && c.share > 0 ? `rgba(16, 185, 129, ${Math.min(0.45, c.share / 100 + 0.05)})` : undefined }}
+                        >
+                          <span className="block text-lg font-black text-white">{c.count}</span>
+                          <span className="block text-[10px] font-mono text-gray-300">{c.share.toFixed(1)}%</span>
+                        </button>
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="text-[10px] text-gray-600">Clique numa célula para filtrar os clientes.</p>
+        </div>
+
+        <div className="xl:col-span-3 space-y-3">
+          <div className="flex justify-between items-center">
+            <p className="text-[10px] text-gray-500 font-bold uppercase">
+              {cell ? `Clientes ${cell.abc}${cell.xyz}` : 'Todos os clientes'}
+              {cell && <button onClick={() => setCell(null)} className="ml-2 text-gray-400 hover:text-white underline normal-case">limpar filtro</button>}
+            </p>
+            <ExportButtons fileName={`Classificação ABC-XYZ ${periodo}`} getTable={getClientsTable} />
+          </div>
+          <div className="overflow-x-auto max-h-[420px] overflow-y-auto">
+            <table className="w-full text-left text-sm text-gray-300">
+              <thead className="bg-gray-950 text-gray-400 text-[10px] uppercase font-bold tracking-wider sticky top-0">
+                <tr>
+                  <th className="px-4 py-3">Cliente</th>
+                  <th className="px-4 py-3 text-right">Faturamento</th>
+                  <th className="px-4 py-3 text-right">Part.</th>
+                  <th className="px-4 py-3 text-right">Acumulado</th>
+                  <th className="px-4 py-3 text-right">CV</th>
+                  <th className="px-4 py-3 text-center">Classe</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-800">
+                {visible.map(c => (
+                  <tr key={c.name} className="hover:bg-gray-800/30">
+                    <td className="px-4 py-2 font-bold text-xs">{c.name}</td>
+                    <td className="px-4 py-2 text-right font-mono text-emerald-400 text-xs">{formatBRL(c.value)}</td>
+                    <td className="px-4 py-2 text-right font-mono text-xs">{c.share.toFixed(1)}%</td>
+                    <td className="px-4 py-2 text-right font-mono text-xs">{c.perc.toFixed(1)}%</td>
+                    <td className="px-4 py-2 text-right font-mono text-xs text-gray-400">{c.cv === null ? '—' : `${c.cv.toFixed(1)}%`}</td>
+                    <td className="px-4 py-2 text-center">
+                      <span className={`px-2 py-1 rounded text-[10px] font-black ${ABC_STYLE[c.classe]}`}>{c.classe}{c.xyz}</span>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+    </section>
+  );
+};
@@ -0,0 +1,141 @@
+import React, { useMemo, useState } from 'react';
+import { MONTHS } from '../../constants';
+import { WORKSPACE_LABELS, WorkspaceField } from '../storage/backup';
+import { AuditEntry } from '../storage/auditLog';
+import { AuditLog } from '../hooks/useAuditLog';
+import { ExportButtons } from './ExportButtons';
+
+const PAGE_SIZE = 200;
+
+const formatValue = (value: any) => {
+  if (value === undefined || value === null || value === '') return '—';
+  if (typeof value === 'number') return value.toLocaleString('pt-BR', { maximumFractionDigits: 2 });
+  return String(value);
+};
+
+export const AuditLogViewer = ({ audit, onRevert }: { audit: AuditLog, onRevert: (entry: AuditEntry) => void }) => {
+  const { entries, user, setUser } = audit;
+  const [dataset, setDataset] = useState<WorkspaceField | ''>('');
+  const [month, setMonth] = useState('');
+  const [limit, setLimit] = useState(PAGE_SIZE);
+
+  const filtered = useMemo(
+    () => entries
+      .filter(e => (!dataset || e.dataset === dataset) && (!month || e.month === month))
+      .slice()
+      .reverse(),
+    [entries, dataset, month]
+  );
+
+  const datasets = Object.keys(WORKSPACE_LABELS) as WorkspaceField[];
+
+  const getExportTable = () => ({
+    columns: [
+      { key: 'timestamp', label: 'Data/Hora' },
+      { key: 'user', label: 'Usuário' },
+      { key: 'dataset', label: 'Planilha' },
+      { key: 'year', label: 'Ano' },
+      { key: 'row', label: 'Linha' },
+      { key: 'column', label: 'Coluna' },
+      { key: 'oldValue', label: 'Valor Anterior' },
+      { key: 'newValue', label: 'Valor Novo' },
+      { key: 'action', label: 'Ação' },
+      { key: 'reverted', label: 'Revertida em' },
+    ],
+    rows: filtered.map(e => ({
+      ...e,
+      timestamp: new Date(e.timestamp).toLocaleString('pt-BR'),
+      dataset: WORKSPACE_LABELS[e.dataset],
+      year: e.year || '',
+      oldValue: formatValue(e.oldValue),
+      newValue: formatValue(e.newValue),
+      reverted: e.revertedAt ? `${new Date(e.revertedAt).toLocaleString('pt-BR')} (${e.revertedBy})` : '',
+    })),
+  });
+
+  return (
+    <div className="space-y-6 animate-in fade-in duration-500">
+      <div className="bg-gray-900 p-4 rounded-xl shadow-xl border border-gray-800 flex flex-col md:flex-row justify-between md:items-end gap-4">
+        <div>
+          <h2 className="text-white font-black italic text-xl uppercase">Auditoria de Alterações</h2>
+          <p className="text-gray-500 text-xs">Cada célula alterada nas planilhas fica registrada com o valor anterior, o novo, o horário e o usuário.</p>
+        </div>
+        <div className="flex flex-wrap gap-3 items-end">
+          <label className="text-[10px] text-gray-400 uppercase font-bold flex flex-col gap-1">
+            Seu nome
+            <input value={user} onChange={(e) => setUser(e.target.value)} placeholder="Anônimo" className="bg-gray-800 text-xs px-2 py-1.5 border border-gray-700 rounded text-white normal-case" />
+          </label>
+          <label className="text-[10px] text-gray-400 uppercase font-bold flex flex-col gap-1">
+            Planilha
+            <select value={dataset} onChange={(e) => { setDataset(e.target.value as WorkspaceField | ''); setLimit(PAGE_SIZE); }} className="bg-gray-800 text-xs px-2 py-1.5 border border-gray-700 rounded text-white normal-case">
+              <option value="">Todas</option>
+              {datasets.map(d => <option key={d} value={d}>{WORKSPACE_LABELS[d]}</option>)}
+            </select>
+          </label>
+          <label className="text-[10px] text-gray-400 uppercase font-bold flex flex-col gap-1">
+            Mês
+            <select value={month} onChange={(e) => { setMonth(e.target.value); setLimit(PAGE_SIZE); }} className="bg-gray-800 text-xs px-2 py-1.5 border border-gray-700 rounded text-white normal-case">
+              <option value="">Todos</option>
+              {MONTHS.map(m => <option key={m} value={m}>{m}</option>)}
+            </select>
+          </label>
+          <ExportButtons fileName="Auditoria de Alterações" getTable={getExportTable} />
+        </div>
+      </div>
+
+      <div className="bg-gray-900 rounded-xl shadow-xl border border-gray-800 overflow-hidden">
+        {filtered.length === 0 ? (
+          <p className="text-gray-600 text-sm italic p-6">Nenhuma alteração registrada{dataset || month ? ' para este filtro' : ''}.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-left text-xs text-gray-300">
+              <thead className="bg-gray-950 text-gray-400 uppercase">
+                <tr>
+                  <th className="px-3 py-3">Data/Hora</th>
+                  <th className="px-3 py-3">Usuário</th>
+                  <th className="px-3 py-3">Planilha</th>
+                  <th className="px-3 py-3">Linha</th>
+                  <th className="px-3 py-3">Coluna</th>
+                  <th className="px-3 py-3 text-right">Anterior</th>
+                  <th className="px-3 py-3 text-right">Novo</th>
+                  <th className="px-3 py-3">Ação</th>
+                  <th className="px-3 py-3 text-center"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {filtered.slice(0, limit).map(e => (
+                  <tr key={e.id} className={`border-b border-gray-800 hover:bg-gray-800/30 ${e.revertedAt ? 'opacity-50' : ''}`}>
+                    <td className="px-3 py-2 font-mono text-gray-500 whitespace-nowrap">{new Date(e.timestamp).toLocaleString('pt-BR')}</td>
+                    <td className="px-3 py-2 font-bold text-white">{e.user}</td>
+                    <td className="px-3 py-2">{WORKSPACE_LABELS[e.dataset]}{e.year ? ` ${e.year}` : ''}</td>
+                    <td className="px-3 py-2">{e.row || `#${e.rowIndex + 1}`}</td>
+                    <td className="px-3 py-2">{e.column}</td>
+                    <td className="px-3 py-2 text-right font-mono text-red-300">{formatValue(e.oldValue)}</td>
+                    <td className="px-3 py-2 text-right font-mono text-emerald-300">{formatValue(e.newValue)}</td>
+                    <td className="px-3 py-2 text-gray-500">{e.action}</td>
+                    <td className="px-3 py-2 text-center whitespace-nowrap">
+                      {e.revertedAt ? (
+                        <span className="text-[10px] text-gray-500" title={`Revertida por ${e.revertedBy}`}>Revertida {new Date(e.revertedAt).toLocaleDateString('pt-BR')}</span>
+                      ) : (
+                        <button onClick={() => onRevert(e)} className="bg-gray-800 hover:bg-gray-700 text-amber-400 text-[10px] px-2 py-1 rounded font-bold border border-gray-700">
+                          ↶ Reverter
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+        {filtered.length > limit && (
+          <div className="p-3 text-center border-t border-gray-800">
+            <button onClick={() => setLimit(limit + PAGE_SIZE)} className="text-xs text-blue-400 hover:text-blue-300 font-bold">
+              Mostrar mais ({filtered.length - limit} restantes)
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,154 @@
+import React from 'react';
+import { MONTHS } from '../../constants';
+import { CATCH_UP_METHODS, CatchUpPlan, CatchUpSettings } from '../kpi';
+import { ExportButtons } from './ExportButtons';
+
+const formatBRL = (value: number): string =>
+  new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL', minimumFractionDigits: 2 }).format(value || 0);
+
+export interface SellerCatchUp {
+  id: string;
+  label: string;
+  color?: string;
+  plan: CatchUpPlan;
+}
+
+/**
+ * Plano de recuperação: o desvio dos meses fechados é repartido entre os meses em aberto,
+ * para a empresa e para cada vendedor. As novas metas aparecem como segunda linha nos gráficos.
+ */
+export const CatchUpPlanner = ({ year, plan, sellers, settings, setSettings, weights }: {
+  year: string,
+  plan: CatchUpPlan,
+  sellers: SellerCatchUp[],
+  settings: CatchUpSettings,
+  setSettings: (value: CatchUpSettings) => void,
+  weights: number[]
+}) => {
+  const openMonths = MONTHS.slice(plan.closedMonths);
+  const totalWeight = openMonths.reduce((acc, _, i) => acc + (weights[plan.closedMonths + i] || 0), 0);
+
+  const setWeight = (idx: number, value: string) => {
+    const num = parseFloat(value.replace(',', '.'));
+    const next = MONTHS.map((_, i) => settings.weights?.[i] ?? 1);
+    next[idx] = Number.isFinite(num) && num >= 0 ? num : 0;
+    setSettings({ ...settings, weights: next });
+  };
+
+  const getExportTable = () => ({
+    columns: [
+      { key: 'nome', label: 'Meta' },
+      ...openMonths.map(m => ({ key: m, label: `${m} (R$)`, kind: 'currency' as const })),
+      { key: 'total', label: 'Total Restante (R$)', kind: 'currency' as const },
+    ],
+    rows: [{ label: 'Empresa', plan }, ...sellers.map(s => ({ label: s.label, plan: s.plan }))].flatMap(({ label, plan: p }) => {
+      const open = p.months.slice(p.closedMonths);
+      return [
+        { nome: `${label} - original`, ...Object.fromEntries(open.map(m => [m.month, m.meta])), total: open.reduce((acc, m) => acc + m.meta, 0) },
+        { nome: `${label} - recuperação`, ...Object.fromEntries(open.map(m => [m.month, m.recuperacao])), total: p.metaRestante },
+      ];
+    }),
+  });
+
+  if (openMonths.length === 0) {
+    return (
+      <section className="bg-gray-900 p-6 rounded-2xl border border-gray-800">
+        <h2 className="text-white font-black italic uppercase text-xl">Plano de Recuperação {year}</h2>
+        <p className="text-gray-500 text-sm mt-2">Todos os meses de {year} já foram lançados; não há metas a redistribuir.</p>
+      </section>
+    );
+  }
+
+  return (
+    <section className="bg-gray-900 p-6 rounded-2xl border border-gray-800 space-y-5">
+      <div className="flex flex-col md:flex-row justify-between md:items-center gap-4">
+        <div>
+          <h2 className="text-white font-black italic uppercase text-xl">Plano de Recuperação {year}</h2>
+          <p className="text-gray-500 text-xs">
+            {plan.closedMonths} {plan.closedMonths === 1 ? 'mês fechado' : 'meses fechados'}.{' '}
+            {plan.gap > 0
+              ? <>Falta acumulada de <span className="text-red-400 font-bold">{formatBRL(plan.gap)}</span> repartida entre {openMonths[0]} e {openMonths[openMonths.length - 1]}.</>
+              : <>À frente da meta em <span className="text-emerald-400 font-bold">{formatBRL(-plan.gap)}</span>; os meses em aberto podem ficar abaixo da meta original.</>}
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <div className="flex gap-1.5 bg-gray-950 p-1.5 rounded-xl border border-gray-800">
+            {CATCH_UP_METHODS.map(m => (
+              <button
+                key={m.key}
+                onClick={() => setSettings({ ...settings, method: m.key })}
+                className={`px-3 py-1 text-[10px] font-black uppercase rounded-lg transition-all ${settings.method === m.key ? 'bg-amber-600 text-white' : 'text-gray-500 hover:text-gray-300'}`}
+              >
+                {m.label}
+              </button>
+            ))}
+          </div>
+          <ExportButtons fileName={`Plano de Recuperação ${year}`} getTable={getExportTable} />
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-right text-xs text-gray-300">
+          <thead className="bg-gray-950 text-gray-400 uppercase">
+            <tr>
+              <th className="px-3 py-3 text-left"></th>
+              {openMonths.map(m => <th key={m} className="px-3 py-3">{m}</th>)}
+              <th className="px-3 py-3">Restante</th>
+            </tr>
+          </thead>
+          <tbody>
+            <tr className="border-b border-gray-800">
+              <td className="px-3 py-2 text-left font-bold text-gray-500 uppercase text-[10px]">Peso</td>
+              {openMonths.map((m, i) => {
+                const idx = plan.closedMonths + i;
+                return (
+                  <td key={m} className="px-3 py-2">
+                    {settings.method === 'personalizado' ? (
+                      <input
+                        type="number"
+                        min={0}
+                        step={0.1}
+                        value={settings.weights?.[idx] ?? 1}
+                        onChange={(e) => setWeight(idx, e.target.value)}
+                        className="w-16 bg-gray-800 text-xs px-1 py-1 border border-gray-700 rounded text-white font-mono text-right"
+                      />
+                    ) : (
+                      <span className="font-mono text-gray-500">{totalWeight > 0 ? ((weights[idx] / totalWeight) * 100).toFixed(1) : '0.0'}%</span>
+                    )}
+                  </td>
+                );
+              })}
+              <td></td>
+            </tr>
+            {[{ id: 'empresa', label: 'EMPRESA', color: '#ffffff', plan }, ...sellers].map(row => {
+              const open = row.plan.months.slice(row.plan.closedMonths);
+              return (
+                <React.Fragment key={row.id}>
+                  <tr className="border-t border-gray-800">
+                    <td className="px-3 py-2 text-left font-black" style={{ color: row.color }}>
+                      {row.label}
+                      <span className="block text-[9px] text-gray-500 font-bold uppercase">Meta original</span>
+                    </td>
+                    {open.map(m => <td key={m.month} className="px-3 py-2 font-mono text-gray-500">{formatBRL(m.meta)}</td>)}
+                    <td className="px-3 py-2 font-mono text-gray-500">{formatBRL(open.reduce((acc, m) => acc + m.meta, 0))}</td>
+                  </tr>
+                  <tr className="border-b border-gray-800">
+                    <td className="px-3 py-2 text-left text-[9px] text-amber-400 font-bold uppercase">
+                      Nova meta {row.plan.gap > 0 ? `(falta ${formatBRL(row.plan.gap)})` : ''}
+                    </td>
+                    {open.map(m => (
+                      <td key={m.month} className="px-3 py-2 font-mono text-amber-300 font-bold" title={`${m.ajuste >= 0 ? '+' : ''}${formatBRL(m.ajuste)} sobre a meta original`}>
+                        {formatBRL(m.recuperacao || 0)}
+                      </td>
+                    ))}
+                    <td className="px-3 py-2 font-mono text-amber-300 font-black">{formatBRL(row.plan.metaRestante)}</td>
+                  </tr>
+                </React.Fragment>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </section>
+  );
+};
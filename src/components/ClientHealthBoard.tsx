@@ -0,0 +1,227 @@
+import React, { useMemo, useState } from 'react';
+import {
+  CLIENTE_STATUS, ClienteStatus, ClienteStatusThresholds, DEFAULT_STATUS_THRESHOLDS, clientHealth,
+} from '../kpi';
+import { ExportButtons } from './ExportButtons';
+
+const formatBRL = (value: number): string =>
+  new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL', minimumFractionDigits: 2 }).format(value || 0);
+
+export const STATUS_STYLE: Record<ClienteStatus, { colorText: string; colorBg: string; colorBorder: string }> = {
+  'ALERTA OCIOSIDADE': { colorText: 'text-red-500', colorBg: 'bg-red-950', colorBorder: 'border-red-900' },
+  'ALERTA RECUO': { colorText: 'text-red-500', colorBg: 'bg-red-950', colorBorder: 'border-red-900' },
+  'EM RECUPERAÇÃO': { colorText: 'text-amber-400', colorBg: 'bg-amber-950', colorBorder: 'border-amber-900' },
+  'TOP PERFORMANCE': { colorText: 'text-blue-400', colorBg: 'bg-blue-950', colorBorder: 'border-blue-500 shadow-[0_0_10px_rgba(59,130,246,0.5)]' },
+  'EXPANSÃO': { colorText: 'text-emerald-400', colorBg: 'bg-emerald-950', colorBorder: 'border-emerald-900' },
+  'ESTABILIDADE': { colorText: 'text-gray-400', colorBg: 'bg-gray-900', colorBorder: 'border-gray-800' },
+  'BAIXO VOLUME': { colorText: 'text-gray-500', colorBg: 'bg-gray-900', colorBorder: 'border-gray-800' },
+};
+
+export const StatusBadge = ({ status }: { status: ClienteStatus }) => {
+  const style = STATUS_STYLE[status];
+  return (
+    <span className={`inline-block text-[9px] font-black tracking-wider px-2 py-1 rounded border whitespace-nowrap ${style.colorText} ${style.colorBg} ${style.colorBorder}`}>
+      {status}
+    </span>
+  );
+};
+
+const THRESHOLD_FIELDS: { key: keyof ClienteStatusThresholds; label: string; hint: string; step: number }[] = [
+  { key: 'volumeMinimo', label: 'Volume mínimo (R$)', hint: 'Abaixo disso o cliente é baixo volume e não entra em recuperação/estabilidade.', step: 1000 },
+  { key: 'volumeTop', label: 'Volume TOP (R$)', hint: 'Faturamento mínimo no ano para TOP PERFORMANCE.', step: 10000 },
+  { key: 'fatorQueda', label: 'Queda (× média)', hint: 'Ano anterior abaixo deste fator da média indica tendência de queda.', step: 0.05 },
+  { key: 'fatorRecuo', label: 'Recuo (× média)', hint: 'Em queda e abaixo deste fator da média: ALERTA RECUO.', step: 0.05 },
+  { key: 'fatorOciosidade', label: 'Ociosidade (× média)', hint: 'Abaixo deste fator da média: ALERTA OCIOSIDADE.', step: 0.05 },
+  { key: 'fatorTop', label: 'TOP (× média)', hint: 'Acima deste fator da média, com crescimento e volume: TOP PERFORMANCE.', step: 0.05 },
+  { key: 'crescimentoMinimo', label: 'Crescimento mínimo', hint: 'Crescimento sobre o ano anterior para EXPANSÃO (0,05 = 5%).', step: 0.01 },
+  { key: 'faixaEstabilidade', label: 'Faixa de estabilidade', hint: 'Variação sobre o ano anterior considerada estável (0,15 = ±15%).', step: 0.01 },
+];
+
+type SortKey = 'status' | 'nome' | 'value' | 'growth';
+
+/**
+ * Saúde dos clientes da GESTÃO TOP 20: status calculado pelo histórico e pelo faturamento
+ * do ano, comparado com a relevância digitada na planilha.
+ */
+export const ClientHealthBoard = ({ clientes, year, thresholds, setThresholds }: {
+  clientes: any[],
+  year: string,
+  thresholds: ClienteStatusThresholds,
+  setThresholds: (value: ClienteStatusThresholds) => void
+}) => {
+  const [statusFilter, setStatusFilter] = useState<ClienteStatus | ''>('');
+  const [onlyDivergent, setOnlyDivergent] = useState(false);
+  const [sortBy, setSortBy] = useState<SortKey>('status');
+  const [showThresholds, setShowThresholds] = useState(false);
+
+  const health = useMemo(() => clientHealth(clientes, year, thresholds), [clientes, year, thresholds]);
+
+  const counts = useMemo(() => {
+    const out = {} as Record<ClienteStatus, number>;
+    CLIENTE_STATUS.forEach(s => { out[s] = 0; });
+    health.forEach(h => { out[h.status]++; });
+    return out;
+  }, [health]);
+
+  const divergentCount = health.filter(h => h.divergente).length;
+
+  const rows = useMemo(() => {
+    const filtered = health.filter(h => (!statusFilter || h.status === statusFilter) && (!onlyDivergent || h.divergente));
+    return [...filtered].sort((a, b) => {
+      if (sortBy === 'nome') return a.cliente.nome.localeCompare(b.cliente.nome);
+      if (sortBy === 'value') return b.value - a.value;
+      if (sortBy === 'growth') return b.growth - a.growth;
+      return CLIENTE_STATUS.indexOf(a.status) - CLIENTE_STATUS.indexOf(b.status) || b.value - a.value;
+    });
+  }, [health, statusFilter, onlyDivergent, sortBy]);
+
+  const updateThreshold = (key: keyof ClienteStatusThresholds, value: string) => {
+    const num = parseFloat(value.replace(',', '.'));
+    if (!Number.isFinite(num) || num < 0) return;
+    setThresholds({ ...thresholds, [key]: num });
+  };
+
+  const getExportTable = () => ({
+    columns: [
+      { key: 'nome', label: 'Cliente' },
+      { key: 'cluster', label: 'Cluster' },
+      { key: 'media', label: 'Média 2022-2025 (R$)', kind: 'currency' as const },
+      { key: 'prev', label: `${Number(year) - 1} (R$)`, kind: 'currency' as const },
+      { key: 'value', label: `${year} (R$)`, kind: 'currency' as const },
+      { key: 'growth', label: 'Variação (%)', kind: 'percent' as const },
+      { key: 'status', label: 'Status Calculado' },
+      { key: 'relevancia', label: 'Relevância Manual' },
+      { key: 'divergente', label: 'Divergente' },
+    ],
+    rows: rows.map(h => ({
+      nome: h.cliente.nome,
+      cluster: h.cliente.cluster,
+      media: h.media,
+      prev: h.cliente.history?.[Number(year) - 1] || 0,
+      value: h.value,
+      growth: h.growth,
+      status: h.status,
+      relevancia: h.cliente.relevancia,
+      divergente: h.divergente ? 'Sim' : 'Não',
+    })),
+  });
+
+  return (
+    <section className="bg-gray-900 p-6 rounded-2xl border border-gray-800 space-y-4">
+      <div className="flex flex-col md:flex-row justify-between md:items-center gap-4">
+        <div>
+          <h2 className="text-white font-black italic uppercase text-xl tracking-widest">Saúde da Carteira Top 20 ({year})</h2>
+          <p className="text-gray-500 text-xs">Status calculado pelo histórico 2022-2025 e pelo faturamento/projeção de {year}.</p>
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          <label className="text-[10px] text-gray-400 uppercase font-bold flex items-center gap-2">
+            Ordenar
+            <select value={sortBy} onChange={(e) => setSortBy(e.target.value as SortKey)} className="bg-gray-800 text-xs px-2 py-1 border border-gray-700 rounded text-white normal-case">
+              <option value="status">Status (mais crítico primeiro)</option>
+              <option value="value">Faturamento {year}</option>
+              <option value="growth">Variação vs {Number(year) - 1}</option>
+              <option value="nome">Cliente</option>
+            </select>
+          </label>
+          <button
+            onClick={() => setOnlyDivergent(!onlyDivergent)}
+            className={`text-[10px] px-2 py-1 rounded font-bold border ${onlyDivergent ? 'bg-amber-600 text-white border-amber-500' : 'bg-gray-800 text-amber-400 border-gray-700 hover:bg-gray-700'}`}
+          >
+            ⚠ Divergentes ({divergentCount})
+          </button>
+          <button onClick={() => setShowThresholds(!showThresholds)} className="bg-gray-800 hover:bg-gray-700 text-gray-300 text-[10px] px-2 py-1 rounded font-bold border border-gray-700">
+            ⚙ Limites
+          </button>
+          <ExportButtons fileName={`Saúde da Carteira Top 20 ${year}`} getTable={getExportTable} />
+        </div>
+      </div>
+
+      {showThresholds && (
+        <div className="bg-gray-950 border border-gray-800 rounded-xl p-4 space-y-3">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            {THRESHOLD_FIELDS.map(f => (
+              <label key={f.key} className="text-[10px] text-gray-400 uppercase font-bold flex flex-col gap-1" title={f.hint}>
+                {f.label}
+                <input
+                  type="number"
+                  min={0}
+                  step={f.step}
+                  value={thresholds[f.key]}
+                  onChange={(e) => updateThreshold(f.key, e.target.value)}
+                  className="bg-gray-800 text-xs px-2 py-1.5 border border-gray-700 rounded text-white font-mono"
+                />
+              </label>
+            ))}
+          </div>
+          <div className="flex justify-between items-center">
+            <p className="text-[10px] text-gray-500">Os fatores multiplicam a média 2022-2025 de cada cliente. Passe o mouse sobre o campo para ver a regra.</p>
+            <button onClick={() => setThresholds(DEFAULT_STATUS_THRESHOLDS)} className="text-[10px] text-red-400 hover:text-red-300 font-bold">
+              Restaurar padrão
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        <button
+          onClick={() => setStatusFilter('')}
+          className={`text-[10px] px-2 py-1 rounded font-bold border ${statusFilter === '' ? 'bg-white text-gray-900 border-white' : 'bg-gray-800 text-gray-300 border-gray-700 hover:bg-gray-700'}`}
+        >
+          TODOS ({health.length})
+        </button>
+        {CLIENTE_STATUS.map(s => (
+          <button
+            key={s}
+            onClick={() => setStatusFilter(statusFilter === s ? '' : s)}
+            disabled={counts[s] === 0}
+            className={`text-[10px] px-2 py-1 rounded font-bold border disabled:opacity-30 ${STATUS_STYLE[s].colorText} ${statusFilter === s ? `${STATUS_STYLE[s].colorBg} ${STATUS_STYLE[s].colorBorder}` : 'bg-gray-800 border-gray-700 hover:bg-gray-700'}`}
+          >
+            {s} ({counts[s]})
+          </button>
+        ))}
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-left text-xs text-gray-300">
+          <thead className="bg-gray-950 text-gray-400 uppercase">
+            <tr>
+              <th className="px-3 py-3">Cliente</th>
+              <th className="px-3 py-3">Cluster</th>
+              <th className="px-3 py-3 text-right">Média 22-25</th>
+              <th className="px-3 py-3 text-right">{Number(year) - 1}</th>
+              <th className="px-3 py-3 text-right">{year}</th>
+              <th className="px-3 py-3 text-right">Var.</th>
+              <th className="px-3 py-3">Status Calculado</th>
+              <th className="px-3 py-3">Relevância Manual</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(h => (
+              <tr key={h.cliente.id ?? h.cliente.nome} className={`border-b border-gray-800 hover:bg-gray-800/30 ${h.divergente ? 'bg-amber-950/10' : ''}`}>
+                <td className="px-3 py-2 font-bold text-white">{h.cliente.nome}</td>
+                <td className="px-3 py-2 text-gray-500">{h.cliente.cluster}</td>
+                <td className="px-3 py-2 text-right font-mono">{formatBRL(h.media)}</td>
+                <td className="px-3 py-2 text-right font-mono">{formatBRL(h.cliente.history?.[Number(year) - 1] || 0)}</td>
+                <td className="px-3 py-2 text-right font-mono text-white">{formatBRL(h.value)}</td>
+                <td className={`px-3 py-2 text-right font-mono font-bold ${h.growth < 0 ? 'text-red-400' : 'text-emerald-400'}`}>
+                  {h.growth > 0 ? '+' : ''}{h.growth.toFixed(1)}%
+                </td>
+                <td className="px-3 py-2"><StatusBadge status={h.status} /></td>
+                <td className="px-3 py-2">
+                  {h.divergente ? (
+                    <span className="text-amber-400 font-bold" title={`A relevância digitada (${h.cliente.relevancia}) não bate com o status calculado (${h.status}).`}>
+                      ⚠ {h.cliente.relevancia}
+                    </span>
+                  ) : (
+                    <span className="text-gray-500">{h.cliente.relevancia || '—'}</span>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {rows.length === 0 && <p className="text-gray-600 text-sm italic p-6">Nenhum cliente para este filtro.</p>}
+      </div>
+    </section>
+  );
+};
@@ -0,0 +1,185 @@
+import React, { useMemo, useState } from 'react';
+import { CHURN_RISKS, CHURN_RISK_WEIGHT, ChurnRisk, ClasseRFV, PortfolioClient, analyzePortfolio, summarizePortfolioBySeller } from '../kpi';
+import { ExportButtons } from './ExportButtons';
+
+const formatBRL = (value: number): string =>
+  new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL', minimumFractionDigits: 2 }).format(value || 0);
+
+const RISK_STYLE: Record<ChurnRisk, string> = {
+  Alto: 'bg-red-950 text-red-400 border border-red-900',
+  Médio: 'bg-amber-950 text-amber-400 border border-amber-900',
+  Baixo: 'bg-emerald-950 text-emerald-400 border border-emerald-900',
+};
+
+const RFV_STYLE: Record<ClasseRFV, string> = {
+  A: 'text-emerald-400',
+  B: 'text-amber-400',
+  C: 'text-gray-400',
+};
+
+type SortKey = 'name' | 'billing' | 'tendencia' | 'rfv' | 'receitaEmRisco' | 'salesCycleDays' | 'cost';
+
+const COLUMNS: { key: SortKey; label: string; align: string }[] = [
+  { key: 'name', label: 'Cliente', align: 'text-left' },
+  { key: 'billing', label: 'Faturamento', align: 'text-right' },
+  { key: 'tendencia', label: 'Tendência', align: 'text-right' },
+  { key: 'rfv', label: 'RFV', align: 'text-center' },
+  { key: 'receitaEmRisco', label: 'Receita em Risco', align: 'text-right' },
+  { key: 'salesCycleDays', label: 'Ciclo', align: 'text-right' },
+  { key: 'cost', label: 'Custo', align: 'text-right' },
+];
+
+const sortValue = (p: PortfolioClient, key: SortKey): number | string =>
+  key === 'rfv' ? p.recencia + p.frequencia + p.valor : p[key];
+
+/**
+ * Carteira de clientes por vendedor: RFV calculado, risco de churn pela tendência do faturamento
+ * anual e receita ponderada pelo risco, que é a ordenação padrão da tabela.
+ */
+export const ClientPortfolio = ({ clients, sellers }: { clients: any[], sellers: any[] }) => {
+  const portfolio = useMemo(() => analyzePortfolio(clients), [clients]);
+  const summaries = useMemo(() => summarizePortfolioBySeller(portfolio), [portfolio]);
+  const [seller, setSeller] = useState<string | null>(null);
+  const [sort, setSort] = useState<{ key: SortKey; desc: boolean }>({ key: 'receitaEmRisco', desc: true });
+
+  const sellerOf = (id: string) => sellers.find((s: any) => s.id === id);
+  const sellerLabel = (id: string) => sellerOf(id)?.label || id || 'Sem vendedor';
+
+  const rows = useMemo(() => {
+    const filtered = seller === null ? portfolio : portfolio.filter(p => p.salesperson === seller);
+    return [...filtered].sort((a, b) => {
+      const va = sortValue(a, sort.key);
+      const vb = sortValue(b, sort.key);
+      const cmp = typeof va === 'string' ? va.localeCompare(String(vb)) : va - (vb as number);
+      return sort.desc ? -cmp : cmp;
+    });
+  }, [portfolio, seller, sort]);
+
+  const toggleSort = (key: SortKey) =>
+    setSort(prev => (prev.key === key ? { key, desc: !prev.desc } : { key, desc: key !== 'name' }));
+
+  const total = portfolio.reduce((acc, p) => acc + p.billing, 0);
+  const totalRisco = portfolio.reduce((acc, p) => acc + p.receitaEmRisco, 0);
+
+  const getExportTable = () => ({
+    columns: [
+      { key: 'name', label: 'Cliente' },
+      { key: 'vendedor', label: 'Vendedor' },
+      { key: 'billing', label: 'Faturamento (R$)', kind: 'currency' as const },
+      { key: 'tendencia', label: 'Tendência Anual (%)', kind: 'percent' as const },
+      { key: 'ultimoAno', label: 'Última Compra', kind: 'number' as const },
+      { key: 'rfv', label: 'RFV' },
+      { key: 'classeRfv', label: 'Classe RFV' },
+      { key: 'churnRisk', label: 'Risco de Churn' },
+      { key: 'receitaEmRisco', label: 'Receita em Risco (R$)', kind: 'currency' as const },
+      { key: 'salesCycleDays', label: 'Ciclo de Venda (dias)', kind: 'number' as const },
+      { key: 'cost', label: 'Custo de Atendimento (R$)', kind: 'currency' as const },
+    ],
+    rows: rows.map(p => ({ ...p, vendedor: sellerLabel(p.salesperson), ultimoAno: p.ultimoAno ?? '' })),
+  });
+
+  if (portfolio.length === 0) {
+    return (
+      <section className="bg-gray-900 p-6 rounded-2xl border border-gray-800">
+        <h2 className="text-white font-black italic uppercase text-xl">Carteira de Clientes</h2>
+        <p className="text-gray-500 text-sm mt-2">Nenhum cliente cadastrado. Preencha a planilha "Carteira de Clientes" no Banco de Dados.</p>
+      </section>
+    );
+  }
+
+  return (
+    <div className="space-y-6 animate-in slide-in-from-right duration-500">
+      <section className="bg-gray-900 p-6 rounded-2xl border border-gray-800 space-y-5">
+        <div>
+          <h2 className="text-white font-black italic uppercase text-xl">Carteira de Clientes</h2>
+          <p className="text-gray-500 text-xs">
+            {portfolio.length} clientes · {formatBRL(total)} · receita ponderada pelo risco de churn: <span className="text-red-400 font-bold">{formatBRL(totalRisco)}</span>
+            {' '}(pesos {CHURN_RISKS.map(r => `${r} ${Math.round(CHURN_RISK_WEIGHT[r] * 100)}%`).join(', ')})
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-4">
+          {summaries.map(s => {
+            const active = seller === s.salesperson;
+            return (
+              <button
+                key={s.salesperson}
+                onClick={() => setSeller(active ? null : s.salesperson)}
+                className={`text-left bg-[#0d1117] p-4 rounded-xl border transition-all ${active ? 'border-white/40' : 'border-gray-800 hover:border-gray-600'}`}
+              >
+                <p className="font-black italic uppercase text-sm" style={{ color: sellerOf(s.salesperson)?.color }}>{sellerLabel(s.salesperson)}</p>
+                <p className="text-[10px] text-gray-500">{s.clientes} clientes · {s.classeA} classe A · ciclo médio {s.cicloMedio.toFixed(0)} dias</p>
+                <div className="flex justify-between mt-3">
+                  <div>
+                    <p className="text-[8px] text-gray-500 font-bold uppercase">Faturamento</p>
+                    <p className="text-sm font-black text-white font-mono">{formatBRL(s.faturamento)}</p>
+                  </div>
+                  <div className="text-right">
+                    <p className="text-[8px] text-gray-500 font-bold uppercase">Em risco</p>
+                    <p className="text-sm font-black text-red-400 font-mono">{formatBRL(s.receitaEmRisco)}</p>
+                  </div>
+                </div>
+                <div className="flex gap-1.5 mt-3">
+                  {CHURN_RISKS.map(r => (
+                    <span key={r} className={`px-2 py-0.5 rounded text-[9px] font-black ${RISK_STYLE[r]}`}>{r}: {s.porRisco[r]}</span>
+                  ))}
+                </div>
+              </button>
+            );
+          })}
+        </div>
+      </section>
+
+      <section className="bg-gray-900 p-6 rounded-2xl border border-gray-800 space-y-4">
+        <div className="flex justify-between items-center">
+          <p className="text-[10px] text-gray-500 font-bold uppercase">
+            {seller === null ? 'Todos os vendedores' : sellerLabel(seller)}
+            {seller !== null && <button onClick={() => setSeller(null)} className="ml-2 text-gray-400 hover:text-white underline normal-case">limpar filtro</button>}
+          </p>
+          <ExportButtons fileName={`Carteira de Clientes${seller === null ? '' : ` ${sellerLabel(seller)}`}`} getTable={getExportTable} />
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm text-gray-300">
+            <thead className="bg-gray-950 text-gray-400 text-[10px] uppercase font-bold tracking-wider">
+              <tr>
+                {COLUMNS.map(c => (
+                  <th key={c.key} className={`px-4 py-3 ${c.align} cursor-pointer select-none hover:text-white`} onClick={() => toggleSort(c.key)}>
+                    {c.label}{sort.key === c.key ? (sort.desc ? ' ▼' : ' ▲') : ''}
+                  </th>
+                ))}
+                <th className="px-4 py-3 text-center">Risco</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-800">
+              {rows.map(p => (
+                <tr key={p.id} className="hover:bg-gray-800/30">
+                  <td className="px-4 py-2 text-left">
+                    <span className="font-bold text-xs">{p.name}</span>
+                    <span className="block text-[9px] text-gray-500 uppercase">{sellerLabel(p.salesperson)}</span>
+                  </td>
+                  <td className="px-4 py-2 text-right font-mono text-emerald-400 text-xs">{formatBRL(p.billing)}</td>
+                  <td className={`px-4 py-2 text-right font-mono text-xs ${p.tendencia < 0 ? 'text-red-400' : 'text-gray-300'}`}>
+                    {p.tendencia >= 0 ? '+' : ''}{p.tendencia.toFixed(1)}%/ano
+                  </td>
+                  <td className="px-4 py-2 text-center" title={`Recência ${p.recencia} · Frequência ${p.frequencia} · Valor ${p.valor}`}>
+                    <span className={`font-mono font-black text-xs ${RFV_STYLE[p.classeRfv]}`}>{p.rfv}</span>
+                    <span className={`block text-[9px] font-black ${RFV_STYLE[p.classeRfv]}`}>CLASSE {p.classeRfv}</span>
+                  </td>
+                  <td className="px-4 py-2 text-right font-mono text-red-300 text-xs">{formatBRL(p.receitaEmRisco)}</td>
+                  <td className="px-4 py-2 text-right font-mono text-xs">{p.salesCycleDays} dias</td>
+                  <td className="px-4 py-2 text-right font-mono text-xs text-gray-400">
+                    {formatBRL(p.cost)}
+                    <span className="block text-[9px] text-gray-600">{p.billing > 0 ? ((p.cost / p.billing) * 100).toFixed(1) : '0.0'}% do fat.</span>
+                  </td>
+                  <td className="px-4 py-2 text-center">
+                    <span className={`px-2 py-1 rounded text-[10px] font-black uppercase ${RISK_STYLE[p.churnRisk]}`}>{p.churnRisk}</span>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </section>
+    </div>
+  );
+};
@@ -0,0 +1,136 @@
+import React, { useMemo, useState } from 'react';
+import { CohortPeriod, buildCohorts, carteiraSeries, top20Series } from '../kpi';
+import { ExportButtons } from './ExportButtons';
+
+const formatBRL = (value: number): string =>
+  new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL', minimumFractionDigits: 2 }).format(value || 0);
+
+type Source = 'top20' | 'carteira';
+type Metric = 'retencao' | 'retencaoReceita' | 'nrr';
+
+const SOURCES: { key: Source; label: string }[] = [
+  { key: 'top20', label: 'Gestão Top 20' },
+  { key: 'carteira', label: 'Carteira' },
+];
+
+const METRICS: { key: Metric; label: string; hint: string }[] = [
+  { key: 'retencao', label: 'Clientes', hint: '% dos clientes da coorte que compraram no ano' },
+  { key: 'retencaoReceita', label: 'Receita', hint: 'receita retida sem expansão, sobre a receita do ano de entrada' },
+  { key: 'nrr', label: 'NRR', hint: 'receita do ano sobre a do ano de entrada, com expansão' },
+];
+
+// Vermelho abaixo de 50%, âmbar até 100% e verde acima; a intensidade segue o valor.
+const heatColor = (value: number) => {
+  if (value >= 100) return `rgba(16, 185, 129, ${Math.min(0.7, 0.25 + (value - 100) / 200)})`;
+  if (value >= 50) return `rgba(245, 158, 11, ${0.15 + ((value - 50) / 50) * 0.35})`;
+  return `rgba(239, 68, 68, ${0.5 - (value / 50) * 0.3})`;
+};
+
+/**
+ * Coortes pelo primeiro ano com faturamento: retenção de clientes, de receita e NRR nos anos
+ * seguintes. O primeiro ano do histórico reúne também quem já era cliente antes dele.
+ */
+export const CohortRetention = ({ gestaoClientes, carteira }: { gestaoClientes: any[], carteira: any[] }) => {
+  const [source, setSource] = useState<Source>('top20');
+  const [metric, setMetric] = useState<Metric>('retencao');
+
+  const analysis = useMemo(
+    () => buildCohorts(source === 'top20' ? top20Series(gestaoClientes) : carteiraSeries(carteira)),
+    [source, gestaoClientes, carteira]
+  );
+  const offsets = Array.from({ length: analysis.maxOffset + 1 }, (_, i) => i);
+  const sourceLabel = SOURCES.find(s => s.key === source)?.label;
+
+  const cellTitle = (p: CohortPeriod) =>
+    `${p.year}: ${p.ativos} clientes ativos · ${formatBRL(p.receita)} · retenção ${p.retencao.toFixed(1)}% · receita ${p.retencaoReceita.toFixed(1)}% · NRR ${p.nrr.toFixed(1)}%`;
+
+  const getExportTable = () => ({
+    columns: [
+      { key: 'coorte', label: 'Coorte' },
+      { key: 'clientes', label: 'Clientes', kind: 'number' as const },
+      { key: 'receitaInicial', label: 'Receita de Entrada (R$)', kind: 'currency' as const },
+      ...offsets.flatMap(o => [
+        { key: `retencao_${o}`, label: `Ano +${o} Clientes (%)`, kind: 'percent' as const },
+        { key: `retencaoReceita_${o}`, label: `Ano +${o} Receita (%)`, kind: 'percent' as const },
+        { key: `nrr_${o}`, label: `Ano +${o} NRR (%)`, kind: 'percent' as const },
+      ]),
+    ],
+    rows: analysis.cohorts.map(c => ({
+      coorte: c.year,
+      clientes: c.clientes,
+      receitaInicial: c.receitaInicial,
+      ...Object.fromEntries(c.periods.flatMap(p => [
+        [`retencao_${p.offset}`, p.retencao],
+        [`retencaoReceita_${p.offset}`, p.retencaoReceita],
+        [`nrr_${p.offset}`, p.nrr],
+      ])),
+    })),
+  });
+
+  return (
+    <section className="bg-gray-900 p-6 rounded-2xl border border-gray-800 space-y-5">
+      <div className="flex flex-col lg:flex-row justify-between lg:items-center gap-4">
+        <div>
+          <h2 className="text-white font-black italic uppercase text-xl">Coortes e Retenção</h2>
+          <p className="text-gray-500 text-xs">
+            Clientes agrupados pelo primeiro ano com faturamento ({sourceLabel}). {METRICS.find(m => m.key === metric)?.hint}.
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          {[{ options: SOURCES, value: source, set: setSource }, { options: METRICS, value: metric, set: setMetric }].map((group, i) => (
+            <div key={i} className="flex gap-1.5 bg-gray-950 p-1.5 rounded-xl border border-gray-800">
+              {group.options.map(o => (
+                <button
+                  key={o.key}
+                  onClick={() => (group.set as (v: string) => void)(o.key)}
+                  className={`px-3 py-1 text-[10px] font-black uppercase rounded-lg transition-all ${group.value === o.key ? 'bg-emerald-600 text-white' : 'text-gray-500 hover:text-gray-300'}`}
+                >
+                  {o.label}
+                </button>
+              ))}
+            </div>
+          ))}
+          <ExportButtons fileName={`Coortes ${sourceLabel}`} getTable={getExportTable} />
+        </div>
+      </div>
+
+      {analysis.cohorts.length === 0 ? (
+        <p className="text-gray-500 text-sm">Sem histórico anual para montar coortes.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-center text-xs text-gray-200">
+            <thead className="bg-gray-950 text-gray-400 uppercase">
+              <tr>
+                <th className="px-3 py-3 text-left">Coorte</th>
+                <th className="px-3 py-3 text-right">Clientes</th>
+                <th className="px-3 py-3 text-right">Receita de Entrada</th>
+                {offsets.map(o => <th key={o} className="px-3 py-3">{o === 0 ? 'Entrada' : `Ano +${o}`}</th>)}
+              </tr>
+            </thead>
+            <tbody>
+              {analysis.cohorts.map(c => (
+                <tr key={c.year} className="border-b border-gray-800">
+                  <td className="px-3 py-2 text-left font-black">{c.year}</td>
+                  <td className="px-3 py-2 text-right font-mono">{c.clientes}</td>
+                  <td className="px-3 py-2 text-right font-mono text-gray-400">{formatBRL(c.receitaInicial)}</td>
+                  {offsets.map(o => {
+                    const p = c.periods[o];
+                    if (!p) return <td key={o} className="px-3 py-2"></td>;
+                    return (
+                      <td key={o} className="px-1 py-1" title={cellTitle(p)}>
+                        <div className="rounded-md py-2 font-mono font-bold" style={{ backgroundColor: heatColor(p[metric]) }}>
+                          {p[metric].toFixed(0)}%
+                          <span className="block text-[9px] font-normal text-gray-300">{p.ativos}/{c.clientes}</span>
+                        </div>
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </section>
+  );
+};
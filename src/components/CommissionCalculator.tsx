@@ -0,0 +1,220 @@
+import React, { useEffect, useState } from 'react';
+import { COMMISSION_TYPES, CommissionStatement, CommissionType, parseCommissionBands } from '../kpi';
+import { ExportButtons } from './ExportButtons';
+
+const formatBRL = (value: number): string =>
+  new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL', minimumFractionDigits: 2 }).format(value || 0);
+
+const formatRate = (value: number) => `${value.toLocaleString('pt-BR', { maximumFractionDigits: 2 })}%`;
+
+const parseInput = (value: string) => {
+  const num = parseFloat(value.replace(',', '.'));
+  return Number.isFinite(num) && num >= 0 ? num : 0;
+};
+
+// Campo com rascunho local: a alteração só vai para a planilha (e para a auditoria) ao sair do campo.
+const PlanField = ({ label, value, onCommit, placeholder, wide }: {
+  label: string,
+  value: string,
+  onCommit: (value: string) => void,
+  placeholder?: string,
+  wide?: boolean
+}) => {
+  const [draft, setDraft] = useState(value);
+  useEffect(() => setDraft(value), [value]);
+  return (
+    <label className={`flex flex-col gap-1 ${wide ? 'flex-1 min-w-[220px]' : ''}`}>
+      <span className="text-[9px] text-gray-500 font-bold uppercase">{label}</span>
+      <input
+        value={draft}
+        placeholder={placeholder}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={() => draft !== value && onCommit(draft)}
+        onKeyDown={(e) => e.key === 'Enter' && (e.target as HTMLInputElement).blur()}
+        className={`${wide ? 'w-full' : 'w-24'} bg-gray-800 text-xs px-2 py-1.5 border border-gray-700 rounded text-white font-mono`}
+      />
+    </label>
+  );
+};
+
+const describePlan = (s: CommissionStatement) => {
+  const { plan } = s;
+  const base = plan.tipo === 'fixa'
+    ? formatRate(plan.taxa)
+    : plan.faixas.length > 0 ? plan.faixas.map(b => `≥${b.from}%: ${formatRate(b.rate)}`).join(' · ') : 'sem faixas';
+  return [
+    base,
+    plan.acelerador > 0 ? `acelerador +${formatRate(plan.acelerador)}` : null,
+    plan.bonusTrimestral > 0 ? `bônus ${formatBRL(plan.bonusTrimestral)}/tri` : null,
+  ].filter(Boolean).join(' · ');
+};
+
+/**
+ * Comissões e remuneração variável: resumo por vendedor, edição do plano (gravado na
+ * Configuração de Vendedores do ano) e extrato mensal exportável para a folha.
+ */
+export const CommissionCalculator = ({ year, statements, config, onConfigChange }: {
+  year: string,
+  statements: CommissionStatement[],
+  config: any[],
+  onConfigChange: (rows: any[], label: string) => void
+}) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const selected = statements.find(s => s.id === selectedId) || statements[0] || null;
+  const sellerRow = config.find((c: any) => c.id === selected?.id);
+  const lastMonth = selected?.months[selected.months.length - 1]?.month;
+  const bandsText = String(sellerRow?.comissaoFaixas ?? '');
+  const invalidBands = parseCommissionBands(bandsText).invalid;
+
+  const updatePlan = (field: string, value: any) => {
+    if (!selected) return;
+    onConfigChange(
+      config.map((c: any) => (c.id === selected.id ? { ...c, [field]: value } : c)),
+      `Plano de comissão de ${selected.label}`
+    );
+  };
+
+  const getSummaryTable = () => ({
+    columns: [
+      { key: 'label', label: 'Vendedor' },
+      { key: 'plano', label: 'Plano' },
+      { key: 'totalMes', label: `Comissão ${lastMonth || ''} (R$)`, kind: 'currency' as const },
+      { key: 'totalAno', label: 'Acumulado no Ano (R$)', kind: 'currency' as const },
+    ],
+    rows: statements.map(s => ({ label: s.label, plano: describePlan(s), totalMes: s.totalMes, totalAno: s.totalAno })),
+  });
+
+  const getStatementTable = () => ({
+    columns: [
+      { key: 'month', label: 'Mês' },
+      { key: 'realizado', label: 'Realizado (R$)', kind: 'currency' as const },
+      { key: 'meta', label: 'Meta (R$)', kind: 'currency' as const },
+      { key: 'atingimento', label: 'Atingimento', kind: 'percent' as const },
+      { key: 'taxa', label: 'Taxa', kind: 'percent' as const },
+      { key: 'base', label: 'Comissão (R$)', kind: 'currency' as const },
+      { key: 'acelerador', label: 'Excedente c/ Acelerador (R$)', kind: 'currency' as const },
+      { key: 'bonus', label: 'Bônus Trimestral (R$)', kind: 'currency' as const },
+      { key: 'total', label: 'Total do Mês (R$)', kind: 'currency' as const },
+      { key: 'acumulado', label: 'Acumulado (R$)', kind: 'currency' as const },
+    ],
+    rows: selected?.months || [],
+  });
+
+  const totalAno = statements.reduce((acc, s) => acc + s.totalAno, 0);
+  const totalMes = statements.reduce((acc, s) => acc + s.totalMes, 0);
+
+  return (
+    <div className="space-y-6">
+      <section className="bg-gray-900 p-6 rounded-2xl border border-gray-800 space-y-5">
+        <div className="flex flex-col md:flex-row justify-between md:items-center gap-4">
+          <div>
+            <h2 className="text-white font-black italic uppercase text-xl">Comissões {year}</h2>
+            <p className="text-gray-500 text-xs">
+              {lastMonth
+                ? <>Fechamento de {lastMonth}: <span className="text-emerald-400 font-bold">{formatBRL(totalMes)}</span> no mês, {formatBRL(totalAno)} no ano.</>
+                : `Nenhum mês de ${year} foi lançado ainda.`}
+            </p>
+          </div>
+          <ExportButtons fileName={`Comissões ${year}`} getTable={getSummaryTable} />
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-4">
+          {statements.map(s => (
+            <button
+              key={s.id}
+              onClick={() => setSelectedId(s.id)}
+              className={`text-left bg-[#0d1117] p-4 rounded-xl border transition-all ${selected?.id === s.id ? 'border-white/40' : 'border-gray-800 hover:border-gray-600'}`}
+            >
+              <p className="font-black italic uppercase text-sm" style={{ color: s.color }}>{s.label}</p>
+              <p className="text-[10px] text-gray-500 mt-1 min-h-[28px]">{describePlan(s)}</p>
+              <div className="flex justify-between mt-3">
+                <div>
+                  <p className="text-[8px] text-gray-500 font-bold uppercase">{lastMonth || 'Mês'}</p>
+                  <p className="text-sm font-black text-white font-mono">{formatBRL(s.totalMes)}</p>
+                </div>
+                <div className="text-right">
+                  <p className="text-[8px] text-gray-500 font-bold uppercase">No ano</p>
+                  <p className="text-sm font-black text-emerald-400 font-mono">{formatBRL(s.totalAno)}</p>
+                </div>
+              </div>
+            </button>
+          ))}
+        </div>
+      </section>
+
+      {selected && (
+        <section className="bg-gray-900 p-6 rounded-2xl border border-gray-800 space-y-5">
+          <div className="flex flex-col md:flex-row justify-between md:items-center gap-4">
+            <h2 className="font-black italic uppercase text-lg" style={{ color: selected.color }}>Extrato de {selected.label}</h2>
+            <ExportButtons fileName={`Extrato de Comissão ${selected.label} ${year}`} getTable={getStatementTable} />
+          </div>
+
+          <div className="flex flex-wrap items-end gap-4 bg-gray-950 p-4 rounded-xl border border-gray-800">
+            <div className="flex flex-col gap-1">
+              <span className="text-[9px] text-gray-500 font-bold uppercase">Tipo</span>
+              <div className="flex gap-1.5 bg-gray-900 p-1 rounded-lg border border-gray-800">
+                {COMMISSION_TYPES.map(t => (
+                  <button
+                    key={t.key}
+                    onClick={() => selected.plan.tipo !== t.key && updatePlan('comissaoTipo', t.key as CommissionType)}
+                    className={`px-3 py-1 text-[10px] font-black uppercase rounded transition-all ${selected.plan.tipo === t.key ? 'bg-emerald-600 text-white' : 'text-gray-500 hover:text-gray-300'}`}
+                  >
+                    {t.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+            {selected.plan.tipo === 'fixa' ? (
+              <PlanField label="Taxa (%)" value={String(selected.plan.taxa).replace('.', ',')} onCommit={(v) => updatePlan('comissaoTaxa', parseInput(v))} />
+            ) : (
+              <PlanField label="Faixas (atingimento%:taxa%)" value={bandsText} placeholder="80:1; 100:2; 120:3" onCommit={(v) => updatePlan('comissaoFaixas', v.trim())} wide />
+            )}
+            <PlanField label="Acelerador >100% (%)" value={String(selected.plan.acelerador).replace('.', ',')} onCommit={(v) => updatePlan('acelerador', parseInput(v))} />
+            <PlanField label="Bônus Trimestral (R$)" value={String(selected.plan.bonusTrimestral).replace('.', ',')} onCommit={(v) => updatePlan('bonusTrimestral', parseInput(v))} />
+          </div>
+          {selected.plan.tipo === 'faixas' && invalidBands.length > 0 && (
+            <p className="text-xs text-red-400">Faixas ignoradas por estarem fora do formato: {invalidBands.join(', ')}</p>
+          )}
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-right text-xs text-gray-300">
+              <thead className="bg-gray-950 text-gray-400 uppercase">
+                <tr>
+                  <th className="px-3 py-3 text-left">Mês</th>
+                  <th className="px-3 py-3">Realizado</th>
+                  <th className="px-3 py-3">Meta</th>
+                  <th className="px-3 py-3">Ating.</th>
+                  <th className="px-3 py-3">Taxa</th>
+                  <th className="px-3 py-3">Comissão</th>
+                  <th className="px-3 py-3">Excedente</th>
+                  <th className="px-3 py-3">Bônus Tri.</th>
+                  <th className="px-3 py-3">Total</th>
+                  <th className="px-3 py-3">Acumulado</th>
+                </tr>
+              </thead>
+              <tbody>
+                {selected.months.map(m => (
+                  <tr key={m.month} className="border-b border-gray-800">
+                    <td className="px-3 py-2 text-left font-bold">{m.month}</td>
+                    <td className="px-3 py-2 font-mono">{formatBRL(m.realizado)}</td>
+                    <td className="px-3 py-2 font-mono text-gray-500">{formatBRL(m.meta)}</td>
+                    <td className={`px-3 py-2 font-mono font-bold ${m.atingimento >= 100 ? 'text-emerald-400' : 'text-gray-400'}`}>{m.atingimento.toFixed(1)}%</td>
+                    <td className="px-3 py-2 font-mono">{formatRate(m.taxa)}</td>
+                    <td className="px-3 py-2 font-mono">{formatBRL(m.base)}</td>
+                    <td className="px-3 py-2 font-mono text-amber-300">{m.acelerador > 0 ? formatBRL(m.acelerador) : '—'}</td>
+                    <td className="px-3 py-2 font-mono text-blue-300">{m.bonus > 0 ? formatBRL(m.bonus) : '—'}</td>
+                    <td className="px-3 py-2 font-mono font-black text-white">{formatBRL(m.total)}</td>
+                    <td className="px-3 py-2 font-mono text-emerald-400">{formatBRL(m.acumulado)}</td>
+                  </tr>
+                ))}
+                {selected.months.length === 0 && (
+                  <tr><td colSpan={10} className="px-3 py-6 text-center text-gray-500">Sem meses fechados em {year}.</td></tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </section>
+      )}
+    </div>
+  );
+};
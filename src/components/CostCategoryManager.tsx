@@ -0,0 +1,130 @@
+import React, { useEffect, useState } from 'react';
+import { COST_CATEGORY_TYPES, COST_CATEGORY_TYPE_LABELS, CostCategory, CostCategoryType, costCategoryKey, costCategoryMetaKey } from '../kpi';
+
+const LabelField = ({ value, onCommit }: { value: string, onCommit: (value: string) => void }) => {
+  const [draft, setDraft] = useState(value);
+  useEffect(() => setDraft(value), [value]);
+  return (
+    <input
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={() => (draft.trim() && draft.trim() !== value ? onCommit(draft.trim()) : setDraft(value))}
+      onKeyDown={(e) => e.key === 'Enter' && (e.target as HTMLInputElement).blur()}
+      className="w-full bg-gray-800 text-xs px-2 py-1.5 border border-gray-700 rounded text-white font-bold"
+    />
+  );
+};
+
+const TypeSelect = ({ value, onChange }: { value: CostCategoryType, onChange: (value: CostCategoryType) => void }) => (
+  <select
+    value={value}
+    onChange={(e) => onChange(e.target.value as CostCategoryType)}
+    className="bg-gray-800 text-xs px-2 py-1.5 border border-gray-700 rounded text-white font-bold"
+  >
+    {COST_CATEGORY_TYPES.map(t => <option key={t} value={t}>{COST_CATEGORY_TYPE_LABELS[t]}</option>)}
+  </select>
+);
+
+/**
+ * Cadastro das categorias da planilha de custos. Cada mudança chega ao Banco de Dados junto com
+ * as colunas correspondentes, para que todos os indicadores passem a considerá-la.
+ */
+export const CostCategoryManager = ({ categories, onChange }: {
+  categories: CostCategory[],
+  onChange: (next: CostCategory[], label: string) => void
+}) => {
+  const [label, setLabel] = useState('');
+  const [tipo, setTipo] = useState<CostCategoryType>('fornecedor');
+  const [comMeta, setComMeta] = useState(false);
+
+  const update = (key: string, patch: Partial<CostCategory>, description: string) =>
+    onChange(categories.map(c => (c.key === key ? { ...c, ...patch } : c)), description);
+
+  const add = () => {
+    const name = label.trim();
+    if (!name) return;
+    if (categories.some(c => c.label.toLowerCase() === name.toLowerCase())) {
+      alert(`Já existe uma categoria "${name}".`);
+      return;
+    }
+    const key = costCategoryKey(name, categories);
+    onChange([...categories, { key, label: name, tipo, metaKey: comMeta ? costCategoryMetaKey(key) : '' }], `Adicionou a categoria "${name}"`);
+    setLabel('');
+    setComMeta(false);
+  };
+
+  const remove = (c: CostCategory) => {
+    if (!confirm(`Remover "${c.label}"? As colunas da categoria saem da planilha de custos de todos os anos (Ctrl+Z desfaz).`)) return;
+    onChange(categories.filter(cat => cat.key !== c.key), `Removeu a categoria "${c.label}"`);
+  };
+
+  const toggleMeta = (c: CostCategory) => {
+    if (c.metaKey) {
+      if (!confirm(`Desativar a meta mensal de "${c.label}"? As metas lançadas em todos os anos serão apagadas (Ctrl+Z desfaz).`)) return;
+      update(c.key, { metaKey: '' }, `Desativou a meta de "${c.label}"`);
+    } else {
+      update(c.key, { metaKey: costCategoryMetaKey(c.key) }, `Ativou a meta de "${c.label}"`);
+    }
+  };
+
+  return (
+    <div className="bg-gray-900 border border-gray-800 rounded-xl overflow-hidden shadow-xl">
+      <div className="p-4 border-b border-gray-800">
+        <h3 className="text-white font-bold text-base italic">Categorias de Custo</h3>
+        <p className="text-gray-500 text-xs mt-1">
+          Fornecedores, transportadoras e outros custos lançados na planilha de custos. Categorias novas ganham uma coluna zerada em todos os anos
+          e entram no custo geral, nos totais por tipo, na rentabilidade, no simulador e no relatório de fechamento.
+        </p>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full text-left text-sm text-gray-300">
+          <thead className="bg-[#1f2937] text-gray-400 text-xs uppercase font-bold">
+            <tr>
+              <th className="px-4 py-3">Nome</th>
+              <th className="px-4 py-3">Tipo</th>
+              <th className="px-4 py-3">Coluna</th>
+              <th className="px-4 py-3 text-center">Meta Mensal</th>
+              <th className="px-4 py-3"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {categories.map(c => (
+              <tr key={c.key} className="border-b border-gray-800">
+                <td className="px-4 py-2 min-w-[200px]"><LabelField value={c.label} onCommit={(v) => update(c.key, { label: v }, `Renomeou "${c.label}" para "${v}"`)} /></td>
+                <td className="px-4 py-2"><TypeSelect value={c.tipo} onChange={(t) => update(c.key, { tipo: t }, `Alterou o tipo de "${c.label}"`)} /></td>
+                <td className="px-4 py-2 font-mono text-xs text-gray-500">{c.key}{c.metaKey ? ` · ${c.metaKey}` : ''}</td>
+                <td className="px-4 py-2 text-center">
+                  <input type="checkbox" checked={!!c.metaKey} onChange={() => toggleMeta(c)} className="accent-emerald-500" />
+                </td>
+                <td className="px-4 py-2 text-right">
+                  <button onClick={() => remove(c)} className="text-red-400 hover:text-red-300 text-xs font-bold" title={`Remover ${c.label}`}>✕</button>
+                </td>
+              </tr>
+            ))}
+            <tr className="bg-gray-950/50">
+              <td className="px-4 py-2">
+                <input
+                  value={label}
+                  placeholder="Novo fornecedor ou transportadora"
+                  onChange={(e) => setLabel(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && add()}
+                  className="w-full bg-gray-800 text-xs px-2 py-1.5 border border-gray-700 rounded text-white"
+                />
+              </td>
+              <td className="px-4 py-2"><TypeSelect value={tipo} onChange={setTipo} /></td>
+              <td className="px-4 py-2 font-mono text-xs text-gray-600">{label.trim() ? costCategoryKey(label.trim(), categories) : ''}</td>
+              <td className="px-4 py-2 text-center">
+                <input type="checkbox" checked={comMeta} onChange={(e) => setComMeta(e.target.checked)} className="accent-emerald-500" />
+              </td>
+              <td className="px-4 py-2 text-right">
+                <button onClick={add} disabled={!label.trim()} className="bg-emerald-600 hover:bg-emerald-500 disabled:opacity-30 text-white text-xs font-bold px-3 py-1.5 rounded">
+                  + Adicionar
+                </button>
+              </td>
+            </tr>
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
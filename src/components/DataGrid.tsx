@@ -1,60 +1,139 @@
 import React, { useState } from 'react';
+import { SpreadsheetImport } from './SpreadsheetImport';
+import { ExportButtons } from './ExportButtons';
+import { ExportColumn } from '../../utils/spreadsheet';
+import { ColumnSchema, SheetSchema, resolveColumn, isNumericType, formatCell, toEditText, parseCell, validateCell, defaultValue } from '../sheetSchemas';
 
-export const DataGrid = ({ data, setData, title, onSave }: { data: any[], setData: (data: any[]) => void, title: string, onSave?: () => void }) => {
+const EXPORT_KIND: Record<ColumnSchema['type'], ExportColumn['kind']> = {
+  text: 'text', enum: 'text', color: 'text',
+  currency: 'currency', percent: 'percent', integer: 'number', year: 'number',
+};
+
+// `isRowLocked` marca linhas só de leitura (ex.: meses bloqueados no fechamento de períodos).
+export const DataGrid = ({ data, setData, title, onSave, schema, isRowLocked }: { data: any[], setData: (data: any[], description?: string) => void, title: string, onSave?: () => void, schema?: SheetSchema, isRowLocked?: (row: any) => boolean }) => {
   const [newColumnName, setNewColumnName] = useState('');
+  const [showImport, setShowImport] = useState(false);
+  // Texto em edição por célula ("linha:coluna"), para digitar livremente antes de formatar.
+  const [drafts, setDrafts] = useState<Record<string, { text: string, error: string | null }>>({});
 
   if (!data || data.length === 0) return <div>Sem dados</div>;
 
   const columns = Array.from(new Set(data.flatMap(d => Object.keys(d))));
+  const columnSchemas: Record<string, ColumnSchema> = columns.reduce((acc, col) => ({
+    ...acc,
+    [col]: resolveColumn(schema, col, data.find(d => d[col] !== undefined && d[col] !== '')?.[col])
+  }), {});
 
-  const handleCellChange = (rowIndex: number, col: string, value: string) => {
+  const commitValue = (rowIndex: number, col: string, value: any) => {
     const newData = [...data];
-    let parsedValue: any = value;
-    if (col !== 'id' && col !== 'nome' && col !== 'month' && col !== 'mes' && col !== 'trimestre' && col !== 'cidade' && col !== 'ano' && col !== 'color' && col !== 'label') {
-        const rawValue = value.replace(/[R$\s.]/g, '').replace(',', '.');
-        const num = parseFloat(rawValue);
-        if (!isNaN(num)) {
-            parsedValue = num;
-        } else if (value === '' || value.includes('R$')) {
-            parsedValue = 0;
-        }
-    }
-    newData[rowIndex] = { ...newData[rowIndex], [col]: parsedValue };
-    setData(newData);
+    newData[rowIndex] = { ...newData[rowIndex], [col]: value };
+    setData(newData, `Editou "${columnSchemas[col].label}" (linha ${rowIndex + 1})`);
+  };
+
+  const handleCellChange = (rowIndex: number, col: string, text: string) => {
+    const { value, error } = parseCell(columnSchemas[col], text);
+    setDrafts(prev => ({ ...prev, [`${rowIndex}:${col}`]: { text, error } }));
+    if (!error && value !== data[rowIndex][col]) commitValue(rowIndex, col, value);
+  };
+
+  const startEditing = (rowIndex: number, col: string) => {
+    const key = `${rowIndex}:${col}`;
+    setDrafts(prev => ({ ...prev, [key]: { text: toEditText(columnSchemas[col], data[rowIndex][col]), error: null } }));
+  };
+
+  const stopEditing = (rowIndex: number, col: string) => {
+    setDrafts(prev => {
+      const next = { ...prev };
+      delete next[`${rowIndex}:${col}`];
+      return next;
+    });
   };
 
-  const formatCellValue = (col: string, val: any) => {
-      if (col !== 'id' && col !== 'nome' && col !== 'month' && col !== 'mes' && col !== 'trimestre' && col !== 'cidade' && col !== 'ano' && col !== 'color' && col !== 'label') {
-          if (typeof val === 'number') {
-              return new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL', minimumFractionDigits: 2 }).format(val);
-          }
-      }
-      return val !== undefined ? val : '';
-  }
+  const renderEditor = (row: any, rowIndex: number, col: string) => {
+    const column = columnSchemas[col];
+    const draft = drafts[`${rowIndex}:${col}`];
+    const error = draft ? draft.error : validateCell(column, row[col]);
+    const inputClass = `bg-gray-950 border ${error ? 'border-red-500' : 'border-gray-700'} rounded px-2 py-1 w-full text-sm focus:ring-1 focus:ring-blue-500 outline-none`;
+
+    let editor: React.ReactNode;
+    if (column.type === 'enum') {
+      const options = column.options || [];
+      editor = (
+        <select value={row[col] ?? ''} onChange={(e) => commitValue(rowIndex, col, e.target.value)} className={inputClass}>
+          {!options.includes(row[col]) && <option value={row[col] ?? ''}>{row[col] || '—'}</option>}
+          {options.map(o => <option key={o} value={o}>{o}</option>)}
+        </select>
+      );
+    } else if (column.type === 'color') {
+      editor = (
+        <div className="flex items-center gap-1">
+          <input type="color" value={/^#[0-9a-f]{6}$/i.test(row[col]) ? row[col] : '#000000'} onChange={(e) => commitValue(rowIndex, col, e.target.value)} className="h-7 w-8 bg-transparent cursor-pointer" />
+          <input
+            type="text"
+            value={draft ? draft.text : (row[col] ?? '')}
+            onFocus={() => startEditing(rowIndex, col)}
+            onChange={(e) => handleCellChange(rowIndex, col, e.target.value)}
+            onBlur={() => stopEditing(rowIndex, col)}
+            className={inputClass}
+          />
+        </div>
+      );
+    } else {
+      editor = (
+        <input
+          type="text"
+          inputMode={isNumericType(column.type) ? 'decimal' : undefined}
+          value={draft ? draft.text : formatCell(column, row[col])}
+          onFocus={() => startEditing(rowIndex, col)}
+          onChange={(e) => handleCellChange(rowIndex, col, e.target.value)}
+          onBlur={() => stopEditing(rowIndex, col)}
+          className={`${inputClass} ${isNumericType(column.type) ? 'text-right font-mono' : ''}`}
+        />
+      );
+    }
+
+    return (
+      <>
+        {editor}
+        {error && <p className="text-[10px] text-red-400 mt-0.5 whitespace-nowrap">{error}</p>}
+      </>
+    );
+  };
 
   const handleAddRow = () => {
-    const newRow = columns.reduce((acc, col) => ({ ...acc, [col]: '' }), {});
-    setData([...data, newRow]);
+    const newRow = columns.reduce((acc, col) => ({ ...acc, [col]: defaultValue(columnSchemas[col]) }), {});
+    setData([...data, newRow], 'Adicionou linha');
   };
 
   const handleDeleteRow = (rowIndex: number) => {
-    setData(data.filter((_, i) => i !== rowIndex));
+    setData(data.filter((_, i) => i !== rowIndex), `Excluiu linha ${rowIndex + 1}`);
   };
 
   const handleAddColumn = () => {
     if (!newColumnName) return;
     const newData = data.map(d => ({ ...d, [newColumnName]: 0 }));
-    setData(newData);
+    setData(newData, `Adicionou coluna "${newColumnName}"`);
     setNewColumnName('');
   };
 
+  const exportColumns: ExportColumn[] = columns.map(col => ({
+    key: col,
+    label: columnSchemas[col].label,
+    kind: EXPORT_KIND[columnSchemas[col].type],
+  }));
+
+  const handleImport = (rows: any[], mode: 'append' | 'replace') => {
+    setData(mode === 'append' ? [...data, ...rows] : rows, `Importou ${rows.length} linhas (${mode === 'append' ? 'acrescentadas' : 'substituição'})`);
+  };
+
   const handleDeleteColumn = (colToRemove: string) => {
+    if (!confirm(`Excluir a coluna "${colToRemove}" de todas as ${data.length} linhas? Os painéis que usam essa coluna serão afetados.`)) return;
     const newData = data.map(d => {
       const newD = { ...d };
       delete newD[colToRemove];
       return newD;
     });
-    setData(newData);
+    setData(newData, `Excluiu coluna "${colToRemove}"`);
   };
 
   return (
@@ -72,15 +151,22 @@ export const DataGrid = ({ data, setData, title, onSave }: { data: any[], setDat
             <button onClick={handleAddColumn} className="bg-blue-600 hover:bg-blue-700 text-white text-xs px-3 py-1 rounded font-bold">
               + Coluna
             </button>
+            <button onClick={() => setShowImport(!showImport)} className="bg-gray-800 hover:bg-gray-700 text-white text-xs px-3 py-1 rounded font-bold border border-gray-700">
+              ⬆ Importar
+            </button>
+            <ExportButtons fileName={title.replace(/^Planilha:\s*/, '')} getTable={() => ({ columns: exportColumns, rows: data })} />
         </div>
       </div>
+      {showImport && (
+        <SpreadsheetImport columns={columns.map(col => columnSchemas[col])} onImport={handleImport} onClose={() => setShowImport(false)} />
+      )}
       <div className="overflow-x-auto">
         <table className="w-full text-left text-sm text-gray-300">
           <thead className="bg-gray-950 text-gray-400 text-xs uppercase">
             <tr>
               {columns.map(col => (
-                <th key={col} className="px-4 py-3 group relative whitespace-nowrap">
-                  {col}
+                <th key={col} className="px-4 py-3 group relative whitespace-nowrap" title={`${col} (${columnSchemas[col].type})`}>
+                  {columnSchemas[col].label}
                   <button 
                     onClick={() => handleDeleteColumn(col)} 
                     className="ml-2 text-red-500 opacity-0 group-hover:opacity-100 transition-opacity"
@@ -94,25 +180,29 @@ export const DataGrid = ({ data, setData, title, onSave }: { data: any[], setDat
             </tr>
           </thead>
           <tbody>
-            {data.map((row, rowIndex) => (
-              <tr key={rowIndex} className="border-b border-gray-800 hover:bg-gray-800/30">
-                {columns.map(col => (
-                  <td key={col} className="px-2 py-2">
-                    <input
-                      type="text"
-                      value={formatCellValue(col, row[col])}
-                      onChange={(e) => handleCellChange(rowIndex, col, e.target.value)}
-                      className="bg-gray-950 border border-gray-700 rounded px-2 py-1 w-full text-sm focus:ring-1 focus:ring-blue-500 outline-none"
-                    />
+            {data.map((row, rowIndex) => {
+              const locked = !!isRowLocked?.(row);
+              return (
+                <tr key={rowIndex} className={`border-b border-gray-800 ${locked ? 'bg-gray-950/60 text-gray-500' : 'hover:bg-gray-800/30'}`}>
+                  {columns.map(col => (
+                    <td key={col} className="px-2 py-2 align-top">
+                      {locked ? (
+                        <span className={`block px-2 py-1 text-sm ${isNumericType(columnSchemas[col].type) ? 'text-right font-mono' : ''}`}>{formatCell(columnSchemas[col], row[col])}</span>
+                      ) : renderEditor(row, rowIndex, col)}
+                    </td>
+                  ))}
+                  <td className="px-2 py-2 text-center">
+                    {locked ? (
+                      <span className="text-xs px-2 py-1" title="Mês bloqueado no fechamento de períodos">🔒</span>
+                    ) : (
+                      <button onClick={() => handleDeleteRow(rowIndex)} className="text-red-500 hover:text-red-400 text-xs font-bold px-2 py-1">
+                        Excluir
+                      </button>
+                    )}
                   </td>
-                ))}
-                <td className="px-2 py-2 text-center">
-                  <button onClick={() => handleDeleteRow(rowIndex)} className="text-red-500 hover:text-red-400 text-xs font-bold px-2 py-1">
-                    Excluir
-                  </button>
-                </td>
-              </tr>
-            ))}
+                </tr>
+              );
+            })}
           </tbody>
         </table>
       </div>
@@ -1,15 +1,118 @@
-import React, { useState } from 'react';
+import React, { useEffect } from 'react';
 import { DataGrid } from './DataGrid';
+import { WorkspaceBackupPanel } from './WorkspaceBackupPanel';
+import { EditHistoryPanel } from './EditHistoryPanel';
+import { Workspace, WORKSPACE_FIELDS, WORKSPACE_LABELS, WorkspaceField } from '../storage/backup';
+import { EditHistory } from '../hooks/useEditHistory';
+import { AuditLog } from '../hooks/useAuditLog';
+import { CostCategoryManager } from './CostCategoryManager';
+import { PeriodClosePanel } from './PeriodClosePanel';
+import { CommitmentPerc } from './SupplierCommitment';
+import { SHEET_SCHEMAS, custosSchema } from '../sheetSchemas';
+import {
+    CostCategory, categoryCost, categoryTarget, portfolioYears, syncCostColumns, removedColumnValues,
+    PeriodRow, closedMonthCount, lockedChanges, lockedEditMessage, lockedMonths, openPeriods, PERIOD_LOCKED_FIELDS, protectLockedMonths,
+} from '../kpi';
 
 export const DatabaseManager = ({ 
-    vendedoresConfig, setVendedoresConfig,
-    metas, setMetas, 
-    vendedorData, setVendedorData,
-    custos, setCustos,
+    selectedYear,
+    vendedoresConfigByYear, setVendedoresConfigByYear,
+    metasByYear, setMetasByYear,
+    vendedorDataByYear, setVendedorDataByYear,
+    metasVendedoresByYear, setMetasVendedoresByYear,
+    custosByYear, setCustosByYear,
+    categoriasCusto, setCategoriasCusto,
+    periodosByYear, setPeriodosByYear,
     quarterlyHistory, setQuarterlyHistory,
     gestaoTop20, setGestaoTop20,
-    handleSave
+    carteira, setCarteira,
+    statusThresholds, setStatusThresholds,
+    abcXyzSettings, setAbcXyzSettings,
+    handleSave,
+    history,
+    audit
 }: any) => {
+    const { record, undo, redo } = history as EditHistory;
+    const { record: recordAudit } = audit as AuditLog;
+
+    useEffect(() => {
+        const onKeyDown = (e: KeyboardEvent) => {
+            if (!(e.ctrlKey || e.metaKey)) return;
+            // Dentro de campos de texto o atalho desfaz a digitação, não a planilha.
+            const target = e.target as HTMLElement | null;
+            if (target && (['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName) || target.isContentEditable)) return;
+            const key = e.key.toLowerCase();
+            if (key === 'z' && !e.shiftKey) {
+                e.preventDefault();
+                undo();
+            } else if (key === 'y' || (key === 'z' && e.shiftKey)) {
+                e.preventDefault();
+                redo();
+            }
+        };
+        window.addEventListener('keydown', onKeyDown);
+        return () => window.removeEventListener('keydown', onKeyDown);
+    }, [undo, redo]);
+
+    const workspace: Workspace = {
+        metas: metasByYear,
+        vendedoresConfig: vendedoresConfigByYear,
+        vendedorData: vendedorDataByYear,
+        metasVendedores: metasVendedoresByYear,
+        custos: custosByYear,
+        categoriasCusto,
+        periodos: periodosByYear,
+        quarterlyHistory,
+        gestaoTop20,
+        carteira,
+        statusThresholds,
+        abcXyz: abcXyzSettings,
+    };
+    const custos = custosByYear[selectedYear] || [];
+    const periodos: PeriodRow[] = periodosByYear[selectedYear] || openPeriods();
+    const closedMonths = closedMonthCount(periodos);
+    const bloqueados = lockedMonths(periodos);
+    const isRowLocked = (row: any) => bloqueados.includes(String(row.month ?? row.mes));
+    const categoriasComMeta = (categoriasCusto as CostCategory[]).filter(c => c.metaKey);
+
+    // Envolve o setter de um dataset para registrar a alteração no histórico de desfazer e na auditoria.
+    const tracked = (field: WorkspaceField, setter: (value: any) => void, sheet = WORKSPACE_LABELS[field]) => (next: any, label = 'Alteração') => {
+        record(sheet, label, [{ dataset: WORKSPACE_FIELDS[field], before: workspace[field], after: next }]);
+        recordAudit(field, workspace[field], next, label);
+        setter(next);
+    };
+
+    // Mudanças no registro de categorias levam junto as colunas da planilha de custos de todos os anos.
+    // Meses bloqueados ficam como estão, e uma coluna com valor neles não pode ser removida.
+    const changeCategorias = (next: CostCategory[], label: string) => {
+        const locked = Object.fromEntries(Object.entries(periodosByYear as Record<string, PeriodRow[]>).map(([year, rows]) => [year, lockedMonths(rows)]));
+        const comValor = removedColumnValues(custosByYear, categoriasCusto, next, locked);
+        if (comValor.length > 0) {
+            alert(`Não foi possível: a coluna removida tem valores lançados. ${lockedEditMessage(comValor)}`);
+            return;
+        }
+        const nextCustos = syncCostColumns(custosByYear, categoriasCusto, next, locked);
+        record(WORKSPACE_LABELS.categoriasCusto, label, [
+            { dataset: WORKSPACE_FIELDS.categoriasCusto, before: categoriasCusto, after: next },
+            { dataset: WORKSPACE_FIELDS.custos, before: custosByYear, after: nextCustos },
+        ]);
+        recordAudit('categoriasCusto', categoriasCusto, next, label);
+        recordAudit('custos', custosByYear, nextCustos, label);
+        setCategoriasCusto(next);
+        setCustosByYear(nextCustos);
+    };
+
+    // Planilhas mensais editam só as linhas do ano selecionado; o histórico guarda o dataset inteiro.
+    // Nos datasets mensais, linhas de meses bloqueados não podem mudar.
+    const trackedYear = (field: WorkspaceField, setter: (value: any) => void) => (rows: any[], label?: string) => {
+        const next = { ...workspace[field], [selectedYear]: rows };
+        const locked = PERIOD_LOCKED_FIELDS.includes(field) ? lockedChanges(workspace[field], next, periodosByYear) : [];
+        if (locked.length > 0) {
+            alert(lockedEditMessage(locked));
+            return;
+        }
+        tracked(field, setter, `${WORKSPACE_LABELS[field]} ${selectedYear}`)(next, label);
+    };
 
     const flattenedTop20 = gestaoTop20.clientes.map((c: any) => ({
         id: c.id,
@@ -28,7 +131,7 @@ export const DatabaseManager = ({
         y: c.y || 0
     }));
 
-    const setFlattenedTop20 = (newData: any[]) => {
+    const setFlattenedTop20 = (newData: any[], label?: string) => {
         const unflattened = newData.map(c => ({
             id: c.id,
             nome: c.nome,
@@ -47,7 +150,56 @@ export const DatabaseManager = ({
             x: c.x,
             y: c.y
         }));
-        setGestaoTop20({ ...gestaoTop20, clientes: unflattened });
+        tracked('gestaoTop20', setGestaoTop20)({ ...gestaoTop20, clientes: unflattened }, label);
+    };
+
+    // Faturamento anual da carteira vira uma coluna "Faturamento 2024" por ano.
+    const flattenedCarteira = carteira.map((c: any) => ({
+        id: c.id,
+        name: c.name,
+        salesperson: c.salesperson,
+        billing: c.billing,
+        cost: c.cost,
+        salesCycleDays: c.salesCycleDays,
+        ...Object.fromEntries(portfolioYears(carteira).map(y => [`Faturamento ${y}`, c.yearlyBilling?.[y] || 0])),
+    }));
+
+    const setFlattenedCarteira = (newData: any[], label?: string) => {
+        const unflattened = newData.map(c => ({
+            id: c.id,
+            name: c.name,
+            salesperson: c.salesperson,
+            billing: c.billing,
+            cost: c.cost,
+            salesCycleDays: c.salesCycleDays,
+            yearlyBilling: Object.fromEntries(Object.entries(c)
+                .filter(([k]) => /^Faturamento 20\d\d$/.test(k))
+                .map(([k, v]) => [k.slice(12), v])),
+        }));
+        tracked('carteira', setCarteira)(unflattened, label);
+    };
+
+    const applyWorkspace = (incoming: Workspace) => {
+        // Meses bloqueados não são alterados por importação; só o desbloqueio com motivo os libera.
+        const { data: next, rejected } = protectLockedMonths(workspace, incoming);
+        if (rejected.length > 0) alert(`Backup importado sem alterar os meses bloqueados. ${lockedEditMessage(rejected)}`);
+        const fields = Object.keys(WORKSPACE_FIELDS) as WorkspaceField[];
+        record('Workspace', 'Importou backup', fields
+            .filter(f => next[f] !== workspace[f])
+            .map(f => ({ dataset: WORKSPACE_FIELDS[f], before: workspace[f], after: next[f] })));
+        fields.filter(f => next[f] !== workspace[f]).forEach(f => recordAudit(f, workspace[f], next[f], 'Importou backup'));
+        setMetasByYear(next.metas);
+        setVendedoresConfigByYear(next.vendedoresConfig);
+        setVendedorDataByYear(next.vendedorData);
+        setMetasVendedoresByYear(next.metasVendedores);
+        setCustosByYear(next.custos);
+        setCategoriasCusto(next.categoriasCusto);
+        setPeriodosByYear(next.periodos);
+        setQuarterlyHistory(next.quarterlyHistory);
+        setGestaoTop20(next.gestaoTop20);
+        setCarteira(next.carteira);
+        setStatusThresholds(next.statusThresholds);
+        setAbcXyzSettings(next.abcXyz);
     };
 
     return (
@@ -57,57 +209,62 @@ export const DatabaseManager = ({
             </h2>
             <p className="text-gray-400 text-sm">
                 Edite os dados nativamente no formato de planilha abaixo. Todas as alterações serão refletidas em tempo real nos painéis.
-                Você pode clicar no botão <span className="text-green-400 font-bold">"💾 Salvar Lançamentos"</span> ao final de cada planilha ou no topo para salvar os dados no cache.
+                Metas, vendedores e custos mostrados são os do ano selecionado no cabeçalho ({selectedYear}).
+                As alterações são salvas automaticamente no navegador; o botão <span className="text-green-400 font-bold">"💾 Salvar Lançamentos"</span> ao final de cada planilha força o salvamento imediato.
             </p>
 
-            <DataGrid title="Planilha: Configuração de Vendedores (Campos ID, Label, Meta, Color)" data={vendedoresConfig} setData={setVendedoresConfig} onSave={handleSave} />
-            <DataGrid title="Planilha: Metas Mensais" data={metas} setData={setMetas} onSave={handleSave} />
-            <DataGrid title="Planilha: Lançamentos de Vendedores" data={vendedorData} setData={setVendedorData} onSave={handleSave} />
-            <DataGrid title="Planilha: Custos e Logística" data={custos} setData={setCustos} onSave={handleSave} />
+            <WorkspaceBackupPanel workspace={workspace} onApply={applyWorkspace} />
+            <EditHistoryPanel history={history} />
+            <PeriodClosePanel year={selectedYear} periods={periodos} onChange={(next, label) => trackedYear('periodos', setPeriodosByYear)(next, label)} />
+
+            <DataGrid title={`Planilha: Configuração de Vendedores ${selectedYear} (Campos ID, Label, Meta, Color)`} data={vendedoresConfigByYear[selectedYear] || []} setData={trackedYear('vendedoresConfig', setVendedoresConfigByYear)} schema={SHEET_SCHEMAS.vendedoresConfig} onSave={handleSave} />
+            <DataGrid title={`Planilha: Metas Mensais ${selectedYear}`} data={metasByYear[selectedYear] || []} setData={trackedYear('metas', setMetasByYear)} schema={SHEET_SCHEMAS.metas} isRowLocked={isRowLocked} onSave={handleSave} />
+            <DataGrid title={`Planilha: Lançamentos de Vendedores ${selectedYear}`} data={vendedorDataByYear[selectedYear] || []} setData={trackedYear('vendedorData', setVendedorDataByYear)} schema={SHEET_SCHEMAS.vendedorData} isRowLocked={isRowLocked} onSave={handleSave} />
+            <DataGrid title={`Planilha: Metas Mensais por Vendedor ${selectedYear}`} data={metasVendedoresByYear[selectedYear] || []} setData={trackedYear('metasVendedores', setMetasVendedoresByYear)} schema={SHEET_SCHEMAS.metasVendedores} isRowLocked={isRowLocked} onSave={handleSave} />
+            <CostCategoryManager categories={categoriasCusto} onChange={changeCategorias} />
+            <DataGrid title={`Planilha: Custos e Logística ${selectedYear}`} data={custos} setData={trackedYear('custos', setCustosByYear)} schema={custosSchema(categoriasCusto)} isRowLocked={isRowLocked} onSave={handleSave} />
             
-            <div className="bg-gray-900 border border-gray-800 rounded-xl mt-4 overflow-hidden shadow-xl">
-               <h3 className="text-white font-bold p-4 text-base italic border-b border-gray-800">Desempenho Mensal (Matéria-Prima Camozzi)</h3>
-               <div className="overflow-x-auto">
-                 <table className="w-full text-left text-sm text-gray-400">
-                    <thead className="bg-[#1f2937] text-gray-400 text-xs uppercase font-bold">
-                       <tr>
-                          <th className="px-4 py-3">MÊS</th>
-                          <th className="px-4 py-3">META CAMOZZI</th>
-                          <th className="px-4 py-3">REALIZADO</th>
-                          <th className="px-4 py-3">% ATINGIMENTO</th>
-                       </tr>
-                    </thead>
-                    <tbody>
-                       {custos.map((row: any, i: number) => {
-                          const meta = row.metaCamozzi || 0;
-                          const realizado = row.Camozzi || 0;
-                          let atingimento = "0.00%";
-                          let atingimentoClass = "text-amber-500";
-                          if (meta > 0) {
-                              const perc = (realizado / meta) * 100;
-                              atingimento = perc.toFixed(2) + "%";
-                              if (realizado === 0 && (row.mes !== 'Jan' && row.mes !== 'Fev' && row.mes !== 'Mar' && row.mes !== 'Abr' && row.mes !== 'Mai')) {
-                                  atingimento = "0.00%";
-                                  atingimentoClass = "text-amber-500";
-                              } else {
-                                  atingimentoClass = perc < 50 ? 'text-red-500' : 'text-amber-500';
-                              }
-                          }
-                          return (
-                             <tr key={i} className="border-b border-gray-800 hover:bg-gray-800/50">
-                                <td className="px-4 py-3 font-medium text-white">{row.mes}</td>
-                                <td className="px-4 py-3">{new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(meta)}</td>
-                                <td className="px-4 py-3 text-white">{new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(realizado)}</td>
-                                <td className={`px-4 py-3 font-black ${atingimentoClass}`}>{atingimento}</td>
-                             </tr>
-                          );
-                       })}
-                    </tbody>
-                 </table>
-               </div>
-            </div>
-            <DataGrid title="Planilha: Histórico Trimestral" data={quarterlyHistory} setData={setQuarterlyHistory} onSave={handleSave} />
-            <DataGrid title="Planilha: Gestão Top 20" data={flattenedTop20} setData={setFlattenedTop20} onSave={handleSave} />
+            {categoriasComMeta.map(categoria => (
+              <div key={categoria.key} className="bg-gray-900 border border-gray-800 rounded-xl mt-4 overflow-hidden shadow-xl">
+                 <h3 className="text-white font-bold p-4 text-base italic border-b border-gray-800">Desempenho Mensal ({categoria.label}) — {selectedYear}</h3>
+                 <div className="overflow-x-auto">
+                   <table className="w-full text-left text-sm text-gray-400">
+                      <thead className="bg-[#1f2937] text-gray-400 text-xs uppercase font-bold">
+                         <tr>
+                            <th className="px-4 py-3">MÊS</th>
+                            <th className="px-4 py-3">META {categoria.label.toUpperCase()}</th>
+                            <th className="px-4 py-3">REALIZADO</th>
+                            <th className="px-4 py-3">% ATINGIMENTO</th>
+                         </tr>
+                      </thead>
+                      <tbody>
+                         {custos.map((row: any, i: number) => {
+                            const meta = categoryTarget(row, categoria);
+                            const realizado = categoryCost(row, categoria);
+                            // Mês em aberto sem compra ainda não foi lançado; não conta como atingimento baixo.
+                            let atingimento: React.ReactNode = <span className="text-amber-500">0.00%</span>;
+                            if (meta > 0) {
+                                atingimento = realizado === 0 && i >= closedMonths
+                                    ? <span className="text-gray-600">NÃO LANÇADO</span>
+                                    : <CommitmentPerc perc={(realizado / meta) * 100} />;
+                            }
+                            return (
+                               <tr key={i} className="border-b border-gray-800 hover:bg-gray-800/50">
+                                  <td className="px-4 py-3 font-medium text-white">{row.mes}</td>
+                                  <td className="px-4 py-3">{new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(meta)}</td>
+                                  <td className="px-4 py-3 text-white">{new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(realizado)}</td>
+                                  <td className="px-4 py-3 font-black">{atingimento}</td>
+                               </tr>
+                            );
+                         })}
+                      </tbody>
+                   </table>
+                 </div>
+              </div>
+            ))}
+            <DataGrid title="Planilha: Histórico Trimestral" data={quarterlyHistory} setData={tracked('quarterlyHistory', setQuarterlyHistory)} schema={SHEET_SCHEMAS.quarterlyHistory} onSave={handleSave} />
+            <DataGrid title="Planilha: Gestão Top 20" data={flattenedTop20} setData={setFlattenedTop20} schema={SHEET_SCHEMAS.gestaoTop20} onSave={handleSave} />
+            <DataGrid title="Planilha: Carteira de Clientes" data={flattenedCarteira} setData={setFlattenedCarteira} schema={SHEET_SCHEMAS.carteira} onSave={handleSave} />
 
         </div>
     );
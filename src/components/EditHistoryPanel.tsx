@@ -0,0 +1,46 @@
+import React from 'react';
+import { EditHistory } from '../hooks/useEditHistory';
+
+export const EditHistoryPanel = ({ history }: { history: EditHistory }) => {
+  const { entries, cursor, canUndo, canRedo, undo, redo, jumpTo } = history;
+
+  return (
+    <div className="bg-gray-900 p-4 rounded-xl shadow-xl border border-gray-800">
+      <div className="flex justify-between items-center mb-3">
+        <div>
+          <h3 className="text-white font-bold text-lg">Histórico de Alterações</h3>
+          <p className="text-gray-500 text-xs">Ctrl+Z desfaz, Ctrl+Y refaz. Clique em uma linha para voltar àquele ponto.</p>
+        </div>
+        <div className="flex gap-2">
+          <button onClick={undo} disabled={!canUndo} className="bg-gray-800 hover:bg-gray-700 disabled:opacity-40 text-white text-xs px-3 py-1 rounded font-bold border border-gray-700">
+            ↶ Desfazer
+          </button>
+          <button onClick={redo} disabled={!canRedo} className="bg-gray-800 hover:bg-gray-700 disabled:opacity-40 text-white text-xs px-3 py-1 rounded font-bold border border-gray-700">
+            ↷ Refazer
+          </button>
+        </div>
+      </div>
+      {entries.length === 0 ? (
+        <p className="text-gray-600 text-xs italic">Nenhuma alteração nesta sessão.</p>
+      ) : (
+        <ul className="max-h-48 overflow-y-auto custom-scrollbar text-xs divide-y divide-gray-800">
+          {entries.map((entry, idx) => ({ entry, idx })).reverse().map(({ entry, idx }) => {
+            const applied = idx < cursor;
+            return (
+              <li key={entry.id}>
+                <button
+                  onClick={() => jumpTo(idx + 1)}
+                  className={`w-full text-left px-2 py-1.5 flex justify-between gap-4 hover:bg-gray-800/50 ${applied ? 'text-gray-300' : 'text-gray-600 line-through'}`}
+                  title={applied ? 'Voltar para logo após esta alteração' : 'Refazer até esta alteração'}
+                >
+                  <span><span className="font-bold text-gray-400">{entry.sheet}</span> — {entry.label}</span>
+                  <span className="font-mono text-gray-500">{new Date(entry.timestamp).toLocaleTimeString('pt-BR')}</span>
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,24 @@
+import React from 'react';
+import { ExportColumn, exportTable } from '../../utils/spreadsheet';
+
+// Os dados são montados apenas no clique, para não recalcular tabelas a cada render.
+export const ExportButtons = ({ fileName, getTable }: {
+  fileName: string,
+  getTable: () => { columns: ExportColumn[], rows: any[] }
+}) => {
+  const handleExport = (format: 'csv' | 'xlsx') => {
+    const { columns, rows } = getTable();
+    exportTable(fileName, columns, rows, format);
+  };
+
+  return (
+    <div className="flex gap-1" title="Exportar os números deste painel">
+      <button onClick={() => handleExport('csv')} className="bg-gray-800 hover:bg-gray-700 text-gray-300 text-[10px] px-2 py-1 rounded font-bold border border-gray-700">
+        ⬇ CSV
+      </button>
+      <button onClick={() => handleExport('xlsx')} className="bg-gray-800 hover:bg-gray-700 text-gray-300 text-[10px] px-2 py-1 rounded font-bold border border-gray-700">
+        ⬇ XLSX
+      </button>
+    </div>
+  );
+};
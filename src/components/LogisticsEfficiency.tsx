@@ -0,0 +1,253 @@
+import React from 'react';
+import { ComposedChart, BarChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ReferenceLine } from 'recharts';
+import { ChartWrapper } from '../../components/ChartWrapper';
+import { ExportButtons } from './ExportButtons';
+import { DEFAULT_LOGISTICS, LogisticsAnalysis, LogisticsSettings } from '../kpi';
+
+const formatBRL = (value: number): string =>
+  new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL', minimumFractionDigits: 2 }).format(value || 0);
+
+const formatPct = (value: number | null, digits = 2) => (value === null ? '—' : `${value.toFixed(digits)}%`);
+
+const CARRIER_COLORS = ['#3b82f6', '#f59e0b', '#8b5cf6', '#06b6d4', '#ec4899', '#84cc16'];
+
+const SETTING_FIELDS: { key: keyof LogisticsSettings; label: string }[] = [
+  { key: 'meta', label: 'Meta (% do fat.)' },
+  { key: 'limite', label: 'Alerta acima de (%)' },
+];
+
+/**
+ * Eficiência logística do ano: frete de cada transportadora como % do faturamento mês a mês,
+ * tendência contra a meta, meses acima do limite e a divisão do frete entre transportadoras.
+ */
+export const LogisticsEfficiency = ({ year, analysis, settings, setSettings }: {
+  year: string,
+  analysis: LogisticsAnalysis,
+  settings: LogisticsSettings,
+  setSettings: (value: LogisticsSettings) => void
+}) => {
+  const carriers = analysis.transportadoras.map((t, i) => ({ ...t.categoria, color: CARRIER_COLORS[i % CARRIER_COLORS.length] }));
+
+  const setField = (key: keyof LogisticsSettings, value: string) => {
+    const num = parseFloat(value.replace(',', '.'));
+    if (!Number.isFinite(num) || num < 0) return;
+    setSettings({ ...settings, [key]: num });
+  };
+
+  const ratioData = analysis.months.map(m => ({
+    mes: m.mes,
+    percentual: m.percentual,
+    media3m: m.media3m,
+    ...Object.fromEntries(carriers.map(c => [c.key, m.transportadoras[c.key].percentual])),
+  }));
+
+  const shareData = analysis.months.filter(m => m.fechado && m.frete > 0).map(m => ({
+    mes: m.mes,
+    ...Object.fromEntries(carriers.map(c => [c.key, m.transportadoras[c.key].participacao])),
+  }));
+
+  const getExportTable = () => ({
+    columns: [
+      { key: 'mes', label: 'Mês' },
+      { key: 'faturamento', label: 'Faturamento (R$)', kind: 'currency' as const },
+      ...carriers.flatMap(c => [
+        { key: `${c.key}_valor`, label: `${c.label} (R$)`, kind: 'currency' as const },
+        { key: `${c.key}_pct`, label: `${c.label} (% do fat.)`, kind: 'percent' as const },
+        { key: `${c.key}_part`, label: `${c.label} (% do frete)`, kind: 'percent' as const },
+      ]),
+      { key: 'frete', label: 'Frete Total (R$)', kind: 'currency' as const },
+      { key: 'percentual', label: 'Frete (% do fat.)', kind: 'percent' as const },
+      { key: 'media3m', label: 'Média 3 Meses (%)', kind: 'percent' as const },
+      { key: 'desvio', label: 'Vs Meta (p.p.)', kind: 'number' as const },
+      { key: 'alerta', label: 'Acima do Limite' },
+    ],
+    rows: analysis.months.map(m => ({
+      mes: m.mes,
+      faturamento: m.faturamento,
+      ...Object.fromEntries(carriers.flatMap(c => [
+        [`${c.key}_valor`, m.transportadoras[c.key].valor],
+        [`${c.key}_pct`, m.transportadoras[c.key].percentual ?? ''],
+        [`${c.key}_part`, m.transportadoras[c.key].participacao],
+      ])),
+      frete: m.frete,
+      percentual: m.percentual ?? '',
+      media3m: m.media3m ?? '',
+      desvio: m.desvio === null ? '' : Number(m.desvio.toFixed(2)),
+      alerta: !m.fechado ? 'Em aberto' : m.acimaLimite ? 'Sim' : '',
+    })),
+  });
+
+  if (carriers.length === 0) {
+    return (
+      <section className="bg-gray-900 p-6 rounded-2xl border border-gray-800">
+        <h2 className="text-white font-black italic uppercase text-xl">Eficiência Logística</h2>
+        <p className="text-gray-500 text-sm mt-2">Nenhuma categoria de custo do tipo Logística. Cadastre as transportadoras em "Categorias de Custo" no Banco de Dados.</p>
+      </section>
+    );
+  }
+
+  const tendenciaClass = analysis.tendencia > 0.05 ? 'text-red-400' : analysis.tendencia < -0.05 ? 'text-emerald-400' : 'text-gray-300';
+
+  return (
+    <div className="space-y-6 animate-in fade-in duration-500">
+      <section className="bg-gray-900 p-6 rounded-2xl border border-gray-800 space-y-6">
+        <div className="flex flex-col lg:flex-row justify-between lg:items-center gap-4 border-b border-gray-800 pb-4">
+          <div>
+            <h2 className="text-white font-black italic uppercase text-xl">Eficiência Logística — {year}</h2>
+            <p className="text-gray-500 text-xs">Frete das categorias de logística sobre o faturamento realizado de cada mês.</p>
+          </div>
+          <div className="flex flex-wrap items-end gap-3">
+            {SETTING_FIELDS.map(f => (
+              <label key={f.key} className="flex flex-col gap-1">
+                <span className="text-[9px] text-gray-500 font-bold uppercase">{f.label}</span>
+                <input
+                  type="number"
+                  min={0}
+                  step={0.1}
+                  value={settings[f.key]}
+                  onChange={(e) => setField(f.key, e.target.value)}
+                  className="w-20 bg-gray-800 text-xs px-2 py-1.5 border border-gray-700 rounded text-white font-mono text-right"
+                />
+              </label>
+            ))}
+            <button onClick={() => setSettings(DEFAULT_LOGISTICS)} className="text-[10px] text-gray-400 hover:text-white underline pb-2">Padrão</button>
+            <ExportButtons fileName={`Eficiência Logística ${year}`} getTable={getExportTable} />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 xl:grid-cols-4 gap-4">
+          <div className="bg-gray-950 p-4 rounded-xl border border-gray-800">
+            <p className="text-[10px] text-gray-500 uppercase font-bold">Frete no Ano</p>
+            <p className="text-xl font-black text-white mt-1">{formatBRL(analysis.frete)}</p>
+            <p className="text-[9px] text-gray-600 font-bold uppercase">{analysis.months.filter(m => m.fechado).length} meses fechados</p>
+          </div>
+          <div className="bg-gray-950 p-4 rounded-xl border border-gray-800">
+            <p className="text-[10px] text-gray-500 uppercase font-bold">% do Faturamento</p>
+            <p className={`text-xl font-black mt-1 ${analysis.percentual > settings.limite ? 'text-red-400' : analysis.percentual > settings.meta ? 'text-amber-400' : 'text-emerald-400'}`}>
+              {formatPct(analysis.percentual)}
+            </p>
+            <p className="text-[9px] text-gray-600 font-bold uppercase">meta {formatPct(settings.meta, 1)}</p>
+          </div>
+          <div className="bg-gray-950 p-4 rounded-xl border border-gray-800">
+            <p className="text-[10px] text-gray-500 uppercase font-bold">Tendência</p>
+            <p className={`text-xl font-black mt-1 ${tendenciaClass}`}>{analysis.tendencia >= 0 ? '+' : ''}{analysis.tendencia.toFixed(2)} p.p./mês</p>
+          </div>
+          <div className="bg-gray-950 p-4 rounded-xl border border-gray-800">
+            <p className="text-[10px] text-gray-500 uppercase font-bold">Meses Acima de {formatPct(settings.limite, 1)}</p>
+            <p className={`text-xl font-black mt-1 ${analysis.mesesAcimaLimite.length > 0 ? 'text-red-400' : 'text-emerald-400'}`}>{analysis.mesesAcimaLimite.length}</p>
+            <p className="text-[9px] text-gray-600 font-bold uppercase">{analysis.mesesAcimaLimite.join(', ')}</p>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+          <div>
+            <p className="text-[10px] text-gray-500 font-bold uppercase mb-2">Frete por transportadora (% do faturamento)</p>
+            <ChartWrapper height={320}>
+              <ComposedChart data={ratioData}>
+                <CartesianGrid stroke="#1f2937" strokeDasharray="3 3" vertical={false} />
+                <XAxis dataKey="mes" stroke="#9ca3af" fontSize={11} tickLine={false} />
+                <YAxis tickFormatter={v => `${v}%`} stroke="#9ca3af" fontSize={11} width={50} tickLine={false} />
+                <Tooltip contentStyle={{ backgroundColor: '#000', border: '1px solid #333' }} formatter={(v: any) => formatPct(typeof v === 'number' ? v : null)} />
+                <Legend wrapperStyle={{ fontSize: '11px', fontWeight: 'bold' }} />
+                {carriers.map(c => <Bar key={c.key} dataKey={c.key} stackId="frete" fill={c.color} name={c.label} />)}
+                <Line dataKey="media3m" stroke="#e5e7eb" strokeWidth={2} strokeDasharray="4 3" dot={{ r: 2 }} connectNulls name="Média 3 meses" />
+                <ReferenceLine y={settings.meta} stroke="#10b981" strokeDasharray="6 4" label={{ value: 'Meta', fill: '#10b981', fontSize: 10, position: 'insideTopLeft' }} />
+                <ReferenceLine y={settings.limite} stroke="#ef4444" strokeDasharray="6 4" label={{ value: 'Limite', fill: '#ef4444', fontSize: 10, position: 'insideTopLeft' }} />
+              </ComposedChart>
+            </ChartWrapper>
+          </div>
+          <div>
+            <p className="text-[10px] text-gray-500 font-bold uppercase mb-2">Participação no frete ao longo do ano</p>
+            <ChartWrapper height={320}>
+              <BarChart data={shareData}>
+                <CartesianGrid stroke="#1f2937" strokeDasharray="3 3" vertical={false} />
+                <XAxis dataKey="mes" stroke="#9ca3af" fontSize={11} tickLine={false} />
+                <YAxis domain={[0, 100]} tickFormatter={v => `${v}%`} stroke="#9ca3af" fontSize={11} width={50} tickLine={false} />
+                <Tooltip contentStyle={{ backgroundColor: '#000', border: '1px solid #333' }} formatter={(v: any) => `${Number(v).toFixed(1)}%`} />
+                <Legend wrapperStyle={{ fontSize: '11px', fontWeight: 'bold' }} />
+                {carriers.map(c => <Bar key={c.key} dataKey={c.key} stackId="part" fill={c.color} name={c.label} />)}
+              </BarChart>
+            </ChartWrapper>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {analysis.transportadoras.map((t, i) => (
+            <div key={t.categoria.key} className="bg-[#0d1117] p-4 rounded-xl border border-gray-800">
+              <p className="font-black italic uppercase text-sm" style={{ color: carriers[i].color }}>{t.categoria.label}</p>
+              <div className="flex justify-between mt-3 text-xs">
+                <div>
+                  <p className="text-[8px] text-gray-500 font-bold uppercase">Frete</p>
+                  <p className="font-black text-white font-mono">{formatBRL(t.total)}</p>
+                </div>
+                <div className="text-center">
+                  <p className="text-[8px] text-gray-500 font-bold uppercase">% do fat.</p>
+                  <p className="font-black text-white font-mono">{formatPct(t.percentual)}</p>
+                </div>
+                <div className="text-right">
+                  <p className="text-[8px] text-gray-500 font-bold uppercase">Part. no frete</p>
+                  <p className="font-black text-white font-mono">
+                    {t.participacao.toFixed(1)}%
+                    <span className={`ml-1 text-[10px] ${t.variacaoParticipacao > 0 ? 'text-amber-400' : t.variacaoParticipacao < 0 ? 'text-blue-400' : 'text-gray-500'}`}>
+                      {t.variacaoParticipacao >= 0 ? '+' : ''}{t.variacaoParticipacao.toFixed(1)} p.p.
+                    </span>
+                  </p>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      </section>
+
+      <section className="bg-gray-900 p-6 rounded-2xl border border-gray-800">
+        <div className="overflow-x-auto">
+          <table className="w-full text-right text-xs text-gray-300">
+            <thead className="bg-gray-950 text-gray-400 uppercase">
+              <tr>
+                <th className="px-3 py-3 text-left">Mês</th>
+                <th className="px-3 py-3">Faturamento</th>
+                {carriers.map(c => <th key={c.key} className="px-3 py-3">{c.label}</th>)}
+                <th className="px-3 py-3">Frete</th>
+                <th className="px-3 py-3">% Fat.</th>
+                <th className="px-3 py-3">Média 3m</th>
+                <th className="px-3 py-3">Vs Meta</th>
+                <th className="px-3 py-3 text-center">Status</th>
+              </tr>
+            </thead>
+            <tbody>
+              {analysis.months.map(m => (
+                <tr key={m.mes} className={`border-b border-gray-800 ${m.acimaLimite ? 'bg-red-950/30' : ''} ${m.fechado ? '' : 'opacity-50'}`}>
+                  <td className="px-3 py-2 text-left font-black text-white">{m.mes}</td>
+                  <td className="px-3 py-2 font-mono text-emerald-400">{formatBRL(m.faturamento)}</td>
+                  {carriers.map(c => (
+                    <td key={c.key} className="px-3 py-2 font-mono">
+                      {formatBRL(m.transportadoras[c.key].valor)}
+                      <span className="block text-[9px] text-gray-500">{formatPct(m.transportadoras[c.key].percentual)}</span>
+                    </td>
+                  ))}
+                  <td className="px-3 py-2 font-mono text-white">{formatBRL(m.frete)}</td>
+                  <td className="px-3 py-2 font-mono font-black">{formatPct(m.percentual)}</td>
+                  <td className="px-3 py-2 font-mono text-gray-400">{formatPct(m.media3m)}</td>
+                  <td className={`px-3 py-2 font-mono ${m.desvio === null ? 'text-gray-600' : m.desvio > 0 ? 'text-red-400' : 'text-emerald-400'}`}>
+                    {m.desvio === null ? '—' : `${m.desvio >= 0 ? '+' : ''}${m.desvio.toFixed(2)} p.p.`}
+                  </td>
+                  <td className="px-3 py-2 text-center">
+                    {!m.fechado ? (
+                      <span className="text-[10px] text-gray-600 font-bold uppercase">Em aberto</span>
+                    ) : m.percentual === null ? (
+                      <span className="text-[10px] text-gray-600 font-bold uppercase">Sem faturamento</span>
+                    ) : m.acimaLimite ? (
+                      <span className="px-2 py-1 rounded text-[10px] font-black bg-red-950 text-red-400 border border-red-900">ACIMA DO LIMITE</span>
+                    ) : (
+                      <span className="px-2 py-1 rounded text-[10px] font-black bg-emerald-950 text-emerald-400 border border-emerald-900">OK</span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </section>
+    </div>
+  );
+};
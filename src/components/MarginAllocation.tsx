@@ -0,0 +1,241 @@
+import React from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Cell, ReferenceLine } from 'recharts';
+import { ChartWrapper } from '../../components/ChartWrapper';
+import { ExportButtons } from './ExportButtons';
+import {
+  ALLOCATION_METHODS, ALLOCATION_METHOD_LABELS, AllocationRule, AllocationSettings, CostCategory, DEFAULT_ALLOCATION,
+  AllocatedMargins, MarginEntry, allocationRule,
+} from '../kpi';
+
+const formatBRL = (value: number): string =>
+  new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL', minimumFractionDigits: 2 }).format(value || 0);
+
+const marginClass = (entry: MarginEntry) =>
+  (entry.faturamento <= 0 ? 'text-gray-600' : entry.margem < 0 ? 'text-red-400' : entry.margem < 15 ? 'text-amber-400' : 'text-emerald-400');
+
+const selectClass = 'bg-gray-800 text-xs px-2 py-1.5 border border-gray-700 rounded text-white font-bold';
+
+const RankingTable = ({ rows, categories, extra, renderExtra }: {
+  rows: MarginEntry[],
+  categories: CostCategory[],
+  extra?: string,
+  renderExtra?: (entry: MarginEntry) => React.ReactNode
+}) => (
+  <div className="overflow-x-auto">
+    <table className="w-full text-right text-xs text-gray-300">
+      <thead className="bg-gray-950 text-gray-400 uppercase">
+        <tr>
+          <th className="px-3 py-3 text-left">#</th>
+          <th className="px-3 py-3 text-left">Nome</th>
+          {extra && <th className="px-3 py-3">{extra}</th>}
+          <th className="px-3 py-3">Faturamento</th>
+          {categories.map(c => <th key={c.key} className="px-3 py-3">{c.label}</th>)}
+          <th className="px-3 py-3">Custo Rateado</th>
+          <th className="px-3 py-3">Resultado</th>
+          <th className="px-3 py-3">Margem</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map((r, idx) => (
+          <tr key={r.id} className={`border-b border-gray-800 ${r.id === 'demais' ? 'bg-gray-950/60 text-gray-500' : r.faturamento > 0 && r.lucro < 0 ? 'bg-red-950/30' : ''}`}>
+            <td className="px-3 py-2 text-left text-gray-500">{r.id === 'demais' ? '' : idx + 1}</td>
+            <td className="px-3 py-2 text-left font-black text-white">{r.label}</td>
+            {renderExtra && <td className="px-3 py-2">{renderExtra(r)}</td>}
+            <td className="px-3 py-2 font-mono text-emerald-400">{formatBRL(r.faturamento)}</td>
+            {categories.map(c => <td key={c.key} className="px-3 py-2 font-mono">{formatBRL(r.custos[c.key] || 0)}</td>)}
+            <td className="px-3 py-2 font-mono text-rose-400">{formatBRL(r.custoTotal)}</td>
+            <td className={`px-3 py-2 font-mono font-black ${r.lucro < 0 ? 'text-red-400' : 'text-white'}`}>{formatBRL(r.lucro)}</td>
+            <td className={`px-3 py-2 font-mono font-black ${marginClass(r)}`}>{r.faturamento > 0 ? `${r.margem.toFixed(1)}%` : '—'}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
+
+const MarginChart = ({ rows }: { rows: MarginEntry[] }) => (
+  <ChartWrapper height={Math.max(200, rows.length * 28)}>
+    <BarChart data={rows.filter(r => r.faturamento > 0)} layout="vertical" margin={{ left: 20 }}>
+      <CartesianGrid stroke="#1f2937" strokeDasharray="3 3" horizontal={false} />
+      <XAxis type="number" tickFormatter={v => `${v}%`} stroke="#9ca3af" fontSize={11} />
+      <YAxis type="category" dataKey="label" stroke="#9ca3af" fontSize={10} width={140} />
+      <Tooltip contentStyle={{ backgroundColor: '#000', border: '1px solid #333' }} formatter={(v: any) => `${Number(v).toFixed(1)}%`} />
+      <ReferenceLine x={0} stroke="#6b7280" />
+      <Bar dataKey="margem" name="Margem bruta">
+        {rows.filter(r => r.faturamento > 0).map(r => <Cell key={r.id} fill={r.margem < 0 ? '#ef4444' : r.margem < 15 ? '#f59e0b' : '#10b981'} />)}
+      </Bar>
+    </BarChart>
+  </ChartWrapper>
+);
+
+const exportTable = (rows: MarginEntry[], categories: CostCategory[]) => ({
+  columns: [
+    { key: 'label', label: 'Nome' },
+    { key: 'faturamento', label: 'Faturamento (R$)', kind: 'currency' as const },
+    ...categories.map(c => ({ key: `custo_${c.key}`, label: `${c.label} (R$)`, kind: 'currency' as const })),
+    { key: 'custoTotal', label: 'Custo Rateado (R$)', kind: 'currency' as const },
+    { key: 'lucro', label: 'Resultado (R$)', kind: 'currency' as const },
+    { key: 'margem', label: 'Margem (%)', kind: 'percent' as const },
+  ],
+  rows: rows.map(r => ({ ...r, ...Object.fromEntries(categories.map(c => [`custo_${c.key}`, r.custos[c.key] || 0])) })),
+});
+
+/**
+ * Margem bruta por vendedor e por cliente da Gestão Top 20: os custos dos meses fechados são
+ * rateados pela regra de cada categoria e os rankings mostram quem de fato dá resultado.
+ */
+export const MarginAllocation = ({ year, result, categories, sellers, clientes, settings, setSettings }: {
+  year: string,
+  result: AllocatedMargins,
+  categories: CostCategory[],
+  sellers: any[],
+  clientes: any[],
+  settings: AllocationSettings,
+  setSettings: (value: AllocationSettings) => void
+}) => {
+  const usaFrete = categories.some(c => allocationRule(settings, c.key).metodo === 'frete');
+  const clientesNegativos = result.clientes.filter(c => c.faturamento > 0 && c.lucro < 0);
+  // Frete informado acima do custo da categoria: as taxas foram reduzidas para somarem o custo.
+  const ajustadas = categories.filter(c => result.freteAjustado[c.key] !== undefined);
+
+  const setRule = (key: string, patch: Partial<AllocationRule>) =>
+    setSettings({ ...settings, regras: { ...settings.regras, [key]: { ...allocationRule(settings, key), ...patch } } });
+
+  const setFrete = (id: string, value: string) => {
+    const { [id]: _, ...rest } = settings.fretePorCliente || {};
+    if (value.trim() === '') {
+      setSettings({ ...settings, fretePorCliente: rest });
+      return;
+    }
+    const num = parseFloat(value.replace(',', '.'));
+    if (!Number.isFinite(num) || num < 0) return;
+    setSettings({ ...settings, fretePorCliente: { ...rest, [id]: num } });
+  };
+
+  return (
+    <div className="space-y-6 animate-in fade-in duration-500">
+      <section className="bg-gray-900 p-6 rounded-2xl border border-gray-800 space-y-6">
+        <div className="flex flex-col lg:flex-row justify-between lg:items-center gap-4 border-b border-gray-800 pb-4">
+          <div>
+            <h2 className="text-white font-black italic uppercase text-xl">Margem Bruta por Vendedor e Cliente — {year}</h2>
+            <p className="text-gray-500 text-xs">
+              Custos de {result.meses} {result.meses === 1 ? 'mês' : 'meses'} rateados pela regra de cada categoria. O faturamento anual dos clientes
+              é levado ao período pela participação desses meses no faturamento esperado do ano; o frete por cliente vale só para a visão de clientes.
+            </p>
+          </div>
+          <button onClick={() => setSettings(DEFAULT_ALLOCATION)} className="text-[10px] text-gray-400 hover:text-white underline self-start lg:self-end">Padrão</button>
+        </div>
+
+        <div className="grid grid-cols-2 xl:grid-cols-4 gap-4">
+          <div className="bg-gray-950 p-4 rounded-xl border border-gray-800">
+            <p className="text-[10px] text-gray-500 uppercase font-bold">Faturamento do Período</p>
+            <p className="text-xl font-black text-white mt-1">{formatBRL(result.faturamento)}</p>
+          </div>
+          <div className="bg-gray-950 p-4 rounded-xl border border-gray-800">
+            <p className="text-[10px] text-gray-500 uppercase font-bold">Custos Rateados</p>
+            <p className="text-xl font-black text-rose-400 mt-1">{formatBRL(Object.values(result.custos).reduce((a, b) => a + b, 0))}</p>
+          </div>
+          <div className="bg-gray-950 p-4 rounded-xl border border-gray-800">
+            <p className="text-[10px] text-gray-500 uppercase font-bold">Melhor Margem (Vendedor)</p>
+            <p className="text-xl font-black text-emerald-400 mt-1">{result.vendedores[0]?.faturamento > 0 ? `${result.vendedores[0].label} (${result.vendedores[0].margem.toFixed(1)}%)` : '—'}</p>
+          </div>
+          <div className="bg-gray-950 p-4 rounded-xl border border-gray-800">
+            <p className="text-[10px] text-gray-500 uppercase font-bold">Clientes com Margem Negativa</p>
+            <p className={`text-xl font-black mt-1 ${clientesNegativos.length > 0 ? 'text-red-400' : 'text-emerald-400'}`}>{clientesNegativos.length}</p>
+            <p className="text-[9px] text-gray-600 font-bold uppercase truncate">{clientesNegativos.map(c => c.label).join(', ')}</p>
+          </div>
+        </div>
+
+        <div>
+          <p className="text-[10px] text-gray-500 font-bold uppercase mb-2">Regras de rateio</p>
+          <div className="overflow-x-auto">
+            <table className="w-full text-left text-xs text-gray-300">
+              <thead className="bg-gray-950 text-gray-400 uppercase">
+                <tr>
+                  <th className="px-3 py-3">Categoria</th>
+                  <th className="px-3 py-3">Regra</th>
+                  <th className="px-3 py-3">Vendedor</th>
+                  <th className="px-3 py-3">Cliente</th>
+                  <th className="px-3 py-3 text-right">Custo no Período</th>
+                </tr>
+              </thead>
+              <tbody>
+                {categories.map(c => {
+                  const rule = allocationRule(settings, c.key);
+                  return (
+                    <tr key={c.key} className="border-b border-gray-800">
+                      <td className="px-3 py-2 font-black text-white">{c.label}</td>
+                      <td className="px-3 py-2">
+                        <select value={rule.metodo} onChange={(e) => setRule(c.key, { metodo: e.target.value as AllocationRule['metodo'] })} className={selectClass}>
+                          {ALLOCATION_METHODS.map(m => <option key={m} value={m}>{ALLOCATION_METHOD_LABELS[m]}</option>)}
+                        </select>
+                      </td>
+                      <td className="px-3 py-2">
+                        {rule.metodo === 'direta' ? (
+                          <select value={rule.vendedor} onChange={(e) => setRule(c.key, { vendedor: e.target.value })} className={selectClass}>
+                            <option value="">Proporcional</option>
+                            {sellers.map((s: any) => <option key={s.id} value={s.id}>{s.label}</option>)}
+                          </select>
+                        ) : <span className="text-gray-600">Proporcional</span>}
+                      </td>
+                      <td className="px-3 py-2">
+                        {rule.metodo === 'direta' ? (
+                          <select value={rule.cliente} onChange={(e) => setRule(c.key, { cliente: e.target.value })} className={selectClass}>
+                            <option value="">Proporcional</option>
+                            {clientes.map((cli: any) => <option key={cli.id} value={String(cli.id)}>{cli.nome}</option>)}
+                          </select>
+                        ) : <span className="text-gray-600">{rule.metodo === 'frete' ? 'Frete informado por cliente' : 'Proporcional'}</span>}
+                      </td>
+                      <td className="px-3 py-2 text-right font-mono">{formatBRL(result.custos[c.key] || 0)}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </section>
+
+      <section className="bg-gray-900 p-6 rounded-2xl border border-gray-800 space-y-4">
+        <div className="flex justify-between items-center">
+          <h3 className="text-emerald-400 font-bold italic uppercase">Ranking de Margem por Vendedor</h3>
+          <ExportButtons fileName={`Margem por Vendedor ${year}`} getTable={() => exportTable(result.vendedores, categories)} />
+        </div>
+        <MarginChart rows={result.vendedores} />
+        <RankingTable rows={result.vendedores} categories={categories} />
+      </section>
+
+      <section className="bg-gray-900 p-6 rounded-2xl border border-gray-800 space-y-4">
+        <div className="flex justify-between items-center">
+          <div>
+            <h3 className="text-emerald-400 font-bold italic uppercase">Ranking de Margem por Cliente (Gestão Top 20)</h3>
+            {usaFrete && <p className="text-gray-500 text-xs">Clientes sem frete informado dividem o restante do frete pelo faturamento.</p>}
+            {ajustadas.length > 0 && (
+              <p className="text-amber-400 text-xs font-bold">
+                O frete informado supera o custo do período e foi reduzido proporcionalmente em: {ajustadas.map(c => `${c.label} (${(result.freteAjustado[c.key] * 100).toFixed(1)}% do informado)`).join(', ')}.
+              </p>
+            )}
+          </div>
+          <ExportButtons fileName={`Margem por Cliente ${year}`} getTable={() => exportTable([...result.clientes, result.demaisClientes], categories)} />
+        </div>
+        <MarginChart rows={result.clientes} />
+        <RankingTable
+          rows={[...result.clientes, result.demaisClientes]}
+          categories={categories}
+          extra={usaFrete ? 'Frete (% fat.)' : undefined}
+          renderExtra={usaFrete ? (r) => (r.id === 'demais' ? null : (
+            <input
+              type="number"
+              min={0}
+              step={0.1}
+              placeholder="—"
+              value={settings.fretePorCliente?.[r.id] ?? ''}
+              onChange={(e) => setFrete(r.id, e.target.value)}
+              className="w-16 bg-gray-800 text-xs px-2 py-1 border border-gray-700 rounded text-white font-mono text-right"
+            />
+          )) : undefined}
+        />
+      </section>
+    </div>
+  );
+};
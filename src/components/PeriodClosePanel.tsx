@@ -0,0 +1,87 @@
+import React from 'react';
+import { PERIOD_STATUS_LABELS, PeriodRow, PeriodStatus, closedMonthCount, needsReason, periodTransitionError, transitionPeriod } from '../kpi';
+
+const STATUS_STYLE: Record<PeriodStatus, string> = {
+  aberto: 'bg-gray-800 text-gray-400 border-gray-700',
+  fechado: 'bg-emerald-950 text-emerald-400 border-emerald-900',
+  bloqueado: 'bg-blue-950 text-blue-300 border-blue-900',
+};
+
+// Ações disponíveis em cada situação, na ordem em que aparecem.
+const ACTIONS: Record<PeriodStatus, { to: PeriodStatus, label: string }[]> = {
+  aberto: [{ to: 'fechado', label: 'Fechar' }],
+  fechado: [{ to: 'bloqueado', label: 'Bloquear' }, { to: 'aberto', label: 'Reabrir' }],
+  bloqueado: [{ to: 'fechado', label: 'Desbloquear' }],
+};
+
+const formatDate = (iso: string) => (iso ? new Date(iso).toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short' }) : '');
+
+/**
+ * Fechamento de períodos do ano: meses fechados passam a contar como realizado nos indicadores e
+ * projeções; bloqueados deixam de aceitar edição nas planilhas até serem desbloqueados com motivo.
+ */
+export const PeriodClosePanel = ({ year, periods, onChange }: {
+  year: string,
+  periods: PeriodRow[],
+  onChange: (next: PeriodRow[], label: string) => void
+}) => {
+  const closed = closedMonthCount(periods);
+
+  const change = (idx: number, to: PeriodStatus, label: string) => {
+    const period = periods[idx];
+    let motivo = '';
+    if (needsReason(period.status, to)) {
+      const answer = prompt(`Motivo para ${label.toLowerCase()} ${period.month}/${year}:`);
+      if (answer === null) return;
+      motivo = answer;
+    }
+    const error = periodTransitionError(periods, idx, to, motivo);
+    if (error) {
+      alert(error);
+      return;
+    }
+    const description = `${label} ${period.month}/${year}${motivo.trim() ? ` — ${motivo.trim()}` : ''}`;
+    onChange(transitionPeriod(periods, idx, to, motivo), description);
+  };
+
+  return (
+    <div className="bg-gray-900 border border-gray-800 rounded-xl overflow-hidden shadow-xl">
+      <div className="p-4 border-b border-gray-800 flex flex-wrap justify-between items-end gap-2">
+        <div>
+          <h3 className="text-white font-bold text-base italic">Fechamento de Períodos — {year}</h3>
+          <p className="text-gray-500 text-xs mt-1">
+            Meses fechados entram como realizado nas médias, medidores e projeções; os em aberto aparecem como provisórios e são projetados.
+            Meses bloqueados não aceitam edição nas planilhas. Fechamentos seguem a ordem do ano, e reabrir ou desbloquear exige um motivo.
+          </p>
+        </div>
+        <p className="text-xs text-gray-400 font-bold uppercase whitespace-nowrap">{closed} de {periods.length} meses fechados</p>
+      </div>
+      <div className="grid grid-cols-2 md:grid-cols-4 xl:grid-cols-6 gap-3 p-4">
+        {periods.map((p, idx) => (
+          <div key={p.month} className="bg-gray-950 border border-gray-800 rounded-lg p-3 flex flex-col gap-2">
+            <div className="flex justify-between items-center">
+              <span className="text-white font-black">{p.month}</span>
+              <span className={`px-2 py-0.5 rounded border text-[9px] font-black uppercase ${STATUS_STYLE[p.status]}`}>
+                {p.status === 'bloqueado' ? '🔒 ' : ''}{PERIOD_STATUS_LABELS[p.status]}
+              </span>
+            </div>
+            <p className="text-[9px] text-gray-600 min-h-[12px]" title={p.motivo ? `Motivo: ${p.motivo}` : undefined}>
+              {formatDate(p.atualizadoEm)}{p.motivo ? ` · ${p.motivo}` : ''}
+            </p>
+            <div className="flex gap-1">
+              {ACTIONS[p.status].map(a => (
+                <button
+                  key={a.to}
+                  onClick={() => change(idx, a.to, a.label)}
+                  className="flex-1 bg-gray-800 hover:bg-gray-700 border border-gray-700 text-white text-[10px] font-bold px-2 py-1 rounded"
+                >
+                  {a.label}
+                </button>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
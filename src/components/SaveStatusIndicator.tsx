@@ -0,0 +1,37 @@
+import React from 'react';
+import { SaveStatus } from '../storage/useAutoSave';
+
+const STATUS_STYLE: Record<SaveStatus, { label: string; dot: string; text: string }> = {
+  loading: { label: 'CARREGANDO...', dot: 'bg-gray-400 animate-pulse', text: 'text-gray-200' },
+  dirty: { label: 'ALTERAÇÕES NÃO SALVAS', dot: 'bg-amber-400 animate-pulse', text: 'text-amber-200' },
+  saving: { label: 'SALVANDO...', dot: 'bg-blue-400 animate-pulse', text: 'text-blue-200' },
+  saved: { label: 'TUDO SALVO', dot: 'bg-emerald-400', text: 'text-emerald-200' },
+  fallback: { label: 'SALVO EM CONTINGÊNCIA', dot: 'bg-amber-400', text: 'text-amber-200' },
+  error: { label: 'ERRO AO SALVAR', dot: 'bg-red-300 animate-pulse', text: 'text-red-100' },
+};
+
+export const SaveStatusIndicator = ({ status, lastSavedAt, error, onSaveNow }: {
+  status: SaveStatus,
+  lastSavedAt: Date | null,
+  error?: string | null,
+  onSaveNow: () => void
+}) => {
+  const style = STATUS_STYLE[status];
+  const title = status === 'error'
+    ? `Falha: ${error}`
+    : status === 'fallback'
+      ? 'O banco do navegador (IndexedDB) falhou; os dados foram salvos no localStorage, que tem pouco espaço. Exporte um backup por segurança.'
+      : lastSavedAt ? `Último salvamento: ${lastSavedAt.toLocaleTimeString('pt-BR')}` : 'Salvamento automático ativo';
+
+  return (
+    <div className="flex items-center gap-2 bg-red-950/60 px-3 py-2 rounded" title={title}>
+      <span className={`w-2.5 h-2.5 rounded-full ${style.dot}`}></span>
+      <span className={`text-[10px] font-black tracking-wider ${style.text}`}>{style.label}</span>
+      {(status === 'dirty' || status === 'error') && (
+        <button onClick={onSaveNow} className="bg-green-600 text-white px-2 py-1 rounded text-[10px] font-bold hover:bg-green-700">
+          💾 SALVAR AGORA
+        </button>
+      )}
+    </div>
+  );
+};
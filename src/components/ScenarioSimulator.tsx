@@ -0,0 +1,315 @@
+import React, { useMemo, useState } from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ReferenceLine } from 'recharts';
+import { ChartWrapper } from '../../components/ChartWrapper';
+import { ExportButtons } from './ExportButtons';
+import {
+  Scenario, ScenarioBase, ScenarioResult, MAX_SCENARIOS,
+  createScenario, evaluateScenario, clientYearValue,
+} from '../kpi';
+
+const formatBRL = (value: number): string =>
+  new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL', minimumFractionDigits: 2 }).format(value || 0);
+
+const SCENARIO_COLORS = ['#3b82f6', '#f59e0b', '#8b5cf6'];
+
+const parseInput = (value: string) => {
+  const num = parseFloat(value.replace(',', '.'));
+  return Number.isFinite(num) ? num : 0;
+};
+
+// Linhas do comparativo: valor de cada coluna, formato e se subir é bom (para colorir a diferença).
+const metricsFor = (base: ScenarioBase): { label: string; value: (r: ScenarioResult) => number; kind: 'currency' | 'percent' | 'number'; higherIsBetter: boolean }[] => [
+  { label: 'Faturamento do Ano', value: r => r.faturamento, kind: 'currency', higherIsBetter: true },
+  { label: 'Atingimento da Meta', value: r => r.atingimento, kind: 'percent', higherIsBetter: true },
+  ...base.grupos.map(g => ({ label: `Custo ${g.label}`, value: (r: ScenarioResult) => r.custos[g.key] || 0, kind: 'currency' as const, higherIsBetter: false })),
+  { label: 'Custo Total', value: r => r.custoTotal, kind: 'currency', higherIsBetter: false },
+  { label: 'Resultado', value: r => r.lucro, kind: 'currency', higherIsBetter: true },
+  { label: 'Margem', value: r => r.margem, kind: 'percent', higherIsBetter: true },
+  { label: 'Projeção Top 20', value: r => r.oportunidade.projetado, kind: 'currency', higherIsBetter: true },
+  { label: 'Falta p/ Meta (Top 20)', value: r => r.oportunidade.falta, kind: 'currency', higherIsBetter: false },
+  { label: 'Contas em Alerta', value: r => r.oportunidade.alertas, kind: 'number', higherIsBetter: false },
+];
+
+const formatMetric = (value: number, kind: 'currency' | 'percent' | 'number') =>
+  kind === 'currency' ? formatBRL(value) : kind === 'percent' ? `${value.toFixed(1)}%` : String(value);
+
+/**
+ * Simulador "e se": cada cenário guarda uma cópia dos resultados dos vendedores, das projeções
+ * dos clientes Top 20 e a variação dos custos. Nada aqui altera as planilhas.
+ */
+export const ScenarioSimulator = ({ base, scenarios, setScenarios }: {
+  base: ScenarioBase,
+  scenarios: Scenario[],
+  setScenarios: (value: Scenario[]) => void
+}) => {
+  const yearScenarios = scenarios.filter(s => s.year === base.year);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [showClients, setShowClients] = useState(false);
+  const editing = yearScenarios.find(s => s.id === editingId) || yearScenarios[0] || null;
+
+  const metrics = metricsFor(base);
+  const baseResult = useMemo(() => evaluateScenario(base), [base]);
+  const results = useMemo(() => yearScenarios.map(s => evaluateScenario(base, s)), [base, yearScenarios]);
+
+  const updateScenario = (id: string, update: (s: Scenario) => Scenario) =>
+    setScenarios(scenarios.map(s => (s.id === id ? update(s) : s)));
+
+  const addScenario = () => {
+    if (yearScenarios.length >= MAX_SCENARIOS) return;
+    const scenario = createScenario(base, `Cenário ${yearScenarios.length + 1}`);
+    setScenarios([...scenarios, scenario]);
+    setEditingId(scenario.id);
+  };
+
+  const duplicateScenario = (source: Scenario) => {
+    if (yearScenarios.length >= MAX_SCENARIOS) return;
+    const copy = { ...createScenario(base, `${source.name} (cópia)`), sellers: { ...source.sellers }, clients: { ...source.clients }, costs: { ...source.costs } };
+    setScenarios([...scenarios, copy]);
+    setEditingId(copy.id);
+  };
+
+  const removeScenario = (id: string) => {
+    if (!confirm('Excluir este cenário?')) return;
+    setScenarios(scenarios.filter(s => s.id !== id));
+    if (editingId === id) setEditingId(null);
+  };
+
+  const columns = [{ name: 'Base', result: baseResult }, ...yearScenarios.map((s, i) => ({ name: s.name, result: results[i] }))];
+
+  const chartData = columns.map(c => ({ name: c.name, faturamento: c.result.faturamento, lucro: c.result.lucro }));
+
+  const getExportTable = () => ({
+    columns: [
+      { key: 'metric', label: 'Indicador' },
+      ...columns.map((c, i) => ({ key: `c${i}`, label: c.name })),
+    ],
+    rows: [
+      ...metrics.map(m => ({ metric: m.label, ...Object.fromEntries(columns.map((c, i) => [`c${i}`, formatMetric(m.value(c.result), m.kind)])) })),
+      ...base.sellers.map((s, si) => ({
+        metric: `Atingimento ${s.label}`,
+        ...Object.fromEntries(columns.map((c, i) => [`c${i}`, formatMetric(c.result.sellers[si].atingimento, 'percent')])),
+      })),
+    ],
+  });
+
+  return (
+    <div className="space-y-6 animate-in fade-in duration-500">
+      <div className="bg-gray-900 p-4 rounded-xl shadow-xl border border-gray-800 flex flex-col md:flex-row justify-between md:items-end gap-4">
+        <div>
+          <h2 className="text-white font-black italic text-xl uppercase">Simulador de Cenários {base.year}</h2>
+          <p className="text-gray-500 text-xs">
+            Base: fechamento provável de {formatBRL(base.faturamento)} contra a meta de {formatBRL(base.metaAno)}. Os custos acompanham o volume faturado. Os cenários não alteram as planilhas.
+          </p>
+        </div>
+        <div className="flex gap-3 items-center">
+          <ExportButtons fileName={`Comparativo de Cenários ${base.year}`} getTable={getExportTable} />
+          <button
+            onClick={addScenario}
+            disabled={yearScenarios.length >= MAX_SCENARIOS}
+            className="bg-blue-600 hover:bg-blue-700 disabled:opacity-40 disabled:cursor-not-allowed text-white text-xs px-3 py-2 rounded font-bold"
+            title={yearScenarios.length >= MAX_SCENARIOS ? `Máximo de ${MAX_SCENARIOS} cenários por ano` : 'Cria um cenário com uma cópia dos valores atuais'}
+          >
+            + Novo Cenário
+          </button>
+        </div>
+      </div>
+
+      {/* Comparativo lado a lado */}
+      <section className="grid grid-cols-1 xl:grid-cols-3 gap-6">
+        <div className="xl:col-span-2 bg-gray-900 rounded-xl shadow-xl border border-gray-800 overflow-x-auto">
+          <table className="w-full text-left text-xs text-gray-300">
+            <thead className="bg-gray-950 text-gray-400 uppercase">
+              <tr>
+                <th className="px-3 py-3">Indicador</th>
+                {columns.map((c, i) => (
+                  <th key={i} className="px-3 py-3 text-right" style={{ color: i > 0 ? SCENARIO_COLORS[i - 1] : undefined }}>{c.name}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {metrics.map(m => {
+                const baseValue = m.value(baseResult);
+                return (
+                  <tr key={m.label} className="border-b border-gray-800">
+                    <td className="px-3 py-2 font-bold text-gray-400">{m.label}</td>
+                    {columns.map((c, i) => {
+                      const value = m.value(c.result);
+                      const diff = value - baseValue;
+                      const good = m.higherIsBetter ? diff > 0 : diff < 0;
+                      return (
+                        <td key={i} className="px-3 py-2 text-right font-mono text-white">
+                          {formatMetric(value, m.kind)}
+                          {i > 0 && Math.abs(diff) > 0.005 && (
+                            <span className={`block text-[10px] ${good ? 'text-emerald-400' : 'text-red-400'}`}>
+                              {diff > 0 ? '+' : '−'}{formatMetric(Math.abs(diff), m.kind === 'percent' ? 'number' : m.kind)}{m.kind === 'percent' ? ' p.p.' : ''}
+                            </span>
+                          )}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                );
+              })}
+              {base.sellers.map((s, si) => (
+                <tr key={s.id} className="border-b border-gray-800">
+                  <td className="px-3 py-2 font-bold" style={{ color: s.color }}>Atingimento {s.label}</td>
+                  {columns.map((c, i) => (
+                    <td key={i} className="px-3 py-2 text-right font-mono">{formatMetric(c.result.sellers[si].atingimento, 'percent')}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <div className="bg-gray-900 p-4 rounded-xl shadow-xl border border-gray-800">
+          <ChartWrapper height={320} title="Faturamento e Resultado vs Meta">
+            <BarChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#333" vertical={false} />
+              <XAxis dataKey="name" stroke="#9ca3af" fontSize={10} />
+              <YAxis stroke="#9ca3af" fontSize={10} tickFormatter={(v) => `${(v / 1000).toFixed(0)}k`} />
+              <Tooltip contentStyle={{ backgroundColor: '#111827', border: '1px solid #374151', borderRadius: '8px' }} formatter={(v: number) => formatBRL(v)} />
+              <Legend />
+              <ReferenceLine y={base.metaAno} stroke="#ef4444" strokeDasharray="4 4" label={{ value: 'Meta', fill: '#ef4444', fontSize: 10, position: 'insideTopRight' }} />
+              <Bar dataKey="faturamento" name="Faturamento" fill="#10b981" radius={[4, 4, 0, 0]} />
+              <Bar dataKey="lucro" name="Resultado" fill="#3b82f6" radius={[4, 4, 0, 0]} />
+            </BarChart>
+          </ChartWrapper>
+        </div>
+      </section>
+
+      {yearScenarios.length === 0 ? (
+        <p className="text-gray-600 text-sm italic bg-gray-900 border border-gray-800 rounded-xl p-6">
+          Nenhum cenário para {base.year}. Crie um cenário para ajustar resultados, projeções e custos sem mexer nos dados reais.
+        </p>
+      ) : editing && (
+        <section className="bg-gray-900 rounded-xl shadow-xl border border-gray-800 p-4 space-y-5">
+          <div className="flex flex-wrap items-center gap-2">
+            {yearScenarios.map((s, i) => (
+              <button
+                key={s.id}
+                onClick={() => setEditingId(s.id)}
+                className={`text-xs px-3 py-1.5 rounded font-bold border ${s.id === editing.id ? 'text-white border-gray-500 bg-gray-800' : 'text-gray-400 border-gray-800 hover:bg-gray-800'}`}
+                style={{ borderBottomColor: SCENARIO_COLORS[i], borderBottomWidth: 3 }}
+              >
+                {s.name}
+              </button>
+            ))}
+            <div className="ml-auto flex gap-2">
+              <input
+                value={editing.name}
+                onChange={(e) => updateScenario(editing.id, s => ({ ...s, name: e.target.value }))}
+                className="bg-gray-800 text-xs px-2 py-1.5 border border-gray-700 rounded text-white"
+                title="Nome do cenário"
+              />
+              <button onClick={() => duplicateScenario(editing)} disabled={yearScenarios.length >= MAX_SCENARIOS} className="bg-gray-800 hover:bg-gray-700 disabled:opacity-40 text-gray-300 text-[10px] px-2 py-1 rounded font-bold border border-gray-700">
+                Duplicar
+              </button>
+              <button onClick={() => removeScenario(editing.id)} className="bg-gray-800 hover:bg-red-900 text-red-400 text-[10px] px-2 py-1 rounded font-bold border border-gray-700">
+                Excluir
+              </button>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div>
+              <h3 className="text-xs font-black text-gray-400 uppercase tracking-widest mb-2">Resultado Anual dos Vendedores</h3>
+              <table className="w-full text-left text-xs text-gray-300">
+                <thead className="text-gray-500 uppercase text-[10px]">
+                  <tr>
+                    <th className="py-2">Vendedor</th>
+                    <th className="py-2 text-right">Base</th>
+                    <th className="py-2 text-right">Cenário (R$)</th>
+                    <th className="py-2 text-right">% da Meta</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {base.sellers.map(s => {
+                    const value = editing.sellers[s.id] ?? s.resultado;
+                    const setValue = (v: number) => updateScenario(editing.id, sc => ({ ...sc, sellers: { ...sc.sellers, [s.id]: Math.max(0, v) } }));
+                    return (
+                      <tr key={s.id} className="border-b border-gray-800">
+                        <td className="py-2 font-bold" style={{ color: s.color }}>{s.label}</td>
+                        <td className="py-2 text-right font-mono text-gray-500">{formatBRL(s.resultado)}</td>
+                        <td className="py-2 text-right">
+                          <input type="number" step={1000} value={Math.round(value * 100) / 100} onChange={(e) => setValue(parseInput(e.target.value))} className="w-32 bg-gray-800 text-xs px-2 py-1 border border-gray-700 rounded text-white font-mono text-right" />
+                        </td>
+                        <td className="py-2 text-right">
+                          <input
+                            type="number"
+                            step={5}
+                            disabled={s.meta <= 0}
+                            value={s.meta > 0 ? Math.round((value / s.meta) * 1000) / 10 : ''}
+                            onChange={(e) => setValue((parseInput(e.target.value) / 100) * s.meta)}
+                            className="w-20 bg-gray-800 text-xs px-2 py-1 border border-gray-700 rounded text-white font-mono text-right disabled:opacity-30"
+                            title={s.meta > 0 ? `Meta anual: ${formatBRL(s.meta)}` : 'Vendedor sem meta anual'}
+                          />
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+
+            <div>
+              <h3 className="text-xs font-black text-gray-400 uppercase tracking-widest mb-2">Variação de Custos</h3>
+              <div className="space-y-3">
+                {base.grupos.map(g => (
+                  <label key={g.key} className="flex items-center justify-between gap-3 text-xs">
+                    <span className="font-bold text-gray-300 w-40">{g.label}</span>
+                    <span className="font-mono text-gray-500 flex-1 text-right">{formatBRL(base.custos[g.key])}</span>
+                    <span className="flex items-center gap-1">
+                      <input
+                        type="number"
+                        step={1}
+                        value={editing.costs[g.key] || 0}
+                        onChange={(e) => updateScenario(editing.id, sc => ({ ...sc, costs: { ...sc.costs, [g.key]: Math.max(-100, parseInput(e.target.value)) } }))}
+                        className="w-20 bg-gray-800 text-xs px-2 py-1 border border-gray-700 rounded text-white font-mono text-right"
+                      />
+                      <span className="text-gray-500">%</span>
+                    </span>
+                  </label>
+                ))}
+                <p className="text-[10px] text-gray-500">Ex.: −10 em um fornecedor simula compras 10% menores para o mesmo volume faturado.</p>
+              </div>
+            </div>
+          </div>
+
+          <div>
+            <button onClick={() => setShowClients(!showClients)} className="text-xs font-black text-gray-400 uppercase tracking-widest hover:text-white">
+              {showClients ? '▾' : '▸'} Projeção {base.year} dos Clientes Top 20
+            </button>
+            {showClients && (
+              <table className="w-full text-left text-xs text-gray-300 mt-2">
+                <thead className="text-gray-500 uppercase text-[10px]">
+                  <tr>
+                    <th className="py-2">Cliente</th>
+                    <th className="py-2 text-right">Atual</th>
+                    <th className="py-2 text-right">Cenário (R$)</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {base.clientes.map((c: any) => (
+                    <tr key={c.id} className="border-b border-gray-800">
+                      <td className="py-1.5 font-bold text-white">{c.nome}</td>
+                      <td className="py-1.5 text-right font-mono text-gray-500">{formatBRL(clientYearValue(c, base.year))}</td>
+                      <td className="py-1.5 text-right">
+                        <input
+                          type="number"
+                          step={1000}
+                          value={editing.clients[String(c.id)] ?? clientYearValue(c, base.year)}
+                          onChange={(e) => updateScenario(editing.id, sc => ({ ...sc, clients: { ...sc.clients, [String(c.id)]: Math.max(0, parseInput(e.target.value)) } }))}
+                          className="w-32 bg-gray-800 text-xs px-2 py-1 border border-gray-700 rounded text-white font-mono text-right"
+                        />
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </section>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,108 @@
+import React from 'react';
+import { TargetReconciliation } from '../kpi';
+import { ExportButtons } from './ExportButtons';
+
+const formatBRL = (value: number): string =>
+  new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL', minimumFractionDigits: 2 }).format(value || 0);
+
+const DiffCell = ({ value, divergente }: { value: number, divergente: boolean }) => (
+  <td className={`px-3 py-2 font-mono font-bold ${!divergente ? 'text-gray-600' : value > 0 ? 'text-amber-400' : 'text-red-400'}`}>
+    {divergente ? `${value > 0 ? '+' : ''}${formatBRL(value)}` : 'OK'}
+  </td>
+);
+
+/**
+ * Conciliação das metas individuais: mostra, mês a mês, onde a soma das metas dos vendedores
+ * não fecha com a meta da empresa e, por vendedor, onde a soma mensal difere da meta anual.
+ */
+export const SellerTargetReconciliation = ({ year, reconciliation }: { year: string, reconciliation: TargetReconciliation }) => {
+  const { months, sellers } = reconciliation;
+
+  const getExportTable = () => ({
+    columns: [
+      { key: 'month', label: 'Mês' },
+      { key: 'metaEmpresa', label: 'Meta Empresa (R$)', kind: 'currency' as const },
+      ...sellers.map(s => ({ key: s.id, label: `${s.label} (R$)`, kind: 'currency' as const })),
+      { key: 'somaVendedores', label: 'Soma Vendedores (R$)', kind: 'currency' as const },
+      { key: 'diferenca', label: 'Diferença (R$)', kind: 'currency' as const },
+    ],
+    rows: [
+      ...months.map(m => ({ month: m.month, metaEmpresa: m.metaEmpresa, ...m.sellers, somaVendedores: m.somaVendedores, diferenca: m.diferenca })),
+      {
+        month: 'Total',
+        metaEmpresa: reconciliation.metaEmpresa,
+        ...Object.fromEntries(sellers.map(s => [s.id, s.somaMensal])),
+        somaVendedores: reconciliation.somaVendedores,
+        diferenca: reconciliation.somaVendedores - reconciliation.metaEmpresa,
+      },
+      {
+        month: 'Meta anual cadastrada',
+        ...Object.fromEntries(sellers.map(s => [s.id, s.metaAnual])),
+      },
+    ],
+  });
+
+  return (
+    <section className="bg-gray-900 p-6 rounded-2xl border border-gray-800 space-y-5">
+      <div className="flex flex-col md:flex-row justify-between md:items-center gap-4">
+        <div>
+          <h2 className="text-white font-black italic uppercase text-xl">Conciliação de Metas {year}</h2>
+          <p className="text-gray-500 text-xs">
+            {reconciliation.mesesDivergentes === 0
+              ? 'A soma das metas individuais fecha com a meta da empresa em todos os meses.'
+              : <><span className="text-amber-400 font-bold">{reconciliation.mesesDivergentes}</span> {reconciliation.mesesDivergentes === 1 ? 'mês' : 'meses'} em que a soma dos vendedores difere da meta da empresa.</>}
+          </p>
+        </div>
+        <ExportButtons fileName={`Conciliação de Metas ${year}`} getTable={getExportTable} />
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-right text-xs text-gray-300">
+          <thead className="bg-gray-950 text-gray-400 uppercase">
+            <tr>
+              <th className="px-3 py-3 text-left">Mês</th>
+              <th className="px-3 py-3">Meta Empresa</th>
+              {sellers.map(s => <th key={s.id} className="px-3 py-3" style={{ color: s.color }}>{s.label}</th>)}
+              <th className="px-3 py-3">Soma Vendedores</th>
+              <th className="px-3 py-3">Diferença</th>
+            </tr>
+          </thead>
+          <tbody>
+            {months.map(m => (
+              <tr key={m.month} className={`border-b border-gray-800 ${m.divergente ? 'bg-amber-500/5' : ''}`}>
+                <td className="px-3 py-2 text-left font-bold">{m.month}</td>
+                <td className="px-3 py-2 font-mono">{formatBRL(m.metaEmpresa)}</td>
+                {sellers.map(s => <td key={s.id} className="px-3 py-2 font-mono text-gray-400">{formatBRL(m.sellers[s.id])}</td>)}
+                <td className="px-3 py-2 font-mono">{formatBRL(m.somaVendedores)}</td>
+                <DiffCell value={m.diferenca} divergente={m.divergente} />
+              </tr>
+            ))}
+          </tbody>
+          <tfoot>
+            <tr className="border-t-2 border-gray-700 font-black">
+              <td className="px-3 py-2 text-left uppercase">Total</td>
+              <td className="px-3 py-2 font-mono">{formatBRL(reconciliation.metaEmpresa)}</td>
+              {sellers.map(s => <td key={s.id} className="px-3 py-2 font-mono">{formatBRL(s.somaMensal)}</td>)}
+              <td className="px-3 py-2 font-mono">{formatBRL(reconciliation.somaVendedores)}</td>
+              <td></td>
+            </tr>
+            <tr>
+              <td className="px-3 py-2 text-left text-[10px] text-gray-500 font-bold uppercase" colSpan={2}>Meta anual cadastrada</td>
+              {sellers.map(s => (
+                <td key={s.id} className="px-3 py-2 font-mono text-gray-500">
+                  {formatBRL(s.metaAnual)}
+                  {s.divergente && (
+                    <span className={`block text-[9px] font-bold ${s.diferenca > 0 ? 'text-amber-400' : 'text-red-400'}`}>
+                      {s.diferenca > 0 ? '+' : ''}{formatBRL(s.diferenca)} nos meses
+                    </span>
+                  )}
+                </td>
+              ))}
+              <td colSpan={2}></td>
+            </tr>
+          </tfoot>
+        </table>
+      </div>
+    </section>
+  );
+};
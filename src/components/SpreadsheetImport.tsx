@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import { SheetTable, readSpreadsheetFile, guessMapping, mapImportedRows } from '../../utils/spreadsheet';
+import { ColumnSchema } from '../sheetSchemas';
+
+export const SpreadsheetImport = ({ columns, onImport, onClose }: {
+  columns: ColumnSchema[],
+  onImport: (rows: any[], mode: 'append' | 'replace') => void,
+  onClose: () => void
+}) => {
+  const [table, setTable] = useState<SheetTable | null>(null);
+  const [mapping, setMapping] = useState<Record<string, string>>({});
+  const [fileError, setFileError] = useState('');
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const parsed = await readSpreadsheetFile(file);
+      if (parsed.headers.length === 0) throw new Error('Arquivo sem cabeçalho.');
+      setTable(parsed);
+      setMapping(guessMapping(columns.map(c => c.key), parsed.headers));
+      setFileError('');
+    } catch (err: any) {
+      setTable(null);
+      setFileError(`Não foi possível ler o arquivo: ${err?.message || err}`);
+    }
+  };
+
+  const result = table ? mapImportedRows(table, columns, mapping) : null;
+
+  const confirmImport = (mode: 'append' | 'replace') => {
+    if (!result || result.rows.length === 0) return;
+    if (mode === 'replace' && !confirm(`Substituir todas as linhas da planilha por ${result.rows.length} linhas importadas?`)) return;
+    onImport(result.rows, mode);
+    onClose();
+  };
+
+  return (
+    <div className="bg-gray-950 border border-blue-900/50 rounded-xl p-4 mb-4 space-y-4">
+      <div className="flex justify-between items-center">
+        <p className="text-blue-300 text-xs font-black uppercase tracking-wider">Importar CSV / XLSX</p>
+        <button onClick={onClose} className="text-gray-500 hover:text-white text-xs font-bold">Fechar ×</button>
+      </div>
+      <input type="file" accept=".csv,.txt,.xlsx,.xls" onChange={handleFile} className="text-xs text-gray-400" />
+      {fileError && <p className="text-red-400 text-xs">{fileError}</p>}
+
+      {table && result && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+            {columns.map(({ key }) => (
+              <label key={key} className="flex flex-col gap-1 text-[10px] uppercase font-bold text-gray-400">
+                {key}
+                <select
+                  value={mapping[key] || ''}
+                  onChange={(e) => setMapping({ ...mapping, [key]: e.target.value })}
+                  className="bg-gray-800 text-xs px-2 py-1 border border-gray-700 rounded text-white normal-case font-normal"
+                >
+                  <option value="">— não importar —</option>
+                  {table.headers.map(h => <option key={h} value={h}>{h}</option>)}
+                </select>
+              </label>
+            ))}
+          </div>
+
+          <p className="text-xs text-gray-400">
+            <span className="text-emerald-400 font-bold">{result.rows.length}</span> linhas válidas
+            {result.errors.length > 0 && <>, <span className="text-red-400 font-bold">{new Set(result.errors.map(e => e.row)).size}</span> com erro (serão ignoradas)</>}
+          </p>
+
+          {result.errors.length > 0 && (
+            <ul className="max-h-40 overflow-y-auto custom-scrollbar text-xs text-red-300 space-y-1 bg-red-950/20 border border-red-900/50 rounded p-3">
+              {result.errors.map((err, i) => (
+                <li key={i}>Linha {err.row}, coluna {err.column}: {err.message}</li>
+              ))}
+            </ul>
+          )}
+
+          <div className="flex gap-2">
+            <button onClick={() => confirmImport('append')} disabled={result.rows.length === 0} className="bg-emerald-600 hover:bg-emerald-700 disabled:opacity-40 text-white px-4 py-2 rounded text-xs font-bold">
+              Acrescentar Linhas
+            </button>
+            <button onClick={() => confirmImport('replace')} disabled={result.rows.length === 0} className="bg-red-700 hover:bg-red-800 disabled:opacity-40 text-white px-4 py-2 rounded text-xs font-bold">
+              Substituir Planilha
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,139 @@
+import React from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend } from 'recharts';
+import { ChartWrapper } from '../../components/ChartWrapper';
+import { ExportButtons } from './ExportButtons';
+import { COMMITMENT_STATUS_LABELS, CommitmentStatus, SupplierCommitment, commitmentStatus } from '../kpi';
+
+const formatBRL = (value: number): string =>
+  new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL', minimumFractionDigits: 2 }).format(value || 0);
+
+const STATUS_TEXT: Record<CommitmentStatus, string> = {
+  critico: 'text-red-500',
+  atencao: 'text-amber-500',
+  cumprido: 'text-emerald-400',
+};
+
+const STATUS_BAR: Record<CommitmentStatus, string> = {
+  critico: 'bg-red-500',
+  atencao: 'bg-amber-500',
+  cumprido: 'bg-emerald-500',
+};
+
+const STATUS_BADGE: Record<CommitmentStatus, string> = {
+  critico: 'bg-red-950 text-red-400 border-red-900',
+  atencao: 'bg-amber-950 text-amber-400 border-amber-900',
+  cumprido: 'bg-emerald-950 text-emerald-400 border-emerald-900',
+};
+
+// % da meta na cor da faixa (vermelho abaixo de 50%, âmbar a partir de 50%, verde a partir de 100%).
+export const CommitmentPerc = ({ perc, digits = 2 }: { perc: number, digits?: number }) => (
+  <span className={STATUS_TEXT[commitmentStatus(perc)]}>{perc.toFixed(digits)}%</span>
+);
+
+// Barra de progresso da METRICA 2; o que passa de 100% aparece como excedente.
+export const CommitmentBar = ({ perc }: { perc: number }) => (
+  <div className="flex items-center gap-2 font-mono text-xs">
+    <div className="flex-1 h-3 bg-gray-800 rounded-full overflow-hidden relative">
+      <div className={`h-full ${STATUS_BAR[commitmentStatus(perc)]} transition-all duration-500`} style={{ width: `${Math.min(perc, 100)}%` }}></div>
+      {perc > 100 && (
+        <div className="absolute top-0 bottom-0 right-0 left-0 bg-emerald-500 opacity-50" style={{ width: `${Math.min(perc - 100, 100)}%`, left: '100%' }}></div>
+      )}
+    </div>
+    <span className="min-w-[40px] text-right">{perc.toFixed(0)}%</span>
+  </div>
+);
+
+/**
+ * Compromisso de compras com o fornecedor: ritmo até o último mês fechado, fechamento do ano
+ * na média atual e quanto comprar por mês para cumprir a meta anual do acordo.
+ */
+export const SupplierCommitmentPanel = ({ year, commitment }: { year: string, commitment: SupplierCommitment }) => {
+  const { categoria, months } = commitment;
+  const ultimoFechado = months.filter(m => m.fechado).pop()?.mes;
+  const projecaoStatus = commitmentStatus(commitment.projecaoPerc);
+  const acimaDaMedia = commitment.mediaMensal > 0 ? ((commitment.necessarioMensal / commitment.mediaMensal) - 1) * 100 : null;
+
+  const getExportTable = () => ({
+    columns: [
+      { key: 'mes', label: 'Mês' },
+      { key: 'situacao', label: 'Situação' },
+      { key: 'meta', label: 'Meta (R$)', kind: 'currency' as const },
+      { key: 'compra', label: 'Compra (R$)', kind: 'currency' as const },
+      { key: 'perc', label: '% da Meta', kind: 'percent' as const },
+      { key: 'metaAcumulada', label: 'Meta Acumulada (R$)', kind: 'currency' as const },
+      { key: 'compraAcumulada', label: 'Compra Acumulada (R$)', kind: 'currency' as const },
+      { key: 'projecaoAcumulada', label: 'Projeção no Ritmo Atual (R$)', kind: 'currency' as const },
+      { key: 'necessarioAcumulado', label: 'Trajetória Necessária (R$)', kind: 'currency' as const },
+    ],
+    rows: months.map(m => ({
+      ...m,
+      situacao: m.fechado ? 'Fechado' : m.naoLancado ? 'Não lançado' : 'Em aberto',
+      compraAcumulada: m.compraAcumulada ?? '',
+      projecaoAcumulada: m.projecaoAcumulada ?? '',
+      necessarioAcumulado: m.necessarioAcumulado ?? '',
+    })),
+  });
+
+  return (
+    <section className="bg-gray-900 p-6 rounded-2xl border border-gray-800 space-y-6">
+      <div className="flex flex-wrap justify-between items-start gap-4">
+        <div>
+          <h2 className="text-pink-400 font-bold italic uppercase">Compromisso de Compras: {categoria.label} — {year}</h2>
+          <p className="text-gray-500 text-xs mt-1">
+            Ritmo medido nos meses fechados{ultimoFechado ? ` (até ${ultimoFechado})` : ''}; a projeção mantém a compra média mensal até dezembro.
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <span className={`px-2 py-1 rounded border text-[10px] font-black uppercase ${STATUS_BADGE[commitment.status]}`}>
+            {COMMITMENT_STATUS_LABELS[commitment.status]}
+          </span>
+          <ExportButtons fileName={`Compromisso ${categoria.label} ${year}`} getTable={getExportTable} />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 xl:grid-cols-4 gap-4">
+        <div className="bg-gray-950 p-4 rounded-xl border border-gray-800">
+          <p className="text-[10px] text-gray-500 uppercase font-bold">Esperado até {ultimoFechado || 'agora'}</p>
+          <p className="text-xl font-black text-white mt-1">{formatBRL(commitment.esperado)}</p>
+          <p className="text-[9px] text-gray-600 font-bold uppercase">meta anual {formatBRL(commitment.metaAno)}</p>
+        </div>
+        <div className="bg-gray-950 p-4 rounded-xl border border-gray-800">
+          <p className="text-[10px] text-gray-500 uppercase font-bold">Comprado nos Meses Fechados</p>
+          <p className="text-xl font-black text-white mt-1">{formatBRL(commitment.realizado)}</p>
+          <p className="text-[9px] font-bold uppercase"><CommitmentPerc perc={commitment.ritmo} digits={1} /> <span className="text-gray-600">do esperado</span></p>
+          {commitment.emAberto > 0 && <p className="text-[9px] text-gray-600 font-bold uppercase">+ {formatBRL(commitment.emAberto)} em aberto</p>}
+        </div>
+        <div className="bg-gray-950 p-4 rounded-xl border border-gray-800">
+          <p className="text-[10px] text-gray-500 uppercase font-bold">Fechamento no Ritmo Atual</p>
+          <p className={`text-xl font-black mt-1 ${STATUS_TEXT[projecaoStatus]}`}>{formatBRL(commitment.projecaoAno)}</p>
+          <p className="text-[9px] text-gray-600 font-bold uppercase">
+            {commitment.projecaoPerc.toFixed(1)}% da meta · média {formatBRL(commitment.mediaMensal)}/mês
+          </p>
+        </div>
+        <div className="bg-gray-950 p-4 rounded-xl border border-gray-800">
+          <p className="text-[10px] text-gray-500 uppercase font-bold">Compra Mensal Necessária</p>
+          <p className="text-xl font-black text-amber-400 mt-1">{formatBRL(commitment.necessarioMensal)}</p>
+          <p className="text-[9px] text-gray-600 font-bold uppercase">
+            {commitment.mesesRestantes > 0
+              ? `${formatBRL(commitment.falta)} em ${commitment.mesesRestantes} ${commitment.mesesRestantes === 1 ? 'mês' : 'meses'}${acimaDaMedia !== null ? ` · ${acimaDaMedia >= 0 ? '+' : ''}${acimaDaMedia.toFixed(0)}% vs média` : ''}`
+              : 'ano fechado'}
+          </p>
+        </div>
+      </div>
+
+      <ChartWrapper height={280}>
+        <LineChart data={months}>
+          <CartesianGrid stroke="#374151" strokeDasharray="3 3" />
+          <XAxis dataKey="mes" stroke="#9ca3af" />
+          <YAxis tickFormatter={v => formatBRL(v)} stroke="#9ca3af" width={100} />
+          <Tooltip formatter={(v: any) => formatBRL(v)} />
+          <Legend wrapperStyle={{ fontSize: '11px', fontWeight: 'bold' }} />
+          <Line dataKey="metaAcumulada" stroke="#6b7280" strokeWidth={3} dot={false} name="Meta acumulada" />
+          <Line dataKey="compraAcumulada" stroke="#ec4899" strokeWidth={3} dot={{ r: 3 }} name="Compras (meses fechados)" />
+          <Line dataKey="projecaoAcumulada" stroke="#f472b6" strokeWidth={2} strokeDasharray="6 4" dot={false} name="Ritmo atual" />
+          <Line dataKey="necessarioAcumulado" stroke="#f59e0b" strokeWidth={2} strokeDasharray="3 3" dot={false} name="Ritmo necessário" />
+        </LineChart>
+      </ChartWrapper>
+    </section>
+  );
+};
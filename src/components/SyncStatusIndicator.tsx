@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+import { ServerSync, SyncStatus } from '../storage/useServerSync';
+import { DatasetKey } from '../storage/migrations';
+import { WORKSPACE_FIELDS, WORKSPACE_LABELS, WorkspaceField } from '../storage/backup';
+
+const STATUS_STYLE: Record<Exclude<SyncStatus, 'disabled'>, { label: string; dot: string; text: string }> = {
+  connecting: { label: 'CONECTANDO...', dot: 'bg-gray-400 animate-pulse', text: 'text-gray-200' },
+  synced: { label: 'SINCRONIZADO', dot: 'bg-emerald-400', text: 'text-emerald-200' },
+  pending: { label: 'ENVIO PENDENTE', dot: 'bg-amber-400 animate-pulse', text: 'text-amber-200' },
+  syncing: { label: 'SINCRONIZANDO...', dot: 'bg-blue-400 animate-pulse', text: 'text-blue-200' },
+  offline: { label: 'OFFLINE', dot: 'bg-gray-500', text: 'text-gray-300' },
+  conflict: { label: 'CONFLITO', dot: 'bg-red-300 animate-pulse', text: 'text-red-100' },
+  error: { label: 'ERRO NA SINCRONIZAÇÃO', dot: 'bg-red-300 animate-pulse', text: 'text-red-100' },
+};
+
+// Datasets que não fazem parte do backup de planilhas.
+const EXTRA_LABELS: Partial<Record<DatasetKey, string>> = {
+  'skg-audit-log': 'Auditoria',
+  'skg-scenarios': 'Cenários',
+  'skg-catch-up': 'Plano de Recuperação',
+  'skg-logistica': 'Eficiência Logística',
+  'skg-alocacao-custos': 'Rateio de Custos',
+};
+
+const datasetLabel = (key: DatasetKey) => {
+  const field = (Object.keys(WORKSPACE_FIELDS) as WorkspaceField[]).find(f => WORKSPACE_FIELDS[f] === key);
+  return field ? WORKSPACE_LABELS[field] : EXTRA_LABELS[key] || key;
+};
+
+export const SyncStatusIndicator = ({ sync }: { sync: ServerSync }) => {
+  const [open, setOpen] = useState(false);
+  if (sync.status === 'disabled') return null;
+
+  const style = STATUS_STYLE[sync.status];
+  const title = sync.status === 'error'
+    ? `Falha: ${sync.error}`
+    : sync.status === 'offline'
+      ? `Servidor indisponível. ${sync.queue.length} planilha(s) aguardando envio.`
+      : sync.lastSyncedAt ? `Última sincronização: ${sync.lastSyncedAt.toLocaleTimeString('pt-BR')}` : 'Sincronização com o servidor da equipe';
+
+  return (
+    <div className="relative">
+      <button onClick={() => setOpen(!open)} className="flex items-center gap-2 bg-red-950/60 px-3 py-2 rounded" title={title}>
+        <span className={`w-2.5 h-2.5 rounded-full ${style.dot}`}></span>
+        <span className={`text-[10px] font-black tracking-wider ${style.text}`}>{style.label}</span>
+        {sync.queue.length > 0 && <span className="text-[10px] font-bold text-amber-200">({sync.queue.length})</span>}
+      </button>
+      {open && (
+        <div className="absolute right-0 mt-2 w-96 bg-gray-900 border border-gray-700 rounded-xl shadow-2xl p-4 z-50 text-xs space-y-3">
+          <div className="flex justify-between items-center">
+            <p className="text-white font-bold">Servidor da equipe</p>
+            <button onClick={() => sync.syncNow()} className="bg-gray-800 hover:bg-gray-700 text-white px-2 py-1 rounded font-bold border border-gray-700">
+              ⟳ Sincronizar agora
+            </button>
+          </div>
+          <p className="text-gray-400">{title}</p>
+          {sync.queue.length > 0 && (
+            <p className="text-amber-300">Aguardando envio: {sync.queue.map(datasetLabel).join(', ')}</p>
+          )}
+          {sync.conflicts.map(conflict => (
+            <div key={conflict.key} className="bg-red-950/30 border border-red-900/50 rounded p-3 space-y-2">
+              <p className="text-red-300">
+                <span className="font-bold text-white">{datasetLabel(conflict.key)}</span> foi alterada no servidor por{' '}
+                <span className="font-bold">{conflict.updatedBy}</span> em {new Date(conflict.updatedAt).toLocaleString('pt-BR')} (revisão {conflict.revision}).
+              </p>
+              <div className="flex gap-2">
+                <button onClick={() => sync.resolveConflict(conflict.key, 'local')} className="bg-blue-600 hover:bg-blue-700 text-white px-2 py-1 rounded font-bold">
+                  Manter a minha
+                </button>
+                <button onClick={() => sync.resolveConflict(conflict.key, 'remote')} className="bg-gray-800 hover:bg-gray-700 text-white px-2 py-1 rounded font-bold border border-gray-700">
+                  Usar a do servidor
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
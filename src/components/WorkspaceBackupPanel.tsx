@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import {
+  Workspace, ParsedBackup, WORKSPACE_LABELS,
+  downloadBackup, parseBackup, diffWorkspace, mergeWorkspace, replaceWorkspace
+} from '../storage/backup';
+
+export const WorkspaceBackupPanel = ({ workspace, onApply }: { workspace: Workspace, onApply: (next: Workspace) => void }) => {
+  const [parsed, setParsed] = useState<ParsedBackup | null>(null);
+  const [fileName, setFileName] = useState('');
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setFileName(file.name);
+    setParsed(parseBackup(await file.text()));
+  };
+
+  const apply = (mode: 'merge' | 'replace') => {
+    if (!parsed) return;
+    if (mode === 'replace' && !confirm('Substituir os datasets do backup? As planilhas correspondentes serão sobrescritas.')) return;
+    onApply(mode === 'merge' ? mergeWorkspace(workspace, parsed.workspace) : replaceWorkspace(workspace, parsed.workspace));
+    setParsed(null);
+  };
+
+  const diffs = parsed && parsed.errors.length === 0 ? diffWorkspace(workspace, parsed.workspace) : [];
+
+  return (
+    <div className="bg-gray-900 p-4 rounded-xl shadow-xl border border-gray-800">
+      <div className="flex flex-col md:flex-row justify-between md:items-center gap-4">
+        <div>
+          <h3 className="text-white font-bold text-lg">Backup do Workspace</h3>
+          <p className="text-gray-500 text-xs">Exporta todas as planilhas em um único arquivo JSON para levar a outra máquina ou restaurar depois.</p>
+        </div>
+        <div className="flex gap-2">
+          <button onClick={() => downloadBackup(workspace)} className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded text-xs font-bold">
+            ⬇ Exportar Backup
+          </button>
+          <label className="bg-gray-800 hover:bg-gray-700 text-white px-4 py-2 rounded text-xs font-bold cursor-pointer border border-gray-700">
+            ⬆ Importar Backup
+            <input type="file" accept="application/json,.json" onChange={handleFile} className="hidden" />
+          </label>
+        </div>
+      </div>
+
+      {parsed && (
+        <div className="mt-4 border-t border-gray-800 pt-4 space-y-3">
+          <p className="text-xs text-gray-400">
+            Arquivo: <span className="text-white font-bold">{fileName}</span>
+            {parsed.exportedAt && <> — exportado em {new Date(parsed.exportedAt).toLocaleString('pt-BR')}</>}
+          </p>
+
+          {parsed.errors.length > 0 ? (
+            <div className="bg-red-950/30 border border-red-900/50 rounded p-3 max-h-48 overflow-y-auto custom-scrollbar">
+              <p className="text-red-400 text-xs font-black uppercase mb-2">Backup inválido — nada foi importado</p>
+              <ul className="text-xs text-red-300 space-y-1">
+                {parsed.errors.map((err, i) => <li key={i}>{err}</li>)}
+              </ul>
+            </div>
+          ) : (
+            <table className="w-full text-left text-sm text-gray-300">
+              <thead className="bg-gray-950 text-gray-400 text-xs uppercase">
+                <tr>
+                  <th className="px-4 py-2">Planilha</th>
+                  <th className="px-4 py-2 text-right">Novas</th>
+                  <th className="px-4 py-2 text-right">Alteradas</th>
+                  <th className="px-4 py-2 text-right">Só no local</th>
+                  <th className="px-4 py-2 text-right">Iguais</th>
+                </tr>
+              </thead>
+              <tbody>
+                {diffs.map(d => (
+                  <tr key={d.field} className="border-b border-gray-800">
+                    <td className="px-4 py-2 font-bold text-white">{WORKSPACE_LABELS[d.field]}</td>
+                    <td className="px-4 py-2 text-right text-emerald-400" title={d.added.join(', ')}>{d.added.length}</td>
+                    <td className="px-4 py-2 text-right text-amber-400" title={d.changed.join(', ')}>{d.changed.length}</td>
+                    <td className="px-4 py-2 text-right text-red-400" title={d.removed.join(', ')}>{d.removed.length}</td>
+                    <td className="px-4 py-2 text-right text-gray-500">{d.unchanged}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          <div className="flex gap-2">
+            {parsed.errors.length === 0 && (
+              <>
+                <button onClick={() => apply('merge')} className="bg-emerald-600 hover:bg-emerald-700 text-white px-4 py-2 rounded text-xs font-bold" title="Atualiza linhas existentes, acrescenta as novas e mantém as que só existem aqui">
+                  Mesclar
+                </button>
+                <button onClick={() => apply('replace')} className="bg-red-700 hover:bg-red-800 text-white px-4 py-2 rounded text-xs font-bold" title="Substitui cada planilha presente no backup">
+                  Substituir
+                </button>
+              </>
+            )}
+            <button onClick={() => setParsed(null)} className="text-gray-400 hover:text-white px-4 py-2 text-xs font-bold">
+              Cancelar
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -3,11 +3,14 @@ import {
   LineChart, Line, BarChart, Bar, XAxis, YAxis, 
   CartesianGrid, Tooltip, Legend, ResponsiveContainer 
 } from 'recharts';
+import { ExportButtons } from './ExportButtons';
+import { ExportColumn } from '../../utils/spreadsheet';
+import { YearKeyed, listYears } from '../yearlyData';
 
 const formatBRL = (value: number): string => 
   new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL', minimumFractionDigits: 2 }).format(value || 0);
 
-export const YoYComparison = ({ metas }: { metas: any[] }) => {
+export const YoYComparison = ({ metasByYear }: { metasByYear: YearKeyed }) => {
   const [selectedYears, setSelectedYears] = useState(['2024', '2025', '2026']);
   const [chartType, setChartType] = useState('line');
 
@@ -29,25 +32,15 @@ export const YoYComparison = ({ metas }: { metas: any[] }) => {
       if (selectedYears.includes('2024')) data['2024'] = data2024[idx];
       if (selectedYears.includes('2025')) data['2025'] = data2025[idx];
       
-      // Dynamic 2026 data from metas
-      if (selectedYears.includes('2026')) {
-        const val2026 = metas[idx]?.r2026 || 0;
-        data['2026'] = val2026 > 0 ? val2026 : null;
-      }
-      
-      if (selectedYears.includes('2027')) {
-        const val2027 = metas[idx]?.r2027 || 0;
-        data['2027'] = val2027 > 0 ? val2027 : null;
-      }
-
-      if (selectedYears.includes('2028')) {
-        const val2028 = metas[idx]?.r2028 || 0;
-        data['2028'] = val2028 > 0 ? val2028 : null;
-      }
+      // Dynamic data from the yearly metas (2026 onwards)
+      listYears(metasByYear).filter(year => selectedYears.includes(year)).forEach(year => {
+        const value = metasByYear[year]?.[idx]?.realizado || 0;
+        data[year] = value > 0 ? value : null;
+      });
 
       return data;
     });
-  }, [metas, selectedYears]);
+  }, [metasByYear, selectedYears]);
 
   const toggleYear = (year: string) => {
     setSelectedYears(prev => 
@@ -55,12 +48,31 @@ export const YoYComparison = ({ metas }: { metas: any[] }) => {
     );
   };
 
-  const colors = {
+  const allYears = Array.from(new Set(['2024', '2025', ...listYears(metasByYear)])).sort();
+
+  const colors: Record<string, string> = {
     '2024': '#9ca3af', // gray
     '2025': '#f59e0b', // amber
     '2026': '#10b981', // emerald
     '2027': '#3b82f6', // blue
     '2028': '#8b5cf6', // purple
+    '2029': '#ec4899', // pink
+    '2030': '#14b8a6', // teal
+  };
+  const colorOf = (year: string) => colors[year] || '#e5e7eb';
+
+  const getExportTable = () => {
+    const showYoY = selectedYears.includes('2025') && selectedYears.includes('2026');
+    const columns: ExportColumn[] = [
+      { key: 'month', label: 'Mês' },
+      ...[...selectedYears].sort().map(year => ({ key: year, label: `Faturamento ${year} (R$)`, kind: 'currency' as const })),
+      ...(showYoY ? [{ key: 'yoy', label: 'YoY 26 vs 25 (%)', kind: 'percent' as const }] : []),
+    ];
+    const rows = chartData.map(row => ({
+      ...row,
+      yoy: row['2026'] && row['2025'] ? ((row['2026'] - row['2025']) / row['2025']) * 100 : null,
+    }));
+    return { columns, rows };
   };
 
   const CustomTooltip = ({ active, payload, label }: any) => {
@@ -86,17 +98,17 @@ export const YoYComparison = ({ metas }: { metas: any[] }) => {
       <section className="bg-[#0a0c10] p-8 rounded-3xl border border-gray-800 shadow-2xl">
         <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-10 gap-4 border-b border-gray-800 pb-6">
           <div>
-            <h2 className="text-white font-black italic text-3xl uppercase tracking-tighter">Faturamento mensal — comparação 2024–2028</h2>
+            <h2 className="text-white font-black italic text-3xl uppercase tracking-tighter">Faturamento mensal — comparação 2024–{allYears[allYears.length - 1]}</h2>
             <p className="text-xs text-gray-500 mt-1 uppercase font-bold italic tracking-widest">Análise de Sazonalidade e Crescimento (YoY / MoM)</p>
           </div>
           <div className="flex items-center gap-4">
              <div className="flex gap-2 bg-gray-950 p-2 rounded-xl border border-gray-800">
-                {['2024', '2025', '2026', '2027', '2028'].map(year => (
+                {allYears.map(year => (
                   <button 
                     key={year}
                     onClick={() => toggleYear(year)}
                     className={`px-3 py-1 rounded text-xs font-bold transition-all ${selectedYears.includes(year) ? 'bg-gray-800 text-white' : 'text-gray-600 hover:text-gray-400'}`}
-                    style={selectedYears.includes(year) ? { borderBottom: `2px solid ${colors[year as keyof typeof colors]}` } : {}}
+                    style={selectedYears.includes(year) ? { borderBottom: `2px solid ${colorOf(year)}` } : {}}
                   >
                     {year}
                   </button>
@@ -122,14 +134,14 @@ export const YoYComparison = ({ metas }: { metas: any[] }) => {
                 <YAxis stroke="#444" fontSize={10} width={80} tickFormatter={v => `R$${(v/1000).toFixed(0)}k`} />
                 <Tooltip content={<CustomTooltip />} />
                 <Legend wrapperStyle={{ paddingTop: '20px' }} />
-                {['2024', '2025', '2026', '2027', '2028'].map(year => (
+                {allYears.map(year => (
                   selectedYears.includes(year) && (
                     <Line 
                       key={year}
                       type="monotone" 
                       dataKey={year} 
                       name={year} 
-                      stroke={colors[year as keyof typeof colors]} 
+                      stroke={colorOf(year)} 
                       strokeWidth={3}
                       dot={{ r: 4, strokeWidth: 2 }}
                       activeDot={{ r: 6 }}
@@ -145,13 +157,13 @@ export const YoYComparison = ({ metas }: { metas: any[] }) => {
                 <YAxis stroke="#444" fontSize={10} width={80} tickFormatter={v => `R$${(v/1000).toFixed(0)}k`} />
                 <Tooltip content={<CustomTooltip />} />
                 <Legend wrapperStyle={{ paddingTop: '20px' }} />
-                {['2024', '2025', '2026', '2027', '2028'].map(year => (
+                {allYears.map(year => (
                   selectedYears.includes(year) && (
                     <Bar 
                       key={year}
                       dataKey={year} 
                       name={year} 
-                      fill={colors[year as keyof typeof colors]} 
+                      fill={colorOf(year)} 
                       radius={[4, 4, 0, 0]}
                     />
                   )
@@ -163,14 +175,17 @@ export const YoYComparison = ({ metas }: { metas: any[] }) => {
       </section>
       
       <section className="bg-[#0a0c10] p-6 rounded-3xl border border-gray-800 shadow-xl overflow-hidden flex flex-col">
-        <h2 className="text-white font-bold italic text-sm uppercase tracking-widest mb-6 border-b border-gray-800 pb-2">Valores Mensais e Comparações (YoY)</h2>
+        <div className="flex justify-between items-center mb-6 border-b border-gray-800 pb-2">
+          <h2 className="text-white font-bold italic text-sm uppercase tracking-widest">Valores Mensais e Comparações (YoY)</h2>
+          <ExportButtons fileName="Comparativo YoY" getTable={getExportTable} />
+        </div>
         <div className="flex-1 overflow-x-auto">
           <table className="w-full text-left text-sm text-gray-300">
             <thead className="bg-gray-950 text-gray-400 text-[10px] uppercase font-bold tracking-wider">
                <tr>
                   <th className="px-4 py-3">Mês</th>
                   {selectedYears.map(year => (
-                    <th key={year} className="px-4 py-3 text-right" style={{ color: colors[year as keyof typeof colors] }}>{year}</th>
+                    <th key={year} className="px-4 py-3 text-right" style={{ color: colorOf(year) }}>{year}</th>
                   ))}
                   {selectedYears.includes('2025') && selectedYears.includes('2026') && (
                     <th className="px-4 py-3 text-right text-emerald-400">YoY 26 vs 25</th>
@@ -1,19 +1,18 @@
 export interface Client {
   id: string;
   name: string;
-  salesperson: 'V01' | 'V02' | 'V03';
+  // Id do vendedor na Configuração de Vendedores.
+  salesperson: string;
   billing: number;
   yearlyBilling: { [year: number]: number };
   cost: number;
   salesCycleDays: number;
-  rfv: string;
-  churnRisk: string;
 }
 
 export const initialClients: Client[] = [
-  { id: '1', name: 'AQUAGEL', salesperson: 'V01', billing: 332477.66, yearlyBilling: { 2023: 108894.90, 2024: 82968.66, 2025: 74082.82 }, cost: 4000, salesCycleDays: 18, rfv: 'A', churnRisk: 'Baixo' },
-  { id: '2', name: 'IGARATIBA', salesperson: 'V01', billing: 211268.06, yearlyBilling: { 2023: 70000, 2024: 71268.06, 2025: 70000 }, cost: 3000, salesCycleDays: 20, rfv: 'B', churnRisk: 'Médio' },
-  // ... adicione até totalizar R$ 1.988.484,60 para V01
+  { id: '1', name: 'AQUAGEL', salesperson: 'V1', billing: 332477.66, yearlyBilling: { 2023: 108894.90, 2024: 82968.66, 2025: 74082.82 }, cost: 4000, salesCycleDays: 18 },
+  { id: '2', name: 'IGARATIBA', salesperson: 'V1', billing: 211268.06, yearlyBilling: { 2023: 70000, 2024: 71268.06, 2025: 70000 }, cost: 3000, salesCycleDays: 20 },
+  // ... adicione até totalizar R$ 1.988.484,60 para V1
 ];
 
 export const initialMonthlyData = {
@@ -24,6 +23,21 @@ export const initialMonthlyData = {
   2028: { Jan: 0, Fev: 0, Mar: 0, Abr: 0, Mai: 0, Jun: 0, Jul: 0, Ago: 0, Set: 0, Out: 0, Nov: 0, Dez: 0 },
 };
 
+export const metaMensal = [
+  { month: 'Jan', meta: 136250.00, r2026: 74919.58, r2027: 0, r2028: 0 },
+  { month: 'Fev', meta: 154416.67, r2026: 128909.00, r2027: 0, r2028: 0 },
+  { month: 'Mar', meta: 163500.00, r2026: 66982.35, r2027: 0, r2028: 0 },
+  { month: 'Abr', meta: 172583.33, r2026: 143492.89, r2027: 0, r2028: 0 },
+  { month: 'Mai', meta: 172583.33, r2026: 131965.14, r2027: 0, r2028: 0 },
+  { month: 'Jun', meta: 163500.00, r2026: 0, r2027: 0, r2028: 0 },
+  { month: 'Jul', meta: 190750.00, r2026: 0, r2027: 0, r2028: 0 },
+  { month: 'Ago', meta: 199833.33, r2026: 0, r2027: 0, r2028: 0 },
+  { month: 'Set', meta: 208916.67, r2026: 0, r2027: 0, r2028: 0 },
+  { month: 'Out', meta: 218000.00, r2026: 0, r2027: 0, r2028: 0 },
+  { month: 'Nov', meta: 227083.33, r2026: 0, r2027: 0, r2028: 0 },
+  { month: 'Dez', meta: 172583.34, r2026: 0, r2027: 0, r2028: 0 },
+];
+
 export const initialSalespersonData = {
   2026: [
     { month: 'Jan', Syllas: 47895.31, V1: 9009.22, V2: 0, SKG: 18015.06 },
@@ -42,10 +56,10 @@ export const initialSalespersonData = {
 };
 
 export const initialSalespeopleConfig = [
-  { id: 'Syllas', label: 'SYLLAS (DIR.)', meta: 1389500, color: '#10b981' },
-  { id: 'V1', label: 'VENDEDORA 01', meta: 465000, color: '#3b82f6' },
-  { id: 'V2', label: 'VENDEDORA 02', meta: 339000, color: '#ef4444' },
-  { id: 'SKG', label: 'SK-G', meta: 0, color: '#f59e0b' }
+  { id: 'Syllas', label: 'SYLLAS (DIR.)', meta: 1389500, color: '#10b981', comissaoTipo: 'fixa', comissaoTaxa: 0, comissaoFaixas: '', acelerador: 0, bonusTrimestral: 0 },
+  { id: 'V1', label: 'VENDEDORA 01', meta: 465000, color: '#3b82f6', comissaoTipo: 'fixa', comissaoTaxa: 0, comissaoFaixas: '', acelerador: 0, bonusTrimestral: 0 },
+  { id: 'V2', label: 'VENDEDORA 02', meta: 339000, color: '#ef4444', comissaoTipo: 'fixa', comissaoTaxa: 0, comissaoFaixas: '', acelerador: 0, bonusTrimestral: 0 },
+  { id: 'SKG', label: 'SK-G', meta: 0, color: '#f59e0b', comissaoTipo: 'fixa', comissaoTaxa: 0, comissaoFaixas: '', acelerador: 0, bonusTrimestral: 0 }
 ];
 
 export const initialCustosEficiencia = [
@@ -0,0 +1,56 @@
+import { useCallback, useRef, useState } from 'react';
+import { WorkspaceField } from '../storage/backup';
+import { AuditEntry, AUDIT_LOG_LIMIT, diffCells } from '../storage/auditLog';
+
+const USER_KEY = 'skg-audit-user';
+
+// Digitação seguida na mesma célula vira uma única entrada, como no histórico de desfazer.
+const COALESCE_MS = 1500;
+
+const newId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Log de auditoria persistido junto com o workspace. Cada alteração de dataset é
+ * quebrada em entradas por célula (valor anterior → novo) com usuário e horário.
+ */
+export const useAuditLog = (entries: AuditEntry[], setEntries: (update: (prev: AuditEntry[]) => AuditEntry[]) => void) => {
+  const [user, setUserState] = useState(() => localStorage.getItem(USER_KEY) || '');
+  const userRef = useRef(user);
+  userRef.current = user;
+
+  const setUser = useCallback((name: string) => {
+    localStorage.setItem(USER_KEY, name);
+    setUserState(name);
+  }, []);
+
+  const record = useCallback((field: WorkspaceField, before: any, after: any, action: string) => {
+    const changes = diffCells(field, before, after);
+    if (changes.length === 0) return;
+    const now = new Date();
+    const author = userRef.current.trim() || 'Anônimo';
+
+    setEntries(prev => {
+      const last = prev[prev.length - 1];
+      const single = changes.length === 1 ? changes[0] : null;
+      if (single && last && !last.revertedAt && last.user === author && last.action === action
+          && last.dataset === single.dataset && last.year === single.year && last.row === single.row && last.column === single.column
+          && now.getTime() - new Date(last.timestamp).getTime() < COALESCE_MS) {
+        const merged = { ...last, newValue: single.newValue, timestamp: now.toISOString() };
+        const rest = prev.slice(0, -1);
+        return merged.newValue === merged.oldValue ? rest : [...rest, merged];
+      }
+      const added = changes.map(c => ({ ...c, id: newId(), timestamp: now.toISOString(), user: author, action }));
+      return [...prev, ...added].slice(-AUDIT_LOG_LIMIT);
+    });
+  }, [setEntries]);
+
+  const markReverted = useCallback((id: string) => {
+    const revertedAt = new Date().toISOString();
+    const revertedBy = userRef.current.trim() || 'Anônimo';
+    setEntries(prev => prev.map(e => (e.id === id ? { ...e, revertedAt, revertedBy } : e)));
+  }, [setEntries]);
+
+  return { entries, user, setUser, record, markReverted };
+};
+
+export type AuditLog = ReturnType<typeof useAuditLog>;
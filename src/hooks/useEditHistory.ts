@@ -0,0 +1,101 @@
+import { useCallback, useRef, useState } from 'react';
+
+export interface HistoryChange {
+  dataset: string;
+  before: any;
+  after: any;
+}
+
+export interface HistoryEntry {
+  id: number;
+  sheet: string;
+  label: string;
+  timestamp: number;
+  changes: HistoryChange[];
+}
+
+// Edições seguidas na mesma célula viram uma única entrada (digitação de um valor).
+const COALESCE_MS = 1500;
+
+let nextId = 1;
+
+// Valores que uma entrada vai reaplicar; `applied` traz o que o mesmo salto já reaplicou em outros datasets.
+export type HistoryGuard = (changes: { dataset: string; from: any; to: any }[], applied: Record<string, any>) => string | null;
+
+/**
+ * Pilha de desfazer/refazer compartilhada por todas as planilhas. Cada entrada guarda
+ * o valor anterior e o novo de cada dataset afetado; desfazer reaplica `before` via setter.
+ * `onApply` é avisado de cada valor reaplicado (usado pelo log de auditoria). `guard` pode
+ * recusar uma entrada (ex.: meses bloqueados); o salto para nela e a mensagem é exibida.
+ */
+export const useEditHistory = (
+  setters: Record<string, (value: any) => void>,
+  limit = 100,
+  onApply?: (dataset: string, from: any, to: any, label: string) => void,
+  guard?: HistoryGuard
+) => {
+  const [state, setState] = useState<{ entries: HistoryEntry[]; cursor: number }>({ entries: [], cursor: 0 });
+  const stateRef = useRef(state);
+  stateRef.current = state;
+
+  const record = useCallback((sheet: string, label: string, changes: HistoryChange[]) => {
+    setState(({ entries, cursor }) => {
+      const applied = entries.slice(0, cursor);
+      const last = applied[applied.length - 1];
+      const now = Date.now();
+      if (last && last.sheet === sheet && last.label === label && now - last.timestamp < COALESCE_MS
+          && last.changes.length === changes.length && last.changes.every((c, i) => c.dataset === changes[i].dataset)) {
+        const merged = { ...last, timestamp: now, changes: last.changes.map((c, i) => ({ ...c, after: changes[i].after })) };
+        const next = [...applied.slice(0, -1), merged];
+        return { entries: next, cursor: next.length };
+      }
+      const next = [...applied, { id: nextId++, sheet, label, timestamp: now, changes }].slice(-limit);
+      return { entries: next, cursor: next.length };
+    });
+  }, [limit]);
+
+  // Move o cursor para `target` aplicando os valores correspondentes de cada entrada atravessada.
+  const jumpTo = useCallback((target: number) => {
+    const { entries, cursor } = stateRef.current;
+    const to = Math.max(0, Math.min(entries.length, target));
+    if (to === cursor) return;
+    const undoing = to < cursor;
+    const applied: Record<string, any> = {};
+    let reached = cursor;
+    while (reached !== to) {
+      const entry = entries[undoing ? reached - 1 : reached];
+      const changes = entry.changes.map(c => ({ dataset: c.dataset, from: undoing ? c.after : c.before, to: undoing ? c.before : c.after }));
+      const error = guard?.(changes, applied);
+      if (error) {
+        alert(`Não foi possível ${undoing ? 'desfazer' : 'refazer'} "${entry.label}". ${error}`);
+        break;
+      }
+      changes.forEach(c => {
+        onApply?.(c.dataset, c.from, c.to, `${undoing ? 'Desfez' : 'Refez'}: ${entry.label}`);
+        setters[c.dataset]?.(c.to);
+        applied[c.dataset] = c.to;
+      });
+      reached += undoing ? -1 : 1;
+    }
+    if (reached === cursor) return;
+    const next = { entries, cursor: reached };
+    stateRef.current = next;
+    setState(next);
+  }, [setters, onApply, guard]);
+
+  const undo = useCallback(() => jumpTo(stateRef.current.cursor - 1), [jumpTo]);
+  const redo = useCallback(() => jumpTo(stateRef.current.cursor + 1), [jumpTo]);
+
+  return {
+    entries: state.entries,
+    cursor: state.cursor,
+    canUndo: state.cursor > 0,
+    canRedo: state.cursor < state.entries.length,
+    record,
+    undo,
+    redo,
+    jumpTo,
+  };
+};
+
+export type EditHistory = ReturnType<typeof useEditHistory>;
@@ -0,0 +1,100 @@
+import { ClasseABC, clientYearValue, curvaABC } from './clients';
+
+// Volatilidade do faturamento anual: X estável, Y oscilante, Z errático.
+export type ClasseXYZ = 'X' | 'Y' | 'Z';
+
+export const CLASSES_ABC: ClasseABC[] = ['A', 'B', 'C'];
+export const CLASSES_XYZ: ClasseXYZ[] = ['X', 'Y', 'Z'];
+
+export interface AbcXyzSettings {
+  // Quantidade de anos somados na curva ABC, terminando no ano escolhido.
+  anos: number;
+  // Limites do acumulado (%) das classes A e B.
+  limiteA: number;
+  limiteB: number;
+  // Limites do coeficiente de variação (%) das classes X e Y.
+  limiteX: number;
+  limiteY: number;
+}
+
+export const DEFAULT_ABC_XYZ: AbcXyzSettings = { anos: 1, limiteA: 70, limiteB: 90, limiteX: 20, limiteY: 50 };
+
+// Anos com valor em algum cliente, do histórico ou das projeções da GESTÃO TOP 20.
+export const clientYears = (clientes: any[]): number[] => {
+  const years = new Set<number>();
+  clientes.forEach((c: any) => {
+    Object.keys(c.history || {}).forEach(y => years.add(Number(y)));
+    Object.keys(c).forEach(k => {
+      const match = /^projection(20\d\d)$/.exec(k);
+      if (match) years.add(Number(match[1]));
+    });
+  });
+  return Array.from(years).filter(Number.isFinite).sort((a, b) => a - b);
+};
+
+// Coeficiente de variação (%) da série; null quando a média é zero.
+const coefficientOfVariation = (values: number[]): number | null => {
+  if (values.length === 0) return null;
+  const mean = values.reduce((a, b) => a + b, 0) / values.length;
+  if (mean <= 0) return null;
+  const variance = values.reduce((acc, v) => acc + (v - mean) ** 2, 0) / values.length;
+  return (Math.sqrt(variance) / mean) * 100;
+};
+
+export interface AbcXyzClient {
+  cliente: any;
+  name: string;
+  value: number;
+  share: number;
+  perc: number;
+  classe: ClasseABC;
+  cv: number | null;
+  xyz: ClasseXYZ;
+}
+
+export interface AbcXyzCell {
+  count: number;
+  value: number;
+  share: number;
+}
+
+export interface AbcXyzResult {
+  years: number[];
+  serieYears: number[];
+  total: number;
+  clients: AbcXyzClient[];
+  matrix: Record<ClasseABC, Record<ClasseXYZ, AbcXyzCell>>;
+}
+
+/**
+ * Classificação ABC/XYZ de todos os clientes. O ABC soma o faturamento dos `settings.anos`
+ * anos até `endYear`; o XYZ mede a variação anual do primeiro ano com dados até `endYear`.
+ */
+export const classifyAbcXyz = (clientes: any[], endYear: number, settings: AbcXyzSettings = DEFAULT_ABC_XYZ): AbcXyzResult => {
+  const available = clientYears(clientes);
+  const janela = Math.max(1, Math.round(settings.anos) || 1);
+  const years = Array.from({ length: janela }, (_, i) => endYear - janela + 1 + i);
+  const serieYears = available.length > 0 ? Array.from({ length: Math.max(0, endYear - available[0] + 1) }, (_, i) => available[0] + i) : [];
+
+  const ranking = clientes
+    .map((c: any) => ({ cliente: c, name: c.nome, value: years.reduce((acc, y) => acc + clientYearValue(c, y), 0) }))
+    .sort((a, b) => b.value - a.value);
+  const total = ranking.reduce((acc, c) => acc + c.value, 0);
+
+  const clients: AbcXyzClient[] = curvaABC(ranking, settings.limiteA, settings.limiteB).map(c => {
+    const cv = coefficientOfVariation(serieYears.map(y => clientYearValue(c.cliente, y)));
+    const xyz: ClasseXYZ = cv === null ? 'Z' : cv <= settings.limiteX ? 'X' : cv <= settings.limiteY ? 'Y' : 'Z';
+    return { ...c, share: total > 0 ? (c.value / total) * 100 : 0, perc: total > 0 ? c.perc : 0, cv, xyz };
+  });
+
+  const matrix = CLASSES_ABC.reduce((acc, abc) => ({
+    ...acc,
+    [abc]: CLASSES_XYZ.reduce((row, xyz) => {
+      const cell = clients.filter(c => c.classe === abc && c.xyz === xyz);
+      const value = cell.reduce((s, c) => s + c.value, 0);
+      return { ...row, [xyz]: { count: cell.length, value, share: total > 0 ? (value / total) * 100 : 0 } };
+    }, {} as Record<ClasseXYZ, AbcXyzCell>),
+  }), {} as Record<ClasseABC, Record<ClasseXYZ, AbcXyzCell>>);
+
+  return { years, serieYears, total, clients, matrix };
+};
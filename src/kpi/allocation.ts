@@ -0,0 +1,158 @@
+import { CostCategory, categoryCost } from './costCategories';
+import { clientYearValue } from './clients';
+
+// Rateio dos custos da planilha de custos entre vendedores e clientes, para a margem bruta de cada um.
+
+export type AllocationMethod = 'proporcional' | 'direta' | 'frete';
+
+export const ALLOCATION_METHODS: AllocationMethod[] = ['proporcional', 'direta', 'frete'];
+
+export const ALLOCATION_METHOD_LABELS: Record<AllocationMethod, string> = {
+  proporcional: 'Proporcional ao faturamento',
+  direta: 'Atribuição direta',
+  frete: 'Frete por cliente',
+};
+
+export interface AllocationRule {
+  metodo: AllocationMethod;
+  // Atribuição direta: vendedor e cliente (id) que recebem todo o custo; vazio reparte proporcionalmente naquela visão.
+  vendedor: string;
+  cliente: string;
+}
+
+export interface AllocationSettings {
+  // Regra de cada categoria de custo, pela chave; categorias sem regra são proporcionais.
+  regras: Record<string, AllocationRule>;
+  // Frete de cada cliente da Gestão Top 20 (% do faturamento dele), pelo id.
+  fretePorCliente: Record<string, number>;
+}
+
+export const DEFAULT_ALLOCATION: AllocationSettings = { regras: {}, fretePorCliente: {} };
+
+export const allocationRule = (settings: AllocationSettings, key: string): AllocationRule =>
+  settings.regras?.[key] || { metodo: 'proporcional', vendedor: '', cliente: '' };
+
+export interface MarginEntry {
+  id: string;
+  label: string;
+  faturamento: number;
+  // Custo rateado de cada categoria, pela chave.
+  custos: Record<string, number>;
+  custoTotal: number;
+  lucro: number;
+  margem: number;
+}
+
+export interface AllocatedMargins {
+  // Meses considerados: os fechados, ou os lançados quando nenhum fechado tem faturamento.
+  meses: number;
+  faturamento: number;
+  custos: Record<string, number>;
+  // Rankings pela margem, da maior para a menor.
+  vendedores: MarginEntry[];
+  clientes: MarginEntry[];
+  // Parte da empresa fora da Gestão Top 20.
+  demaisClientes: MarginEntry;
+  // Categorias de frete cujo frete informado passava do custo do período: fator (0–1) aplicado
+  // às taxas dos clientes para somarem exatamente o custo, pela chave.
+  freteAjustado: Record<string, number>;
+}
+
+const entry = (id: string, label: string, faturamento: number, custos: Record<string, number>): MarginEntry => {
+  const custoTotal = Object.values(custos).reduce((a, b) => a + b, 0);
+  const lucro = faturamento - custoTotal;
+  return { id, label, faturamento, custos, custoTotal, lucro, margem: faturamento > 0 ? (lucro / faturamento) * 100 : 0 };
+};
+
+// Sem faturamento não há margem a comparar; essas linhas vão para o fim do ranking.
+const byMargin = (a: MarginEntry, b: MarginEntry) =>
+  Number(b.faturamento > 0) - Number(a.faturamento > 0) || b.margem - a.margem;
+
+/**
+ * Margem bruta por vendedor e por cliente da Gestão Top 20 nos meses fechados. Cada categoria de
+ * custo segue sua regra: proporcional ao faturamento, atribuída inteira a um vendedor/cliente,
+ * ou (só para clientes) o frete de cada cliente como % do faturamento dele, com o restante da
+ * categoria repartido entre os demais. Se o frete informado passar do custo da categoria, as taxas
+ * são reduzidas na mesma proporção até somarem o custo. O faturamento anual de cada cliente é levado ao período
+ * pela participação dos meses considerados no faturamento esperado do ano.
+ */
+export const allocateMargins = (input: {
+  year: string;
+  metas: any[];
+  custos: any[];
+  categorias: CostCategory[];
+  vendedoresConfig: any[];
+  vendedorData: any[];
+  clientes: any[];
+  closedMonths: number;
+  faturamentoAno: number;
+  settings: AllocationSettings;
+}): AllocatedMargins => {
+  const total = (rows: any[], fn: (r: any) => number) => rows.reduce((acc, r) => acc + fn(r), 0);
+  const meses = total(input.metas.slice(0, input.closedMonths), m => m.realizado || 0) > 0 ? input.closedMonths : input.metas.length;
+  const faturamento = total(input.metas.slice(0, meses), m => m.realizado || 0);
+  const custosPeriodo = input.custos.slice(0, meses);
+  const custos = Object.fromEntries(input.categorias.map(c => [c.key, total(custosPeriodo, r => categoryCost(r, c))]));
+
+  const sellerRevenue = input.vendedoresConfig.map((s: any) => total(input.vendedorData.slice(0, meses), m => m[s.id] || 0));
+  const sellerBase = sellerRevenue.reduce((a, b) => a + b, 0);
+
+  // Se a soma anual dos clientes passar do faturamento esperado, ela vira a base, para o Top 20 não superar a empresa.
+  const clientYear = input.clientes.map((c: any) => clientYearValue(c, input.year));
+  const baseAno = Math.max(input.faturamentoAno, clientYear.reduce((a, b) => a + b, 0));
+  const participacao = baseAno > 0 ? Math.min(1, faturamento / baseAno) : 0;
+  const clientRevenue = clientYear.map(v => v * participacao);
+  const clientBase = clientRevenue.reduce((a, b) => a + b, 0);
+
+  const sellerCosts = input.vendedoresConfig.map(() => ({} as Record<string, number>));
+  const clientCosts = input.clientes.map(() => ({} as Record<string, number>));
+  const demaisCustos: Record<string, number> = {};
+  const freteAjustado: Record<string, number> = {};
+
+  input.categorias.forEach(cat => {
+    const custo = custos[cat.key];
+    const rule = allocationRule(input.settings, cat.key);
+
+    const vendedorDireto = rule.metodo === 'direta' ? input.vendedoresConfig.findIndex((s: any) => s.id === rule.vendedor) : -1;
+    input.vendedoresConfig.forEach((_, i) => {
+      sellerCosts[i][cat.key] = vendedorDireto >= 0
+        ? (i === vendedorDireto ? custo : 0)
+        : (sellerBase > 0 ? custo * sellerRevenue[i] / sellerBase : 0);
+    });
+
+    const clienteDireto = rule.metodo === 'direta' ? input.clientes.findIndex((c: any) => String(c.id) === rule.cliente) : -1;
+    if (clienteDireto >= 0) {
+      input.clientes.forEach((_, i) => { clientCosts[i][cat.key] = i === clienteDireto ? custo : 0; });
+    } else if (rule.metodo === 'frete') {
+      const taxa = (c: any) => input.settings.fretePorCliente?.[String(c.id)];
+      const comTaxa = input.clientes.map((c: any) => typeof taxa(c) === 'number');
+      const fixo = input.clientes.reduce((acc: number, c: any, i: number) => acc + (comTaxa[i] ? clientRevenue[i] * taxa(c) / 100 : 0), 0);
+      const escala = fixo > custo ? custo / fixo : 1;
+      if (escala < 1) freteAjustado[cat.key] = escala;
+      const restante = Math.max(0, custo - fixo);
+      const baseRestante = faturamento - clientRevenue.reduce((acc, v, i) => acc + (comTaxa[i] ? v : 0), 0);
+      input.clientes.forEach((c: any, i: number) => {
+        clientCosts[i][cat.key] = comTaxa[i]
+          ? clientRevenue[i] * taxa(c) / 100 * escala
+          : (baseRestante > 0 ? restante * clientRevenue[i] / baseRestante : 0);
+      });
+    } else {
+      input.clientes.forEach((_, i) => { clientCosts[i][cat.key] = faturamento > 0 ? custo * clientRevenue[i] / faturamento : 0; });
+    }
+    demaisCustos[cat.key] = custo - clientCosts.reduce((acc, c) => acc + c[cat.key], 0);
+  });
+
+  return {
+    meses,
+    faturamento,
+    custos,
+    vendedores: input.vendedoresConfig
+      .map((s: any, i: number) => entry(s.id, s.label, sellerRevenue[i], sellerCosts[i]))
+      .sort(byMargin),
+    clientes: input.clientes
+      .map((c: any, i: number) => entry(String(c.id), c.nome, clientRevenue[i], clientCosts[i]))
+      .sort(byMargin),
+    demaisClientes: entry('demais', 'Demais clientes', Math.max(0, faturamento - clientBase), demaisCustos),
+    freteAjustado,
+  };
+};
@@ -0,0 +1,74 @@
+import { MONTHS } from '../../constants';
+
+// Como o desvio acumulado é repartido entre os meses que faltam.
+export type CatchUpMethod = 'uniforme' | 'sazonal' | 'personalizado';
+
+export const CATCH_UP_METHODS: { key: CatchUpMethod; label: string }[] = [
+  { key: 'uniforme', label: 'Igual por mês' },
+  { key: 'sazonal', label: 'Sazonalidade histórica' },
+  { key: 'personalizado', label: 'Pesos personalizados' },
+];
+
+export interface CatchUpSettings {
+  method: CatchUpMethod;
+  // Um peso por mês (Jan..Dez), usado no método personalizado.
+  weights: number[];
+}
+
+export const DEFAULT_CATCH_UP: CatchUpSettings = { method: 'uniforme', weights: MONTHS.map(() => 1) };
+
+export const catchUpWeights = (settings: CatchUpSettings, seasonality: number[]): number[] => {
+  if (settings.method === 'sazonal') return seasonality;
+  if (settings.method === 'personalizado') return MONTHS.map((_, i) => Math.max(0, Number(settings.weights?.[i]) || 0));
+  return MONTHS.map(() => 1);
+};
+
+export interface CatchUpMonth {
+  month: string;
+  meta: number;
+  realizado: number | null;
+  // Meta recalculada dos meses em aberto (null nos meses fechados).
+  recuperacao: number | null;
+  ajuste: number;
+}
+
+export interface CatchUpPlan {
+  closedMonths: number;
+  // Falta acumulada nos meses fechados (negativo quando está à frente da meta).
+  gap: number;
+  metaAnual: number;
+  metaRestante: number;
+  months: CatchUpMonth[];
+}
+
+/**
+ * Redistribui o desvio dos meses fechados entre os meses em aberto proporcionalmente aos
+ * pesos, somando à meta original de cada mês; a soma das novas metas com o realizado volta
+ * a fechar a meta anual. Pesos zerados em todos os meses em aberto caem para divisão igual.
+ */
+export const planCatchUp = (targets: number[], realized: number[], closedMonths: number, weights: number[]): CatchUpPlan => {
+  const meta = MONTHS.map((_, i) => Number(targets[i]) || 0);
+  const real = MONTHS.map((_, i) => Number(realized[i]) || 0);
+  const closed = Math.max(0, Math.min(closedMonths, MONTHS.length));
+  const gap = meta.slice(0, closed).reduce((a, b) => a + b, 0) - real.slice(0, closed).reduce((a, b) => a + b, 0);
+
+  const open = MONTHS.map((_, i) => i >= closed);
+  const openWeights = MONTHS.map((_, i) => (open[i] ? Math.max(0, weights[i] || 0) : 0));
+  const totalWeight = openWeights.reduce((a, b) => a + b, 0);
+  const openCount = open.filter(Boolean).length;
+  const share = (i: number) => (totalWeight > 0 ? openWeights[i] / totalWeight : open[i] ? 1 / openCount : 0);
+
+  const months = MONTHS.map((month, i) => {
+    if (!open[i]) return { month, meta: meta[i], realizado: real[i], recuperacao: null, ajuste: 0 };
+    const recuperacao = Math.max(0, meta[i] + gap * share(i));
+    return { month, meta: meta[i], realizado: null, recuperacao, ajuste: recuperacao - meta[i] };
+  });
+
+  return {
+    closedMonths: closed,
+    gap,
+    metaAnual: meta.reduce((a, b) => a + b, 0),
+    metaRestante: months.reduce((acc, m) => acc + (m.recuperacao || 0), 0),
+    months,
+  };
+};
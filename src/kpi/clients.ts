@@ -0,0 +1,144 @@
+export type ClienteStatus =
+  | 'ALERTA OCIOSIDADE'
+  | 'ALERTA RECUO'
+  | 'EM RECUPERAÇÃO'
+  | 'TOP PERFORMANCE'
+  | 'EXPANSÃO'
+  | 'ESTABILIDADE'
+  | 'BAIXO VOLUME';
+
+export const CLIENTE_STATUS: ClienteStatus[] = [
+  'ALERTA OCIOSIDADE',
+  'ALERTA RECUO',
+  'EM RECUPERAÇÃO',
+  'BAIXO VOLUME',
+  'ESTABILIDADE',
+  'EXPANSÃO',
+  'TOP PERFORMANCE',
+];
+
+// Limites das regras de status; os fatores multiplicam a média 2022-2025 do cliente.
+export interface ClienteStatusThresholds {
+  volumeMinimo: number;
+  volumeTop: number;
+  fatorQueda: number;
+  fatorRecuo: number;
+  fatorOciosidade: number;
+  fatorTop: number;
+  crescimentoMinimo: number;
+  faixaEstabilidade: number;
+}
+
+export const DEFAULT_STATUS_THRESHOLDS: ClienteStatusThresholds = {
+  volumeMinimo: 5000,
+  volumeTop: 100000,
+  fatorQueda: 0.5,
+  fatorRecuo: 0.8,
+  fatorOciosidade: 0.7,
+  fatorTop: 1.2,
+  crescimentoMinimo: 0.05,
+  faixaEstabilidade: 0.15,
+};
+
+/**
+ * Classifica o cliente comparando o faturamento do ano corrente com o histórico 2022-2025
+ * (média, tendência de queda e crescimento sobre 2025). A ESTABILIDADE final, que cai fora
+ * de todas as regras, é a com crescimento acima da faixa sem volume para EXPANSÃO.
+ */
+export const getClienteStatus = (c: any, currentYearBilling: number, t: ClienteStatusThresholds = DEFAULT_STATUS_THRESHOLDS): ClienteStatus => {
+  const h = c.history || {};
+  const historyArray = Object.values(h) as number[];
+  const real2022 = historyArray[0] || h[2022] || 0;
+  const real2023 = historyArray[1] || h[2023] || 0;
+  const real2024 = historyArray[2] || h[2024] || 0;
+  const real2025 = historyArray[3] || h[2025] || 0;
+
+  const hArr = [real2022, real2023, real2024, real2025];
+  const mediaValue = hArr.reduce((a, b) => a + b, 0) / 4;
+
+  const current = currentYearBilling || 0;
+
+  const isZero = current === 0;
+  const isDeclining = (real2025 < real2024 && real2024 < real2023) || (real2025 < real2024 && real2025 < t.volumeMinimo) || (real2025 < mediaValue * t.fatorQueda);
+  const isVeryLow = real2025 < t.volumeMinimo && current < t.volumeMinimo;
+  const growthRate = real2025 > 0 ? (current / real2025) - 1 : (current > 0 ? 1 : 0);
+
+  if (isZero) return 'ALERTA OCIOSIDADE';
+  if (isDeclining && current < mediaValue * t.fatorRecuo) return 'ALERTA RECUO';
+  if (isDeclining && current >= real2025 && current > t.volumeMinimo) return 'EM RECUPERAÇÃO';
+  if (current < mediaValue * t.fatorOciosidade) return 'ALERTA OCIOSIDADE';
+  if (growthRate > t.crescimentoMinimo && current > mediaValue * t.fatorTop && current >= t.volumeTop) return 'TOP PERFORMANCE';
+  if (growthRate > t.crescimentoMinimo && !isVeryLow) return 'EXPANSÃO';
+  if (Math.abs(growthRate) <= t.faixaEstabilidade && current >= t.volumeMinimo) return 'ESTABILIDADE';
+  if (isVeryLow) return 'BAIXO VOLUME';
+  return 'ESTABILIDADE';
+};
+
+// A relevância manual da GESTÃO TOP 20 usa "RECUPERAÇÃO" para o mesmo status.
+export const normalizeRelevancia = (relevancia: string): string => {
+  const value = String(relevancia || '').trim().toUpperCase();
+  return value === 'RECUPERAÇÃO' ? 'EM RECUPERAÇÃO' : value;
+};
+
+// Valor do cliente no ano: a projeção lançada na GESTÃO TOP 20 ou, sem ela, o histórico.
+export const clientYearValue = (c: any, year: string | number): number =>
+  c[`projection${year}`] || c.history?.[year] || 0;
+
+export interface ClienteHealth {
+  cliente: any;
+  value: number;
+  media: number;
+  growth: number;
+  status: ClienteStatus;
+  relevancia: string;
+  divergente: boolean;
+}
+
+export const clientHealth = (clientes: any[], year: string | number, thresholds: ClienteStatusThresholds = DEFAULT_STATUS_THRESHOLDS): ClienteHealth[] =>
+  clientes.map((c: any) => {
+    const value = clientYearValue(c, year);
+    const prev = c.history?.[Number(year) - 1] || 0;
+    const hist = [2022, 2023, 2024, 2025].map(y => c.history?.[y] || 0);
+    const status = getClienteStatus(c, value, thresholds);
+    const relevancia = normalizeRelevancia(c.relevancia);
+    return {
+      cliente: c,
+      value,
+      media: hist.reduce((a, b) => a + b, 0) / hist.length,
+      growth: prev > 0 ? (value / prev - 1) * 100 : 0,
+      status,
+      relevancia,
+      divergente: relevancia !== '' && relevancia !== status,
+    };
+  });
+
+export interface ClientRanking {
+  name: string;
+  shortName: string;
+  value: number;
+  prevValue: number;
+}
+
+export const rankClients = (clientes: any[], year: string | number): ClientRanking[] =>
+  clientes.map((c: any) => ({
+    name: c.nome,
+    shortName: c.nome.split(' ').slice(0, 2).join(' '),
+    value: clientYearValue(c, year),
+    prevValue: c.history?.[Number(year) - 1] || 0,
+  })).sort((a, b) => b.value - a.value);
+
+export type ClasseABC = 'A' | 'B' | 'C';
+
+/** Curva ABC sobre um ranking já ordenado: A até 70% do acumulado, B até 90%, C o restante. */
+export const curvaABC = <T extends { value: number }>(ranking: T[], limiteA = 70, limiteB = 90): (T & { classe: ClasseABC; perc: number })[] => {
+  const total = ranking.reduce((acc, c) => acc + c.value, 0);
+  let acum = 0;
+  return ranking.map(c => {
+    acum += c.value;
+    const perc = (acum / total) * 100;
+    let classe: ClasseABC = 'C';
+    if (perc <= limiteA) classe = 'A';
+    else if (perc <= limiteB) classe = 'B';
+    return { ...c, classe, perc };
+  });
+};
@@ -0,0 +1,85 @@
+// Coortes de clientes pelo primeiro ano com faturamento, a partir do histórico anual.
+
+export interface ClientSeries {
+  id: string;
+  name: string;
+  values: Record<number, number>;
+}
+
+// Histórico da GESTÃO TOP 20 (sem as projeções).
+export const top20Series = (clientes: any[]): ClientSeries[] =>
+  clientes.map((c: any) => ({
+    id: String(c.id),
+    name: c.nome,
+    values: Object.fromEntries(Object.entries(c.history || {}).map(([y, v]) => [Number(y), Number(v) || 0])),
+  }));
+
+// Faturamento anual da carteira de clientes.
+export const carteiraSeries = (clients: any[]): ClientSeries[] =>
+  clients.map((c: any) => ({
+    id: String(c.id),
+    name: c.name,
+    values: Object.fromEntries(Object.entries(c.yearlyBilling || {}).map(([y, v]) => [Number(y), Number(v) || 0])),
+  }));
+
+export interface CohortPeriod {
+  offset: number;
+  year: number;
+  ativos: number;
+  receita: number;
+  // % de clientes da coorte que compraram no ano.
+  retencao: number;
+  // Receita retida sem contar expansão: cada cliente limitado ao valor do ano de entrada.
+  retencaoReceita: number;
+  // Receita do ano sobre a receita de entrada, com expansão.
+  nrr: number;
+}
+
+export interface Cohort {
+  year: number;
+  clientes: number;
+  receitaInicial: number;
+  periods: CohortPeriod[];
+}
+
+export interface CohortAnalysis {
+  years: number[];
+  maxOffset: number;
+  cohorts: Cohort[];
+}
+
+/**
+ * Agrupa os clientes pelo primeiro ano com faturamento e acompanha cada coorte nos anos
+ * seguintes até o último ano com dados. Clientes sem faturamento em nenhum ano ficam de fora.
+ */
+export const buildCohorts = (series: ClientSeries[]): CohortAnalysis => {
+  const years = Array.from(new Set(series.flatMap(s => Object.keys(s.values).map(Number)))).filter(Number.isFinite).sort((a, b) => a - b);
+  if (years.length === 0) return { years, maxOffset: 0, cohorts: [] };
+  const lastYear = years[years.length - 1];
+
+  const firstYear = (s: ClientSeries) => years.find(y => (s.values[y] || 0) > 0);
+  const cohortYears = years.filter(y => series.some(s => firstYear(s) === y));
+
+  const cohorts = cohortYears.map(year => {
+    const members = series.filter(s => firstYear(s) === year);
+    const receitaInicial = members.reduce((acc, s) => acc + (s.values[year] || 0), 0);
+    const periods = Array.from({ length: lastYear - year + 1 }, (_, offset) => {
+      const y = year + offset;
+      const ativos = members.filter(s => (s.values[y] || 0) > 0).length;
+      const receita = members.reduce((acc, s) => acc + (s.values[y] || 0), 0);
+      const retida = members.reduce((acc, s) => acc + Math.min(s.values[y] || 0, s.values[year] || 0), 0);
+      return {
+        offset,
+        year: y,
+        ativos,
+        receita,
+        retencao: (ativos / members.length) * 100,
+        retencaoReceita: receitaInicial > 0 ? (retida / receitaInicial) * 100 : 0,
+        nrr: receitaInicial > 0 ? (receita / receitaInicial) * 100 : 0,
+      };
+    });
+    return { year, clientes: members.length, receitaInicial, periods };
+  });
+
+  return { years, maxOffset: lastYear - (cohortYears[0] ?? lastYear), cohorts };
+};
@@ -0,0 +1,126 @@
+import { SellerAttainment } from './sellers';
+
+// Como a taxa do mês é escolhida: taxa única ou faixa conforme o atingimento da meta do mês.
+export type CommissionType = 'fixa' | 'faixas';
+
+export const COMMISSION_TYPES: { key: CommissionType; label: string }[] = [
+  { key: 'fixa', label: 'Taxa fixa' },
+  { key: 'faixas', label: 'Faixas de atingimento' },
+];
+
+export interface CommissionBand {
+  // Atingimento mínimo do mês (%) para a faixa valer.
+  from: number;
+  // Taxa (%) sobre o realizado do mês.
+  rate: number;
+}
+
+/**
+ * Plano de comissão de um vendedor, gravado como colunas da Configuração de Vendedores
+ * (as planilhas só guardam número ou texto, por isso as faixas ficam em texto).
+ */
+export interface CommissionPlan {
+  tipo: CommissionType;
+  taxa: number;
+  faixas: CommissionBand[];
+  // Acréscimo (%) sobre a taxa para o que passar de 100% da meta do mês.
+  acelerador: number;
+  // Pago no último mês do trimestre quando o trimestre fecha com a meta batida.
+  bonusTrimestral: number;
+}
+
+const toNumber = (value: string) => parseFloat(value.trim().replace(',', '.'));
+
+/**
+ * Lê as faixas no formato "80:1; 100:2,5; 120:3" (atingimento%:taxa%). Trechos que não
+ * seguem o formato voltam em `invalid` para a tela apontar o erro.
+ */
+export const parseCommissionBands = (text: string): { bands: CommissionBand[]; invalid: string[] } => {
+  const bands: CommissionBand[] = [];
+  const invalid: string[] = [];
+  String(text || '').split(';').map(part => part.trim()).filter(Boolean).forEach(part => {
+    const [from, rate, ...rest] = part.split(':');
+    const band = { from: toNumber(from || ''), rate: toNumber(rate || '') };
+    if (rest.length > 0 || !Number.isFinite(band.from) || !Number.isFinite(band.rate) || band.from < 0 || band.rate < 0) invalid.push(part);
+    else bands.push(band);
+  });
+  return { bands: bands.sort((a, b) => a.from - b.from), invalid };
+};
+
+// Plano a partir da linha da Configuração de Vendedores; colunas ausentes valem zero.
+export const commissionPlan = (seller: any): CommissionPlan => ({
+  tipo: seller?.comissaoTipo === 'faixas' ? 'faixas' : 'fixa',
+  taxa: Number(seller?.comissaoTaxa) || 0,
+  faixas: parseCommissionBands(seller?.comissaoFaixas).bands,
+  acelerador: Number(seller?.acelerador) || 0,
+  bonusTrimestral: Number(seller?.bonusTrimestral) || 0,
+});
+
+// Taxa do mês: a fixa, ou a da maior faixa alcançada (zero abaixo da primeira).
+export const commissionRate = (plan: CommissionPlan, atingimento: number): number => {
+  if (plan.tipo === 'fixa') return plan.taxa;
+  return plan.faixas.reduce((rate, b) => (atingimento >= b.from ? b.rate : rate), 0);
+};
+
+export interface CommissionMonth {
+  month: string;
+  realizado: number;
+  meta: number;
+  atingimento: number;
+  taxa: number;
+  base: number;
+  // Comissão sobre o que passou da meta, já com o acelerador.
+  acelerador: number;
+  bonus: number;
+  total: number;
+  acumulado: number;
+}
+
+export interface CommissionStatement {
+  id: string;
+  label: string;
+  color?: string;
+  plan: CommissionPlan;
+  months: CommissionMonth[];
+  totalMes: number;
+  totalAno: number;
+}
+
+/**
+ * Comissão de cada vendedor nos meses fechados. A taxa incide sobre o realizado até a meta;
+ * o excedente recebe a taxa com o acelerador. O bônus trimestral entra em Mar, Jun, Set e Dez
+ * quando o realizado do trimestre cobre a meta do trimestre.
+ */
+export const computeCommissions = (config: any[], attainment: SellerAttainment[], closedMonths: number): CommissionStatement[] =>
+  attainment.map(s => {
+    const plan = commissionPlan(config.find((c: any) => c.id === s.id));
+    let acumulado = 0;
+    const months = s.months.slice(0, closedMonths).map((m, idx) => {
+      const atingimento = m.target > 0 ? (m.real / m.target) * 100 : 0;
+      const taxa = commissionRate(plan, atingimento);
+      const excedente = m.target > 0 ? Math.max(0, m.real - m.target) : 0;
+      const base = ((m.real - excedente) * taxa) / 100;
+      const acelerador = (excedente * taxa * (1 + plan.acelerador / 100)) / 100;
+
+      let bonus = 0;
+      if (idx % 3 === 2) {
+        const quarter = s.months.slice(idx - 2, idx + 1);
+        const real = quarter.reduce((acc, q) => acc + q.real, 0);
+        const meta = quarter.reduce((acc, q) => acc + q.target, 0);
+        if (meta > 0 && real >= meta) bonus = plan.bonusTrimestral;
+      }
+
+      const total = base + acelerador + bonus;
+      acumulado += total;
+      return { month: m.month, realizado: m.real, meta: m.target, atingimento, taxa, base, acelerador, bonus, total, acumulado };
+    });
+    return {
+      id: s.id,
+      label: s.label,
+      color: s.color,
+      plan,
+      months,
+      totalMes: months[months.length - 1]?.total || 0,
+      totalAno: acumulado,
+    };
+  });
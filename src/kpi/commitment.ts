@@ -0,0 +1,117 @@
+import { CostCategory, categoryCost, categoryTarget } from './costCategories';
+
+// Compromisso de compras com um fornecedor que tem meta mensal (ex.: acordo de distribuição Camozzi).
+
+// Faixas da METRICA 2: abaixo de 50% da meta, a partir de 50% e meta cumprida (100% ou mais).
+export type CommitmentStatus = 'critico' | 'atencao' | 'cumprido';
+
+export const COMMITMENT_STATUS_LABELS: Record<CommitmentStatus, string> = {
+  critico: 'Abaixo de 50%',
+  atencao: 'Abaixo da meta',
+  cumprido: 'Meta cumprida',
+};
+
+export const commitmentStatus = (perc: number): CommitmentStatus =>
+  (perc >= 100 ? 'cumprido' : perc >= 50 ? 'atencao' : 'critico');
+
+export interface CommitmentMonth {
+  mes: string;
+  meta: number;
+  compra: number;
+  // % da meta do mês; sem meta, 100 quando houve compra.
+  perc: number;
+  fechado: boolean;
+  // Meses em aberto ainda sem compra lançada.
+  naoLancado: boolean;
+  // Acumulados do ano, mês a mês.
+  metaAcumulada: number;
+  // Compras acumuladas dos meses fechados (null a partir do primeiro mês em aberto).
+  compraAcumulada: number | null;
+  // Trajetória no ritmo atual e no ritmo necessário, a partir do último mês fechado.
+  projecaoAcumulada: number | null;
+  necessarioAcumulado: number | null;
+}
+
+export interface SupplierCommitment {
+  categoria: CostCategory;
+  metaAno: number;
+  // Meta e compras dos meses fechados.
+  esperado: number;
+  realizado: number;
+  ritmo: number;
+  status: CommitmentStatus;
+  // Compra média dos meses fechados.
+  mediaMensal: number;
+  // Fechamento do ano mantendo a média mensal.
+  projecaoAno: number;
+  projecaoPerc: number;
+  falta: number;
+  mesesRestantes: number;
+  // Compra mensal que cumpre a meta anual nos meses em aberto.
+  necessarioMensal: number;
+  // Compras já lançadas nos meses em aberto (provisórias).
+  emAberto: number;
+  months: CommitmentMonth[];
+}
+
+const pct = (value: number, base: number) => (base > 0 ? (value / base) * 100 : 0);
+
+/**
+ * Ritmo das compras do fornecedor contra a meta: esperado até o último mês fechado contra o
+ * realizado, fechamento do ano pela média mensal (run-rate) e a compra mensal necessária nos meses
+ * em aberto para honrar a meta anual.
+ */
+export const supplierCommitment = (custos: any[], categoria: CostCategory, closedMonths: number): SupplierCommitment => {
+  const fechados = Math.max(0, Math.min(closedMonths, custos.length));
+  const metas = custos.map(c => categoryTarget(c, categoria));
+  const compras = custos.map(c => categoryCost(c, categoria));
+  const sum = (values: number[]) => values.reduce((a, b) => a + b, 0);
+
+  const metaAno = sum(metas);
+  const esperado = sum(metas.slice(0, fechados));
+  const realizado = sum(compras.slice(0, fechados));
+  const mediaMensal = fechados > 0 ? realizado / fechados : 0;
+  const mesesRestantes = custos.length - fechados;
+  const projecaoAno = realizado + mediaMensal * mesesRestantes;
+  const falta = Math.max(0, metaAno - realizado);
+  const necessarioMensal = mesesRestantes > 0 ? falta / mesesRestantes : 0;
+
+  let metaAcumulada = 0;
+  const months = custos.map((c, idx): CommitmentMonth => {
+    metaAcumulada += metas[idx];
+    const fechado = idx < fechados;
+    const abertos = idx - fechados + 1;
+    // A trajetória parte do acumulado do último mês fechado para as linhas se encontrarem.
+    const partida = fechados > 0 && idx === fechados - 1;
+    return {
+      mes: c.mes,
+      meta: metas[idx],
+      compra: compras[idx],
+      perc: metas[idx] > 0 ? pct(compras[idx], metas[idx]) : (compras[idx] > 0 ? 100 : 0),
+      fechado,
+      naoLancado: !fechado && compras[idx] === 0,
+      metaAcumulada,
+      compraAcumulada: fechado ? sum(compras.slice(0, idx + 1)) : null,
+      projecaoAcumulada: partida ? realizado : fechado ? null : realizado + mediaMensal * abertos,
+      necessarioAcumulado: partida ? realizado : fechado ? null : realizado + necessarioMensal * abertos,
+    };
+  });
+
+  const ritmo = pct(realizado, esperado);
+  return {
+    categoria,
+    metaAno,
+    esperado,
+    realizado,
+    ritmo,
+    status: commitmentStatus(ritmo),
+    mediaMensal,
+    projecaoAno,
+    projecaoPerc: pct(projecaoAno, metaAno),
+    falta,
+    mesesRestantes,
+    necessarioMensal,
+    emAberto: sum(compras.slice(fechados)),
+    months,
+  };
+};
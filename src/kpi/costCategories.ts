@@ -0,0 +1,96 @@
+// Registro das categorias de custo: cada categoria é uma coluna da planilha "Custos e Logística"
+// e, quando tem meta mensal, mais uma coluna com a meta de cada mês.
+
+export type CostCategoryType = 'fornecedor' | 'logistica' | 'outro';
+
+export const COST_CATEGORY_TYPES: CostCategoryType[] = ['fornecedor', 'logistica', 'outro'];
+
+export const COST_CATEGORY_TYPE_LABELS: Record<CostCategoryType, string> = {
+  fornecedor: 'Fornecedores',
+  logistica: 'Logística',
+  outro: 'Outros Custos',
+};
+
+export interface CostCategory {
+  // Coluna com o valor mensal nas linhas de custos.
+  key: string;
+  label: string;
+  tipo: CostCategoryType;
+  // Coluna com a meta mensal; vazio quando a categoria não tem meta.
+  metaKey: string;
+}
+
+// Colunas fixas da planilha de custos e grupos do simulador, que não podem virar chave de categoria.
+const RESERVED_KEYS = ['mes', 'faturamento', 'logistica', 'outro'];
+
+export const DEFAULT_COST_CATEGORIES: CostCategory[] = [
+  { key: 'Camozzi', label: 'Camozzi', tipo: 'fornecedor', metaKey: 'metaCamozzi' },
+  { key: 'Outros Fornecedores', label: 'Outros Fornecedores', tipo: 'fornecedor', metaKey: '' },
+  { key: 'zmExpress', label: 'ZM Express', tipo: 'logistica', metaKey: '' },
+  { key: 'tercExpress', label: 'Terceirizado Express', tipo: 'logistica', metaKey: '' },
+  { key: 'correios', label: 'Correios', tipo: 'logistica', metaKey: '' },
+];
+
+export const categoryCost = (c: any, category: CostCategory): number => Number(c?.[category.key]) || 0;
+
+export const categoryTarget = (c: any, category: CostCategory): number =>
+  category.metaKey ? Number(c?.[category.metaKey]) || 0 : 0;
+
+export const costByType = (c: any, categories: CostCategory[], tipo: CostCategoryType): number =>
+  categories.filter(cat => cat.tipo === tipo).reduce((acc, cat) => acc + categoryCost(c, cat), 0);
+
+// Colunas que a categoria ocupa nas linhas de custos (meta antes do valor, como na planilha original).
+export const categoryColumns = (category: CostCategory): string[] =>
+  category.metaKey ? [category.metaKey, category.key] : [category.key];
+
+export const costCategoryMetaKey = (key: string) => `meta${key[0].toUpperCase()}${key.slice(1)}`;
+
+/**
+ * Chave de coluna para uma categoria nova a partir do nome ("DHL Express" → "dhlExpress"),
+ * com sufixo numérico quando ela ou a coluna de meta correspondente já estiverem em uso.
+ */
+export const costCategoryKey = (label: string, categories: CostCategory[]): string => {
+  const words = label.normalize('NFD').replace(/[\u0300-\u036f]/g, '').split(/[^A-Za-z0-9]+/).filter(Boolean);
+  const base = words.map((w, i) => (i === 0 ? w.toLowerCase() : w[0].toUpperCase() + w.slice(1).toLowerCase())).join('') || 'custo';
+  const used = new Set([...RESERVED_KEYS, ...categories.flatMap(categoryColumns)]);
+  let key = base;
+  for (let n = 2; used.has(key) || used.has(costCategoryMetaKey(key)); n++) key = `${base}${n}`;
+  return key;
+};
+
+/**
+ * Acompanha uma mudança no registro nas linhas de custos de todos os anos: colunas de categorias
+ * novas (ou metas ativadas) entram zeradas e as de categorias removidas saem. Linhas dos meses em
+ * `locked` (por ano) ficam como estão.
+ */
+export const syncCostColumns = (
+  custosByYear: Record<string, any[]>,
+  before: CostCategory[],
+  after: CostCategory[],
+  locked: Record<string, string[]> = {}
+): Record<string, any[]> => {
+  const keep = new Set(after.flatMap(categoryColumns));
+  const removed = before.flatMap(categoryColumns).filter(k => !keep.has(k));
+  const added = after.flatMap(categoryColumns);
+  return Object.fromEntries(Object.entries(custosByYear).map(([year, rows]) => [year, rows.map(row => {
+    if (locked[year]?.includes(String(row.mes))) return row;
+    const next = { ...row };
+    removed.forEach(k => delete next[k]);
+    added.forEach(k => { if (!(k in next)) next[k] = 0; });
+    return next;
+  })]));
+};
+
+// Meses (de `locked`, por ano) com valor nas colunas que a mudança no registro removeria ("2026 Mar").
+export const removedColumnValues = (
+  custosByYear: Record<string, any[]>,
+  before: CostCategory[],
+  after: CostCategory[],
+  locked: Record<string, string[]>
+): string[] => {
+  const keep = new Set(after.flatMap(categoryColumns));
+  const removed = before.flatMap(categoryColumns).filter(k => !keep.has(k));
+  return Object.entries(custosByYear).flatMap(([year, rows]) => rows
+    .filter(row => locked[year]?.includes(String(row.mes)) && removed.some(k => Number(row[k])))
+    .map(row => `${year} ${row.mes}`));
+};
@@ -0,0 +1,42 @@
+import { initialMonthlyData } from '../data';
+import { YearKeyed } from '../yearlyData';
+import { MONTHS } from '../../constants';
+import { buildMonthlyHistory, forecastMonthlyRevenue, RevenueForecast } from '../../utils/forecast';
+import { QuarterRow } from './quarterly';
+
+// Série mensal histórica fixa completada com o realizado dos anos anteriores já lançados nas metas.
+const monthlyHistoryFor = (metasByYear: YearKeyed, year: string) => {
+  const monthlyHistory: Record<string, Record<string, number>> = { ...initialMonthlyData };
+  Object.entries<any[]>(metasByYear).forEach(([y, rows]) => {
+    if (Number(y) < Number(year)) monthlyHistory[y] = Object.fromEntries(rows.map(r => [r.month, r.realizado || 0]));
+  });
+  return monthlyHistory;
+};
+
+// Projeção dos meses sem lançamento do ano (ou dos meses em aberto, quando informados os fechados).
+export const revenueForecastFor = (metasByYear: YearKeyed, quarterlyHistory: QuarterRow[], year: string, closedMonths?: number): RevenueForecast =>
+  forecastMonthlyRevenue({
+    year: Number(year),
+    quarterlyHistory,
+    monthlyHistory: monthlyHistoryFor(metasByYear, year),
+    realized: (metasByYear[year] || []).map((m: any) => m.realizado || 0),
+    closedMonths,
+  });
+
+/**
+ * Participação média de cada mês no faturamento anual, sobre a mesma série histórica usada
+ * na previsão. Sem ano completo no histórico, todos os meses pesam 1/12.
+ */
+export const monthlySeasonality = (metasByYear: YearKeyed, quarterlyHistory: QuarterRow[], year: string): number[] => {
+  const { series } = buildMonthlyHistory({ year: Number(year), quarterlyHistory, monthlyHistory: monthlyHistoryFor(metasByYear, year), realized: [] });
+  const shares = MONTHS.map(() => 0);
+  let years = 0;
+  for (let start = 0; start + MONTHS.length <= series.length; start += MONTHS.length) {
+    const months = series.slice(start, start + MONTHS.length);
+    const total = months.reduce((a, b) => a + b, 0);
+    if (total <= 0) continue;
+    months.forEach((v, i) => { shares[i] += v / total; });
+    years++;
+  }
+  return years > 0 ? shares.map(s => s / years) : MONTHS.map(() => 1 / MONTHS.length);
+};
@@ -0,0 +1,18 @@
+// Cálculos do painel sem dependência de React, compartilhados pela interface e pela CLI de relatório.
+export * from './costCategories';
+export * from './margins';
+export * from './quarterly';
+export * from './clients';
+export * from './abcXyz';
+export * from './portfolio';
+export * from './cohorts';
+export * from './sellers';
+export * from './forecast';
+export * from './report';
+export * from './scenarios';
+export * from './catchUp';
+export * from './commissions';
+export * from './logistics';
+export * from './periods';
+export * from './commitment';
+export * from './allocation';
@@ -0,0 +1,127 @@
+import { CostCategory, categoryCost } from './costCategories';
+
+// Eficiência logística: frete das categorias do tipo logística como % do faturamento.
+
+export interface LogisticsSettings {
+  // Relação frete/faturamento (%) perseguida no ano.
+  meta: number;
+  // Meses com frete acima deste % do faturamento ficam sinalizados.
+  limite: number;
+}
+
+export const DEFAULT_LOGISTICS: LogisticsSettings = { meta: 1.5, limite: 2 };
+
+export interface CarrierMonth {
+  valor: number;
+  // % do faturamento do mês; null sem faturamento.
+  percentual: number | null;
+  // % do frete do mês que passou pela transportadora.
+  participacao: number;
+}
+
+export interface LogisticsMonth {
+  mes: string;
+  faturamento: number;
+  frete: number;
+  fechado: boolean;
+  // Null sem faturamento ou com o mês em aberto.
+  percentual: number | null;
+  // Frete sobre faturamento dos últimos 3 meses com faturamento, para suavizar a tendência.
+  media3m: number | null;
+  // Diferença em pontos percentuais para a meta.
+  desvio: number | null;
+  acimaLimite: boolean;
+  transportadoras: Record<string, CarrierMonth>;
+}
+
+export interface CarrierSummary {
+  categoria: CostCategory;
+  total: number;
+  percentual: number;
+  participacao: number;
+  // Variação da participação (p.p.) entre o primeiro e o último mês com frete.
+  variacaoParticipacao: number;
+}
+
+export interface LogisticsAnalysis {
+  transportadoras: CarrierSummary[];
+  months: LogisticsMonth[];
+  frete: number;
+  faturamento: number;
+  percentual: number;
+  // Inclinação (p.p. por mês) da reta de mínimos quadrados do % mensal.
+  tendencia: number;
+  mesesAcimaLimite: string[];
+}
+
+const pct = (value: number, base: number) => (base > 0 ? (value / base) * 100 : 0);
+
+const slope = (values: number[]): number => {
+  const n = values.length;
+  if (n < 2) return 0;
+  const xMean = (n - 1) / 2;
+  const yMean = values.reduce((a, b) => a + b, 0) / n;
+  const num = values.reduce((acc, v, i) => acc + (i - xMean) * (v - yMean), 0);
+  const den = values.reduce((acc, _, i) => acc + (i - xMean) ** 2, 0);
+  return num / den;
+};
+
+/**
+ * Frete mês a mês sobre o faturamento realizado (metas e custos pareados pela posição), por
+ * transportadora e no total. Meses em aberto ou sem faturamento não têm percentual e ficam fora
+ * dos totais e da tendência.
+ */
+export const analyzeLogistics = (metas: any[], custos: any[], categories: CostCategory[], settings: LogisticsSettings, closedMonths: number): LogisticsAnalysis => {
+  const carriers = categories.filter(c => c.tipo === 'logistica');
+
+  const months: LogisticsMonth[] = metas.map((m: any, idx: number) => {
+    const row = custos[idx] || {};
+    const faturamento = m.realizado || 0;
+    const frete = carriers.reduce((acc, c) => acc + categoryCost(row, c), 0);
+    const fechado = idx < closedMonths;
+    const percentual = fechado && faturamento > 0 ? pct(frete, faturamento) : null;
+    return {
+      mes: m.month || row.mes,
+      faturamento,
+      frete,
+      fechado,
+      percentual,
+      media3m: null,
+      desvio: percentual === null ? null : percentual - settings.meta,
+      acimaLimite: percentual !== null && percentual > settings.limite,
+      transportadoras: Object.fromEntries(carriers.map(c => {
+        const valor = categoryCost(row, c);
+        return [c.key, { valor, percentual: percentual !== null ? pct(valor, faturamento) : null, participacao: pct(valor, frete) }];
+      })),
+    };
+  });
+
+  const reported = months.filter(m => m.percentual !== null);
+  reported.forEach((m, i) => {
+    const window = reported.slice(Math.max(0, i - 2), i + 1);
+    m.media3m = pct(window.reduce((acc, w) => acc + w.frete, 0), window.reduce((acc, w) => acc + w.faturamento, 0));
+  });
+
+  const fechados = months.filter(m => m.fechado);
+  const frete = fechados.reduce((acc, m) => acc + m.frete, 0);
+  const faturamento = reported.reduce((acc, m) => acc + m.faturamento, 0);
+  // Percentuais do período só com os meses que têm faturamento.
+  const freteReportado = (key?: string) =>
+    reported.reduce((acc, m) => acc + (key ? m.transportadoras[key].valor : m.frete), 0);
+  const comFrete = fechados.filter(m => m.frete > 0);
+
+  return {
+    transportadoras: carriers.map(categoria => {
+      const total = fechados.reduce((acc, m) => acc + m.transportadoras[categoria.key].valor, 0);
+      const first = comFrete[0]?.transportadoras[categoria.key].participacao ?? 0;
+      const last = comFrete[comFrete.length - 1]?.transportadoras[categoria.key].participacao ?? 0;
+      return { categoria, total, percentual: pct(freteReportado(categoria.key), faturamento), participacao: pct(total, frete), variacaoParticipacao: last - first };
+    }),
+    months,
+    frete,
+    faturamento,
+    percentual: pct(freteReportado(), faturamento),
+    tendencia: slope(reported.map(m => m.percentual as number)),
+    mesesAcimaLimite: months.filter(m => m.acimaLimite).map(m => m.mes),
+  };
+};
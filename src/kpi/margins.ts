@@ -0,0 +1,140 @@
+import { CostCategory, CostCategoryType, COST_CATEGORY_TYPES, categoryCost, categoryTarget, costByType } from './costCategories';
+
+export interface MonthlyMargin {
+  mes: string;
+  faturamento: number;
+  custoGeral: number;
+  // Custo de cada categoria do registro, pela chave.
+  custos: Record<string, number>;
+  lucro: number;
+  margem: number;
+  // Mês fechado; os em aberto ainda podem ter lançamentos faltando.
+  fechado: boolean;
+}
+
+// Soma de todas as categorias do registro (fornecedores, logística e outros custos).
+export const custoGeral = (c: any, categories: CostCategory[]): number =>
+  categories.reduce((acc, cat) => acc + categoryCost(c, cat), 0);
+
+export const custoLogistico = (c: any, categories: CostCategory[]): number =>
+  costByType(c, categories, 'logistica');
+
+/**
+ * Faturamento, custo geral, resultado e margem (%) mês a mês, pareando metas e custos pela posição.
+ * Os `closedMonths` primeiros meses são os fechados.
+ */
+export const computeMonthlyMargins = (metas: any[], custos: any[], categories: CostCategory[], closedMonths: number): MonthlyMargin[] =>
+  metas.map((item: any, idx: number) => {
+    const faturamento = item.realizado || 0;
+    const row = custos[idx] || {};
+    const custo = custoGeral(row, categories);
+    const lucro = faturamento - custo;
+    const margem = faturamento > 0 ? (lucro / faturamento) * 100 : 0;
+    return {
+      mes: item.month || item.mes,
+      faturamento,
+      custoGeral: custo,
+      custos: Object.fromEntries(categories.map(cat => [cat.key, categoryCost(row, cat)])),
+      lucro,
+      margem: parseFloat(margem.toFixed(1)),
+      fechado: idx < closedMonths,
+    };
+  });
+
+export interface MarginSummary {
+  avgMargin: number;
+  totalLucro: number;
+  bestMonth: { mes: string; margem: number };
+  highestCostMonth: { mes: string; custoGeral: number };
+}
+
+// Só meses fechados entram na média, no resultado e nos destaques; entre eles, os sem faturamento e sem custo ficam de fora.
+export const summarizeMargins = (rows: MonthlyMargin[]): MarginSummary => {
+  let sumMargin = 0;
+  let sumFaturamento = 0;
+  let sumCustoGeral = 0;
+  let best = { mes: '-', margem: -999 };
+  let highestCost = { mes: '-', custoGeral: 0 };
+  let validMonthsCount = 0;
+
+  rows.forEach(d => {
+    if (d.fechado && (d.faturamento > 0 || d.custoGeral > 0)) {
+      sumMargin += d.margem;
+      sumFaturamento += d.faturamento;
+      sumCustoGeral += d.custoGeral;
+      validMonthsCount++;
+      if (d.faturamento > 0 && d.margem > best.margem) best = { mes: d.mes, margem: d.margem };
+      if (d.custoGeral > highestCost.custoGeral) highestCost = { mes: d.mes, custoGeral: d.custoGeral };
+    }
+  });
+
+  return {
+    avgMargin: validMonthsCount > 0 ? sumMargin / validMonthsCount : 0,
+    totalLucro: sumFaturamento - sumCustoGeral,
+    bestMonth: best.mes !== '-' ? best : { mes: 'Sem dados', margem: 0 },
+    highestCostMonth: highestCost.mes !== '-' ? highestCost : { mes: 'Sem dados', custoGeral: 0 },
+  };
+};
+
+export interface CategoryTotal {
+  categoria: CostCategory;
+  total: number;
+  // Soma das metas mensais; zero quando a categoria não tem meta.
+  meta: number;
+  atingimento: number;
+  // Mesmos números só nos meses fechados.
+  totalFechado: number;
+  metaFechada: number;
+  atingimentoFechado: number;
+}
+
+export interface YearTotals {
+  metaAno: number;
+  totalRealizado: number;
+  atingimento: number;
+  // Realizado e meta dos meses fechados.
+  realizadoFechado: number;
+  metaFechada: number;
+  atingimentoFechado: number;
+  categorias: CategoryTotal[];
+  custoPorTipo: Record<CostCategoryType, number>;
+  custoTotalGeral: number;
+}
+
+export const summarizeYear = (metas: any[], custos: any[], categories: CostCategory[], closedMonths: number): YearTotals => {
+  const sum = (rows: any[], fn: (r: any) => number) => rows.reduce((acc, r) => acc + fn(r), 0);
+  const metaAno = sum(metas, m => m.meta || 0);
+  const totalRealizado = sum(metas, m => m.realizado || 0);
+  const fechadas = metas.slice(0, closedMonths);
+  const realizadoFechado = sum(fechadas, m => m.realizado || 0);
+  const metaFechada = sum(fechadas, m => m.meta || 0);
+  const categorias = categories.map(categoria => {
+    const total = sum(custos, c => categoryCost(c, categoria));
+    const meta = sum(custos, c => categoryTarget(c, categoria));
+    const totalFechado = sum(custos.slice(0, closedMonths), c => categoryCost(c, categoria));
+    const metaCategoriaFechada = sum(custos.slice(0, closedMonths), c => categoryTarget(c, categoria));
+    return {
+      categoria,
+      total,
+      meta,
+      atingimento: meta > 0 ? (total / meta) * 100 : 0,
+      totalFechado,
+      metaFechada: metaCategoriaFechada,
+      atingimentoFechado: metaCategoriaFechada > 0 ? (totalFechado / metaCategoriaFechada) * 100 : 0,
+    };
+  });
+  return {
+    metaAno,
+    totalRealizado,
+    atingimento: metaAno > 0 ? (totalRealizado / metaAno) * 100 : 0,
+    realizadoFechado,
+    metaFechada,
+    atingimentoFechado: metaFechada > 0 ? (realizadoFechado / metaFechada) * 100 : 0,
+    categorias,
+    custoPorTipo: COST_CATEGORY_TYPES.reduce((acc, tipo) => ({
+      ...acc,
+      [tipo]: categorias.filter(c => c.categoria.tipo === tipo).reduce((sum, c) => sum + c.total, 0),
+    }), {} as Record<CostCategoryType, number>),
+    custoTotalGeral: categorias.reduce((acc, c) => acc + c.total, 0),
+  };
+};
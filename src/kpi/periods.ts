@@ -0,0 +1,132 @@
+import { MONTHS } from '../../constants';
+
+// Fechamento de períodos: cada mês do ano está em aberto (lançamentos ainda não informados ou
+// provisórios), fechado (números definitivos) ou bloqueado (fechado e sem edição nas planilhas).
+
+export type PeriodStatus = 'aberto' | 'fechado' | 'bloqueado';
+
+export const PERIOD_STATUSES: PeriodStatus[] = ['aberto', 'fechado', 'bloqueado'];
+
+export const PERIOD_STATUS_LABELS: Record<PeriodStatus, string> = {
+  aberto: 'Em aberto',
+  fechado: 'Fechado',
+  bloqueado: 'Bloqueado',
+};
+
+export interface PeriodRow {
+  month: string;
+  status: PeriodStatus;
+  // Data (ISO) da última mudança de situação.
+  atualizadoEm: string;
+  // Motivo informado na última reabertura ou desbloqueio.
+  motivo: string;
+}
+
+export const openPeriods = (closed = 0): PeriodRow[] =>
+  MONTHS.map((month, idx) => ({ month, status: idx < closed ? 'fechado' : 'aberto', atualizadoEm: '', motivo: '' }));
+
+const isClosed = (p?: PeriodRow) => p?.status === 'fechado' || p?.status === 'bloqueado';
+
+/**
+ * Quantidade de meses fechados do ano. O fechamento é sempre em sequência, então são os
+ * primeiros meses; é a partir daqui que indicadores, médias e projeções separam o que já é
+ * definitivo do que ainda está em aberto.
+ */
+export const closedMonthCount = (periods: PeriodRow[] = []): number => {
+  const idx = periods.findIndex(p => !isClosed(p));
+  return idx < 0 ? periods.length : idx;
+};
+
+export const lockedMonths = (periods: PeriodRow[] = []): string[] =>
+  periods.filter(p => p.status === 'bloqueado').map(p => p.month);
+
+// Meses bloqueados cujas linhas mudaram entre `before` e `after` (linhas pareadas pelo mês).
+export const lockedRowChanges = (before: any[] = [], after: any[] = [], locked: string[]): string[] => {
+  const monthOf = (row: any) => String(row?.month ?? row?.mes);
+  const find = (rows: any[], month: string) => rows.find(r => monthOf(r) === month);
+  return locked.filter(month => JSON.stringify(find(before, month)) !== JSON.stringify(find(after, month)));
+};
+
+// Mudanças que voltam um mês atrás (reabrir ou desbloquear) exigem motivo.
+export const needsReason = (from: PeriodStatus, to: PeriodStatus) =>
+  PERIOD_STATUSES.indexOf(to) < PERIOD_STATUSES.indexOf(from);
+
+/**
+ * Valida a mudança de situação de um mês. Só fecha quem tem os meses anteriores fechados e só
+ * reabre quem não tem meses posteriores fechados, para que os fechados sejam sempre os primeiros.
+ * Devolve a mensagem de erro ou null.
+ */
+export const periodTransitionError = (periods: PeriodRow[], idx: number, to: PeriodStatus, motivo = ''): string | null => {
+  const current = periods[idx];
+  if (!current || current.status === to) return null;
+  if (to !== 'aberto' && periods.slice(0, idx).some(p => !isClosed(p))) {
+    return `Feche os meses anteriores a ${current.month} primeiro.`;
+  }
+  if (to === 'aberto' && periods.slice(idx + 1).some(isClosed)) {
+    return `Reabra os meses posteriores a ${current.month} primeiro.`;
+  }
+  if (needsReason(current.status, to) && !motivo.trim()) return 'Informe o motivo da reabertura.';
+  return null;
+};
+
+export const transitionPeriod = (periods: PeriodRow[], idx: number, to: PeriodStatus, motivo = '', now = new Date()): PeriodRow[] =>
+  periods.map((p, i) => (i === idx
+    ? { ...p, status: to, atualizadoEm: now.toISOString(), motivo: needsReason(p.status, to) ? motivo.trim() : p.motivo }
+    : p));
+
+// Datasets mensais cujas linhas ficam protegidas nos meses bloqueados.
+export const PERIOD_LOCKED_FIELDS = ['metas', 'vendedorData', 'metasVendedores', 'custos'];
+
+// Meses bloqueados ("2026 Mar") alterados entre duas versões de um dataset por ano.
+export const lockedChanges = (before: Record<string, any[]> = {}, after: Record<string, any[]> = {}, periodosByYear: Record<string, PeriodRow[]>): string[] =>
+  Object.keys(periodosByYear).flatMap(year =>
+    lockedRowChanges(before[year], after[year], lockedMonths(periodosByYear[year])).map(month => `${year} ${month}`));
+
+export const lockedEditMessage = (months: string[]) =>
+  `Meses bloqueados: ${months.join(', ')}. Desbloqueie o período em "Fechamento de Períodos" informando o motivo para editar.`;
+
+/**
+ * Protege os meses bloqueados de uma versão recebida por fora das planilhas (backup, sincronização,
+ * desfazer): as linhas desses meses e a própria situação de bloqueio voltam ao valor atual. Um mês
+ * só sai do bloqueio se a versão recebida trouxer o desbloqueio com motivo, posterior ao atual.
+ * Devolve os dados protegidos e os meses rejeitados ("2026 Mar").
+ */
+export const protectLockedMonths = <T extends Record<string, any>>(current: T, incoming: T): { data: T, rejected: string[] } => {
+  const data: Record<string, any> = { ...incoming };
+  const rejected = new Set<string>();
+  const monthOf = (row: any) => String(row?.month ?? row?.mes);
+  const currentPeriods: Record<string, PeriodRow[]> = current.periodos || {};
+  const incomingPeriods: Record<string, PeriodRow[]> | undefined = incoming.periodos;
+
+  Object.keys(currentPeriods).forEach(year => {
+    const rows = currentPeriods[year] || [];
+    const locked = lockedMonths(rows).filter(month => {
+      if (!incomingPeriods) return true;
+      const before = rows.find(p => p.month === month)!;
+      const after = incomingPeriods[year]?.find(p => p.month === month);
+      if (after?.status === 'bloqueado') return true;
+      const unlocked = !!after && !!after.motivo?.trim() && (after.atualizadoEm || '') > (before.atualizadoEm || '');
+      if (unlocked) return false;
+      const periods = data.periodos[year] as PeriodRow[] | undefined;
+      data.periodos = { ...data.periodos, [year]: periods ? periods.map(p => (p.month === month ? before : p)) : rows };
+      rejected.add(`${year} ${month}`);
+      return true;
+    });
+    if (locked.length === 0) return;
+
+    PERIOD_LOCKED_FIELDS.forEach(field => {
+      if (data[field] === undefined) return;
+      const before: any[] = current[field]?.[year] || [];
+      const after: any[] | undefined = data[field][year];
+      const changed = lockedRowChanges(before, after, locked);
+      if (changed.length === 0) return;
+      changed.forEach(month => rejected.add(`${year} ${month}`));
+      data[field] = {
+        ...data[field],
+        [year]: after ? after.map(r => (changed.includes(monthOf(r)) ? before.find(b => monthOf(b) === monthOf(r)) ?? r : r)) : before,
+      };
+    });
+  });
+
+  return { data: data as T, rejected: [...rejected] };
+};
@@ -0,0 +1,134 @@
+// Carteira de clientes (interface Client): RFV e risco de churn calculados a partir do faturamento anual.
+
+export type ChurnRisk = 'Alto' | 'Médio' | 'Baixo';
+export type ClasseRFV = 'A' | 'B' | 'C';
+
+export const CHURN_RISKS: ChurnRisk[] = ['Alto', 'Médio', 'Baixo'];
+
+// Fração do faturamento considerada em risco para cada nível de churn.
+export const CHURN_RISK_WEIGHT: Record<ChurnRisk, number> = { Alto: 0.6, Médio: 0.3, Baixo: 0.1 };
+
+export interface PortfolioClient {
+  client: any;
+  id: string;
+  name: string;
+  salesperson: string;
+  billing: number;
+  cost: number;
+  salesCycleDays: number;
+  ultimoAno: number | null;
+  // Tendência anual (% da média por ano) pela reta de mínimos quadrados do faturamento anual.
+  tendencia: number;
+  variacaoUltimoAno: number | null;
+  recencia: number;
+  frequencia: number;
+  valor: number;
+  rfv: string;
+  classeRfv: ClasseRFV;
+  churnRisk: ChurnRisk;
+  receitaEmRisco: number;
+}
+
+export interface PortfolioSellerSummary {
+  salesperson: string;
+  clientes: number;
+  faturamento: number;
+  custo: number;
+  receitaEmRisco: number;
+  cicloMedio: number;
+  porRisco: Record<ChurnRisk, number>;
+  classeA: number;
+}
+
+export const portfolioYears = (clients: any[]): number[] =>
+  Array.from(new Set(clients.flatMap((c: any) => Object.keys(c.yearlyBilling || {}).map(Number)))).filter(Number.isFinite).sort((a, b) => a - b);
+
+const trendPercent = (values: number[]): number => {
+  const n = values.length;
+  if (n < 2) return 0;
+  const mean = values.reduce((a, b) => a + b, 0) / n;
+  if (mean <= 0) return 0;
+  const xMean = (n - 1) / 2;
+  const num = values.reduce((acc, v, i) => acc + (i - xMean) * (v - mean), 0);
+  const den = values.reduce((acc, _, i) => acc + (i - xMean) ** 2, 0);
+  return (num / den / mean) * 100;
+};
+
+/**
+ * Risco de churn pela evolução do faturamento anual: Alto quando parou de comprar no último
+ * ano, cai mais de 20% ao ano na tendência ou mais de 30% sobre o ano anterior; Médio a partir
+ * de 5% de queda na tendência ou 10% no último ano.
+ */
+export const churnRisk = (values: number[]): ChurnRisk => {
+  const last = values[values.length - 1] ?? 0;
+  const prev = values[values.length - 2] ?? 0;
+  const tendencia = trendPercent(values);
+  const variacao = prev > 0 ? (last / prev - 1) * 100 : 0;
+  if (values.some(v => v > 0) && last <= 0) return 'Alto';
+  if (tendencia <= -20 || variacao <= -30) return 'Alto';
+  if (tendencia <= -5 || variacao <= -10) return 'Médio';
+  return 'Baixo';
+};
+
+/**
+ * RFV de cada cliente em notas de 1 a 5: recência pelos anos desde a última compra, frequência
+ * pela fração dos anos observados com faturamento e valor pelo quintil do faturamento na carteira.
+ * Classe A com 12 pontos ou mais, B a partir de 8.
+ */
+export const analyzePortfolio = (clients: any[]): PortfolioClient[] => {
+  const years = portfolioYears(clients);
+  const refYear = years[years.length - 1];
+  const byValue = [...clients].sort((a, b) => (a.billing || 0) - (b.billing || 0));
+
+  return clients.map((c: any) => {
+    const values = years.map(y => Number(c.yearlyBilling?.[y]) || 0);
+    const activeYears = years.filter((_, i) => values[i] > 0);
+    const ultimoAno = activeYears.length > 0 ? activeYears[activeYears.length - 1] : null;
+    const last = values[values.length - 1] ?? 0;
+    const prev = values[values.length - 2] ?? 0;
+
+    const recencia = ultimoAno === null ? 1 : Math.max(1, 5 - (refYear - ultimoAno));
+    const frequencia = years.length > 0 ? Math.max(1, Math.ceil((activeYears.length / years.length) * 5)) : 1;
+    const valor = Math.max(1, Math.ceil(((byValue.indexOf(c) + 1) / clients.length) * 5));
+    const total = recencia + frequencia + valor;
+    const risk = churnRisk(values);
+    const billing = Number(c.billing) || 0;
+
+    return {
+      client: c,
+      id: String(c.id),
+      name: c.name,
+      salesperson: String(c.salesperson || ''),
+      billing,
+      cost: Number(c.cost) || 0,
+      salesCycleDays: Number(c.salesCycleDays) || 0,
+      ultimoAno,
+      tendencia: trendPercent(values),
+      variacaoUltimoAno: prev > 0 ? (last / prev - 1) * 100 : null,
+      recencia,
+      frequencia,
+      valor,
+      rfv: `${recencia}${frequencia}${valor}`,
+      classeRfv: total >= 12 ? 'A' : total >= 8 ? 'B' : 'C',
+      churnRisk: risk,
+      receitaEmRisco: billing * CHURN_RISK_WEIGHT[risk],
+    };
+  });
+};
+
+export const summarizePortfolioBySeller = (portfolio: PortfolioClient[]): PortfolioSellerSummary[] => {
+  const sellers = Array.from(new Set(portfolio.map(p => p.salesperson)));
+  return sellers.map(salesperson => {
+    const rows = portfolio.filter(p => p.salesperson === salesperson);
+    return {
+      salesperson,
+      clientes: rows.length,
+      faturamento: rows.reduce((acc, p) => acc + p.billing, 0),
+      custo: rows.reduce((acc, p) => acc + p.cost, 0),
+      receitaEmRisco: rows.reduce((acc, p) => acc + p.receitaEmRisco, 0),
+      cicloMedio: rows.length > 0 ? rows.reduce((acc, p) => acc + p.salesCycleDays, 0) / rows.length : 0,
+      porRisco: CHURN_RISKS.reduce((acc, r) => ({ ...acc, [r]: rows.filter(p => p.churnRisk === r).length }), {} as Record<ChurnRisk, number>),
+      classeA: rows.filter(p => p.classeRfv === 'A').length,
+    };
+  }).sort((a, b) => b.receitaEmRisco - a.receitaEmRisco);
+};
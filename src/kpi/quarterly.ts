@@ -0,0 +1,88 @@
+export type Trimestre = '1º' | '2º' | '3º' | '4º';
+
+export const TRIMESTRES: Trimestre[] = ['1º', '2º', '3º', '4º'];
+
+export interface QuarterRow {
+  ano: number;
+  trimestre: string;
+  faturamento: number;
+}
+
+// Anos usados como base de sazonalidade na ANÁLISE TRIMESTRAL.
+export const SEASONALITY_YEARS = [2022, 2023, 2024, 2025];
+
+export interface QuarterSeasonality {
+  sharesQ: Record<Trimestre, number>;
+  avgHistQ: Record<Trimestre, number>;
+}
+
+/** Participação de cada trimestre no ano e média por trimestre dos anos-base. */
+export const quarterSeasonality = (history: QuarterRow[], years = SEASONALITY_YEARS): QuarterSeasonality => {
+  let sumHistTotal = 0;
+  const sumHistQ: Record<string, number> = { '1º': 0, '2º': 0, '3º': 0, '4º': 0 };
+  history.forEach(d => {
+    if (years.includes(d.ano)) {
+      sumHistTotal += d.faturamento;
+      if (sumHistQ[d.trimestre] !== undefined) sumHistQ[d.trimestre] += d.faturamento;
+    }
+  });
+  const sharesQ = {} as Record<Trimestre, number>;
+  const avgHistQ = {} as Record<Trimestre, number>;
+  TRIMESTRES.forEach(q => {
+    sharesQ[q] = sumHistQ[q] / sumHistTotal;
+    avgHistQ[q] = sumHistQ[q] / years.length;
+  });
+  return { sharesQ, avgHistQ };
+};
+
+export interface QuarterlyProjection {
+  filledStatus: Partial<Record<Trimestre, boolean>>;
+  projectionQ: Record<Trimestre, number>;
+  projectedTotal: number;
+  sumFilled: number;
+  combinedShareOfFilled: number;
+}
+
+/**
+ * Fechamento do ano pela participação histórica: o realizado dos trimestres já lançados
+ * dividido pela fatia que esses trimestres costumam representar no ano.
+ */
+export const projectQuarterlyClose = (history: QuarterRow[], year: number, sharesQ: Record<Trimestre, number>): QuarterlyProjection => {
+  const current = history.filter(d => d.ano === year);
+  let sumFilled = 0;
+  let combinedShareOfFilled = 0;
+  const filledStatus: Partial<Record<Trimestre, boolean>> = {};
+
+  current.forEach(d => {
+    if (d.faturamento > 0) {
+      sumFilled += d.faturamento;
+      combinedShareOfFilled += sharesQ[d.trimestre as Trimestre];
+      filledStatus[d.trimestre as Trimestre] = true;
+    }
+  });
+
+  const projectedTotal = combinedShareOfFilled > 0 ? sumFilled / combinedShareOfFilled : 0;
+  const projectionQ = {} as Record<Trimestre, number>;
+  TRIMESTRES.forEach(q => {
+    projectionQ[q] = filledStatus[q]
+      ? current.find(d => d.trimestre === q)?.faturamento || 0
+      : projectedTotal * sharesQ[q];
+  });
+
+  return { filledStatus, projectionQ, projectedTotal, sumFilled, combinedShareOfFilled };
+};
+
+/**
+ * Histórico trimestral com o ano `year` refeito a partir do faturamento mensal (a mesma base do
+ * painel): só trimestres com os três meses fechados entram como realizados; os demais ficam
+ * zerados e são projetados. Meses em aberto, provisórios, não entram na projeção.
+ */
+export const withClosedQuarters = (history: QuarterRow[], year: number, metas: any[], closedMonths: number): QuarterRow[] => {
+  const fechados = Math.min(closedMonths, metas.length);
+  const rows = TRIMESTRES.map((trimestre, q) => ({
+    ano: year,
+    trimestre,
+    faturamento: (q + 1) * 3 <= fechados ? metas.slice(q * 3, q * 3 + 3).reduce((acc, m) => acc + (m.realizado || 0), 0) : 0,
+  }));
+  return [...history.filter(d => d.ano !== year), ...rows];
+};
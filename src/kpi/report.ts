@@ -0,0 +1,268 @@
+import { MONTHS } from '../../constants';
+import { ExportColumn, toCsv } from '../../utils/spreadsheet';
+import { Workspace } from '../storage/backup';
+import { DEFAULT_COST_CATEGORIES, COST_CATEGORY_TYPES, COST_CATEGORY_TYPE_LABELS, CostCategory, categoryCost, categoryTarget, costByType } from './costCategories';
+import { computeMonthlyMargins, summarizeMargins, summarizeYear, custoGeral } from './margins';
+import { quarterSeasonality, projectQuarterlyClose, withClosedQuarters, TRIMESTRES } from './quarterly';
+import { ClienteStatusThresholds, DEFAULT_STATUS_THRESHOLDS, clientYearValue, getClienteStatus } from './clients';
+import { AbcXyzSettings, DEFAULT_ABC_XYZ, classifyAbcXyz } from './abcXyz';
+import { sellerAttainment } from './sellers';
+import { revenueForecastFor } from './forecast';
+import { supplierCommitment } from './commitment';
+import { PERIOD_STATUS_LABELS, PeriodRow, closedMonthCount } from './periods';
+
+export interface ReportSection {
+  title: string;
+  columns: ExportColumn[];
+  rows: any[];
+}
+
+export interface ClosingReport {
+  year: string;
+  month: string;
+  sections: ReportSection[];
+}
+
+const formatBRL = (value: number): string =>
+  new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL', minimumFractionDigits: 2 }).format(value || 0);
+
+const formatPercent = (value: number) => `${(value || 0).toLocaleString('pt-BR', { minimumFractionDigits: 1, maximumFractionDigits: 1 })}%`;
+
+const pct = (value: number, base: number) => (base > 0 ? (value / base) * 100 : 0);
+
+// Último mês com faturamento lançado; é o mês de fechamento quando nenhum é informado.
+export const lastReportedMonth = (metas: any[]): string | null => {
+  const last = metas.reduce((acc: number, m: any, idx: number) => ((m.realizado || 0) > 0 ? idx : acc), -1);
+  return last >= 0 ? metas[last].month : null;
+};
+
+/**
+ * Relatório de fechamento do mês para a diretoria. Considera só os meses até o fechamento, que
+ * por padrão é o último mês fechado do ano; no último mês lançado os números coincidem com os do painel.
+ * Aceita o workspace parcial de um backup: datasets ausentes contam como vazios.
+ */
+export const buildClosingReport = (workspace: Partial<Workspace>, year: string, month?: string): ClosingReport => {
+  const allMetas: any[] = workspace.metas?.[year] || [];
+  if (allMetas.length === 0) throw new Error(`Não há metas cadastradas para ${year}.`);
+  // Backups anteriores ao fechamento de períodos tratam todos os meses como fechados.
+  const periodos: PeriodRow[] | undefined = workspace.periodos?.[year];
+  const fechados = periodos ? Math.min(closedMonthCount(periodos), allMetas.length) : allMetas.length;
+  const ultimoFechado = periodos && fechados > 0 ? allMetas[fechados - 1].month : null;
+  const closing = month || ultimoFechado || lastReportedMonth(allMetas) || MONTHS[0];
+  const monthIndex = allMetas.findIndex((m: any) => m.month === closing);
+  if (monthIndex < 0) throw new Error(`Mês inválido: ${closing}. Use ${MONTHS.join(', ')}.`);
+
+  const metas = allMetas.slice(0, monthIndex + 1);
+  const custos: any[] = (workspace.custos?.[year] || []).slice(0, monthIndex + 1);
+  const vendedoresConfig: any[] = workspace.vendedoresConfig?.[year] || [];
+  const vendedorData: any[] = (workspace.vendedorData?.[year] || []).slice(0, monthIndex + 1);
+  const metasVendedores: any[] = workspace.metasVendedores?.[year] || [];
+  const quarterlyHistory: any[] = workspace.quarterlyHistory || [];
+  const clientes: any[] = workspace.gestaoTop20?.clientes || [];
+  // Backups anteriores ao registro de categorias usam as colunas originais da planilha de custos.
+  const categorias: CostCategory[] = workspace.categoriasCusto || DEFAULT_COST_CATEGORIES;
+
+  const fechadosNoPeriodo = Math.min(fechados, metas.length);
+  const anual = summarizeYear(allMetas, [], categorias, fechados);
+  const acumulado = summarizeYear(metas, custos, categorias, fechadosNoPeriodo);
+  const margens = computeMonthlyMargins(metas, custos, categorias, fechadosNoPeriodo);
+  const resumoMargens = summarizeMargins(margens);
+  const mes = allMetas[monthIndex];
+
+  const { sharesQ } = quarterSeasonality(quarterlyHistory);
+  // Mesma base do painel: o faturamento mensal até o fechamento, só com trimestres inteiros fechados.
+  const trimestral = projectQuarterlyClose(withClosedQuarters(quarterlyHistory, Number(year), metas, fechadosNoPeriodo), Number(year), sharesQ);
+  const forecast = revenueForecastFor({ ...workspace.metas, [year]: metas }, quarterlyHistory, year, periodos ? fechadosNoPeriodo : undefined);
+
+  const indicadores: [string, string][] = [
+    ...(periodos ? [
+      [`Situação de ${closing}`, PERIOD_STATUS_LABELS[periodos[monthIndex]?.status || 'aberto']],
+      ['Meses fechados no período', `${fechadosNoPeriodo} de ${metas.length}`],
+    ] as [string, string][] : []),
+    ['Meta anual', formatBRL(anual.metaAno)],
+    [`Realizado em ${closing}`, formatBRL(mes.realizado || 0)],
+    [`Meta de ${closing}`, formatBRL(mes.meta || 0)],
+    [`Atingimento de ${closing}`, formatPercent(pct(mes.realizado || 0, mes.meta || 0))],
+    ['Realizado acumulado', formatBRL(acumulado.totalRealizado)],
+    ['Meta acumulada', formatBRL(acumulado.metaAno)],
+    ['Atingimento acumulado', formatPercent(acumulado.atingimento)],
+    ['Atingimento da meta anual', formatPercent(pct(acumulado.totalRealizado, anual.metaAno))],
+    ['Margem média', formatPercent(resumoMargens.avgMargin)],
+    ['Resultado acumulado', formatBRL(resumoMargens.totalLucro)],
+    ['Melhor margem', `${resumoMargens.bestMonth.mes} (${formatPercent(resumoMargens.bestMonth.margem)})`],
+    ['Maior custo', `${resumoMargens.highestCostMonth.mes} (${formatBRL(resumoMargens.highestCostMonth.custoGeral)})`],
+    ...acumulado.categorias
+      .filter(c => c.categoria.metaKey)
+      .flatMap(c => {
+        const compromisso = supplierCommitment(workspace.custos?.[year] || [], c.categoria, fechadosNoPeriodo);
+        return [
+          [`Compras ${c.categoria.label} vs meta`, `${formatBRL(c.total)} de ${formatBRL(c.meta)} (${formatPercent(c.atingimento)})`],
+          [`Ritmo de compras ${c.categoria.label}`, `${formatPercent(compromisso.ritmo)} do esperado; fechamento no ritmo atual ${formatBRL(compromisso.projecaoAno)} (${formatPercent(compromisso.projecaoPerc)})`],
+          [`Compra mensal necessária ${c.categoria.label}`, formatBRL(compromisso.necessarioMensal)],
+        ] as [string, string][];
+      }),
+    ['Fechamento pela sazonalidade trimestral', trimestral.combinedShareOfFilled > 0 ? formatBRL(trimestral.projectedTotal) : 'Sem trimestre fechado'],
+    ['Fechamento provável (previsão mensal)', formatBRL(forecast.yearEnd.expected)],
+    ['Faixa de 80%', `${formatBRL(forecast.yearEnd.band80[0])} a ${formatBRL(forecast.yearEnd.band80[1])}`],
+  ];
+
+  const mensal = margens.map((m, idx) => ({
+    ...m,
+    meta: metas[idx].meta || 0,
+    atingimento: pct(m.faturamento, metas[idx].meta || 0),
+    situacao: m.fechado ? 'Fechado' : 'Em aberto',
+  }));
+  mensal.push({
+    mes: 'Acumulado',
+    faturamento: acumulado.totalRealizado,
+    custoGeral: acumulado.custoTotalGeral,
+    custos: Object.fromEntries(acumulado.categorias.map(c => [c.categoria.key, c.total])),
+    lucro: resumoMargens.totalLucro,
+    margem: parseFloat(resumoMargens.avgMargin.toFixed(1)),
+    fechado: fechadosNoPeriodo === metas.length,
+    meta: acumulado.metaAno,
+    atingimento: acumulado.atingimento,
+    situacao: '',
+  });
+
+  // Uma coluna por categoria (com meta e % quando houver) e o subtotal de cada tipo.
+  const tiposUsados = COST_CATEGORY_TYPES.filter(tipo => categorias.some(c => c.tipo === tipo));
+  const custosColumns: ExportColumn[] = [
+    { key: 'mes', label: 'Mês' },
+    ...categorias.flatMap((cat, i): ExportColumn[] => [
+      ...(cat.metaKey ? [{ key: `meta_${i}`, label: `Meta ${cat.label}`, kind: 'currency' as const }] : []),
+      { key: `custo_${i}`, label: cat.label, kind: 'currency' },
+      ...(cat.metaKey ? [{ key: `perc_${i}`, label: `${cat.label} vs Meta (%)`, kind: 'percent' as const }] : []),
+    ]),
+    ...tiposUsados.map((tipo): ExportColumn => ({ key: `tipo_${tipo}`, label: `Total ${COST_CATEGORY_TYPE_LABELS[tipo]}`, kind: 'currency' })),
+    { key: 'total', label: 'Custo Geral', kind: 'currency' },
+  ];
+  const custosRows = custos.map((c: any) => ({
+    mes: c.mes,
+    ...Object.fromEntries(categorias.flatMap((cat, i) => [
+      [`meta_${i}`, categoryTarget(c, cat)],
+      [`custo_${i}`, categoryCost(c, cat)],
+      [`perc_${i}`, pct(categoryCost(c, cat), categoryTarget(c, cat))],
+    ])),
+    ...Object.fromEntries(tiposUsados.map(tipo => [`tipo_${tipo}`, costByType(c, categorias, tipo)])),
+    total: custoGeral(c, categorias),
+  }));
+
+  const vendedores = sellerAttainment(vendedoresConfig, vendedorData, metas, metasVendedores).map(s => {
+    const metaAteMes = s.months.reduce((acc, m) => acc + m.target, 0);
+    return { label: s.label, meta: s.meta, metaAteMes, realizado: s.realizado, atingimentoPeriodo: pct(s.realizado, metaAteMes), atingimento: s.atingimento };
+  });
+
+  // Classificação sobre a base inteira com os parâmetros do painel; o relatório lista os 10 maiores.
+  const abcXyz: AbcXyzSettings = { ...DEFAULT_ABC_XYZ, ...workspace.abcXyz };
+  const thresholds: ClienteStatusThresholds = { ...DEFAULT_STATUS_THRESHOLDS, ...workspace.statusThresholds };
+  const classificacao = classifyAbcXyz(clientes, Number(year), abcXyz);
+  const abc = classificacao.clients.slice(0, 10).map((c, idx) => ({
+    posicao: idx + 1,
+    name: c.name,
+    value: c.value,
+    perc: c.perc,
+    classe: c.classe,
+    xyz: c.xyz,
+    status: getClienteStatus(c.cliente, clientYearValue(c.cliente, year), thresholds),
+  }));
+  const periodoAbc = classificacao.years.length > 1 ? `${classificacao.years[0]}-${year}` : year;
+
+  return {
+    year,
+    month: closing,
+    sections: [
+      {
+        title: 'Indicadores',
+        columns: [{ key: 'indicador', label: 'Indicador' }, { key: 'valor', label: 'Valor' }],
+        rows: indicadores.map(([indicador, valor]) => ({ indicador, valor })),
+      },
+      {
+        title: 'Faturamento vs Meta e Margem',
+        columns: [
+          { key: 'mes', label: 'Mês' },
+          { key: 'situacao', label: 'Situação' },
+          { key: 'meta', label: 'Meta', kind: 'currency' },
+          { key: 'faturamento', label: 'Realizado', kind: 'currency' },
+          { key: 'atingimento', label: 'Atingimento (%)', kind: 'percent' },
+          { key: 'custoGeral', label: 'Custo Geral', kind: 'currency' },
+          { key: 'lucro', label: 'Resultado', kind: 'currency' },
+          { key: 'margem', label: 'Margem (%)', kind: 'percent' },
+        ],
+        rows: mensal,
+      },
+      {
+        title: 'Custos e Logística',
+        columns: custosColumns,
+        rows: custosRows,
+      },
+      {
+        title: 'Vendedores',
+        columns: [
+          { key: 'label', label: 'Vendedor' },
+          { key: 'meta', label: 'Meta Anual', kind: 'currency' },
+          { key: 'metaAteMes', label: `Meta até ${closing}`, kind: 'currency' },
+          { key: 'realizado', label: 'Realizado', kind: 'currency' },
+          { key: 'atingimentoPeriodo', label: 'Atingimento no Período (%)', kind: 'percent' },
+          { key: 'atingimento', label: 'Atingimento Anual (%)', kind: 'percent' },
+        ],
+        rows: vendedores,
+      },
+      {
+        title: 'Projeção Trimestral',
+        columns: [
+          { key: 'trimestre', label: 'Trimestre' },
+          { key: 'situacao', label: 'Situação' },
+          { key: 'valor', label: 'Faturamento', kind: 'currency' },
+          { key: 'participacao', label: 'Participação Histórica (%)', kind: 'percent' },
+        ],
+        rows: TRIMESTRES.map(q => ({
+          trimestre: `${q} Trimestre`,
+          situacao: trimestral.filledStatus[q] ? 'Realizado' : trimestral.combinedShareOfFilled > 0 ? 'Projetado' : 'Sem trimestre fechado',
+          valor: trimestral.projectionQ[q] || 0,
+          participacao: (sharesQ[q] || 0) * 100,
+        })),
+      },
+      {
+        title: 'Curva ABC/XYZ (Top 10)',
+        columns: [
+          { key: 'posicao', label: '#', kind: 'number' },
+          { key: 'name', label: 'Cliente' },
+          { key: 'value', label: `Valor ${periodoAbc}`, kind: 'currency' },
+          { key: 'perc', label: 'Acumulado (%)', kind: 'percent' },
+          { key: 'classe', label: 'Classe ABC' },
+          { key: 'xyz', label: 'Classe XYZ' },
+          { key: 'status', label: 'Status' },
+        ],
+        rows: abc,
+      },
+    ],
+  };
+};
+
+const formatCell = (value: any, kind: ExportColumn['kind']) => {
+  if (typeof value !== 'number') return String(value ?? '').replace(/\|/g, '\\|');
+  if (kind === 'currency') return formatBRL(value);
+  if (kind === 'percent') return formatPercent(value);
+  return value.toLocaleString('pt-BR');
+};
+
+export const renderMarkdown = (report: ClosingReport): string => {
+  const lines = [`# Fechamento ${report.month}/${report.year}`, ''];
+  report.sections.forEach(section => {
+    const align = section.columns.map(c => (c.kind && c.kind !== 'text' ? '---:' : '---'));
+    lines.push(`## ${section.title}`, '');
+    if (section.rows.length === 0) {
+      lines.push('_Sem dados._', '');
+      return;
+    }
+    lines.push(`| ${section.columns.map(c => c.label).join(' | ')} |`, `| ${align.join(' | ')} |`);
+    section.rows.forEach(r => lines.push(`| ${section.columns.map(c => formatCell(r[c.key], c.kind)).join(' | ')} |`));
+    lines.push('');
+  });
+  return lines.join('\n');
+};
+
+// Uma tabela por seção, separadas por linha em branco e precedidas do título.
+export const renderCsv = (report: ClosingReport): string =>
+  report.sections.map(section => `${section.title}\r\n${toCsv(section.columns, section.rows)}`).join('\r\n\r\n');
@@ -0,0 +1,163 @@
+import { CostCategory, COST_CATEGORY_TYPE_LABELS, categoryCost } from './costCategories';
+import { clientYearValue } from './clients';
+
+// Grupo de custo ajustável no simulador (variação percentual sobre o custo atual): a chave do
+// fornecedor ou o tipo ('logistica', 'outro') das demais categorias.
+export type ScenarioCostGroup = string;
+
+export interface ScenarioCostGroupDef {
+  key: ScenarioCostGroup;
+  label: string;
+  categorias: CostCategory[];
+}
+
+// Cada fornecedor é ajustado separadamente; logística e outros custos entram somados por tipo.
+export const scenarioCostGroups = (categories: CostCategory[]): ScenarioCostGroupDef[] => [
+  ...categories.filter(c => c.tipo === 'fornecedor').map(c => ({ key: c.key, label: c.label, categorias: [c] })),
+  ...(['logistica', 'outro'] as const)
+    .map(tipo => ({ key: tipo, label: COST_CATEGORY_TYPE_LABELS[tipo], categorias: categories.filter(c => c.tipo === tipo) }))
+    .filter(g => g.categorias.length > 0),
+];
+
+export const MAX_SCENARIOS = 3;
+
+export interface Scenario {
+  id: string;
+  name: string;
+  year: string;
+  createdAt: string;
+  // Resultado anual de cada vendedor (R$), por id.
+  sellers: Record<string, number>;
+  // Projeção do ano de cada cliente da GESTÃO TOP 20 (R$), por id.
+  clients: Record<string, number>;
+  costs: Record<ScenarioCostGroup, number>;
+}
+
+export interface ScenarioBase {
+  year: string;
+  metaAno: number;
+  faturamento: number;
+  grupos: { key: ScenarioCostGroup; label: string }[];
+  custos: Record<ScenarioCostGroup, number>;
+  sellers: { id: string; label: string; color?: string; meta: number; resultado: number }[];
+  clientes: any[];
+}
+
+/**
+ * Ponto de partida dos cenários: o fechamento provável do ano. Resultado dos vendedores e
+ * custos dos meses fechados são estendidos na mesma proporção do faturamento; sem nenhum mês
+ * fechado, valem os lançamentos provisórios.
+ */
+export const buildScenarioBase = (input: {
+  year: string;
+  metas: any[];
+  custos: any[];
+  categorias: CostCategory[];
+  vendedoresConfig: any[];
+  vendedorData: any[];
+  clientes: any[];
+  expectedClose: number;
+  closedMonths: number;
+}): ScenarioBase => {
+  const total = (rows: any[]) => rows.reduce((acc, m) => acc + (m.realizado || 0), 0);
+  const fechados = total(input.metas.slice(0, input.closedMonths)) > 0 ? input.closedMonths : input.metas.length;
+  const realizado = total(input.metas.slice(0, fechados));
+  const custos = input.custos.slice(0, fechados);
+  const vendedorData = input.vendedorData.slice(0, fechados);
+  const scale = realizado > 0 ? input.expectedClose / realizado : 1;
+  const grupos = scenarioCostGroups(input.categorias);
+  return {
+    year: input.year,
+    metaAno: input.metas.reduce((acc, m) => acc + (m.meta || 0), 0),
+    faturamento: realizado > 0 ? input.expectedClose : 0,
+    grupos: grupos.map(({ key, label }) => ({ key, label })),
+    custos: Object.fromEntries(grupos.map(g => [
+      g.key,
+      custos.reduce((acc, c) => acc + g.categorias.reduce((sum, cat) => sum + categoryCost(c, cat), 0), 0) * scale,
+    ])),
+    sellers: input.vendedoresConfig.map((s: any) => ({
+      id: s.id,
+      label: s.label,
+      color: s.color,
+      meta: s.meta || 0,
+      resultado: vendedorData.reduce((acc, m) => acc + (m[s.id] || 0), 0) * scale,
+    })),
+    clientes: input.clientes,
+  };
+};
+
+// Novo cenário com os valores atuais copiados; a partir daí ele não acompanha mais os dados reais.
+export const createScenario = (base: ScenarioBase, name: string): Scenario => ({
+  id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`,
+  name,
+  year: base.year,
+  createdAt: new Date().toISOString(),
+  sellers: Object.fromEntries(base.sellers.map(s => [s.id, s.resultado])),
+  clients: Object.fromEntries(base.clientes.map((c: any) => [String(c.id), clientYearValue(c, base.year)])),
+  costs: Object.fromEntries(base.grupos.map(g => [g.key, 0])),
+});
+
+export interface OpportunityCost {
+  projetado: number;
+  falta: number;
+  alertas: number;
+}
+
+/**
+ * Painel de Custo de Oportunidade: quanto a projeção dos clientes Top 20 fica abaixo da
+ * meta anual e quantas contas projetam menos de 70% da própria média histórica.
+ */
+export const opportunityCost = (clientes: any[], meta: number, year: string | number, projections?: Record<string, number>): OpportunityCost => {
+  const valueOf = (c: any) => (projections && String(c.id) in projections ? projections[String(c.id)] : clientYearValue(c, year));
+  const projetado = clientes.reduce((acc: number, c: any) => acc + valueOf(c), 0);
+  const alertas = clientes.filter((c: any) => {
+    const h = Object.values(c.history || {}) as number[];
+    const m = h.length > 0 ? h.reduce((a, b) => a + b, 0) / h.length : 0;
+    return valueOf(c) < m * 0.7;
+  }).length;
+  return { projetado, falta: Math.max(0, meta - projetado), alertas };
+};
+
+export interface ScenarioResult {
+  faturamento: number;
+  atingimento: number;
+  custos: Record<ScenarioCostGroup, number>;
+  custoTotal: number;
+  lucro: number;
+  margem: number;
+  sellers: { id: string; label: string; color?: string; meta: number; resultado: number; atingimento: number }[];
+  oportunidade: OpportunityCost;
+}
+
+/**
+ * Aplica o cenário sobre a base. A diferença no resultado dos vendedores soma ao faturamento
+ * da empresa; os custos acompanham o volume faturado e recebem a variação do cenário.
+ * Sem cenário, devolve a própria base.
+ */
+export const evaluateScenario = (base: ScenarioBase, scenario?: Scenario | null): ScenarioResult => {
+  const sellers = base.sellers.map(s => {
+    const resultado = scenario && s.id in scenario.sellers ? scenario.sellers[s.id] : s.resultado;
+    return { ...s, resultado, atingimento: s.meta > 0 ? (resultado / s.meta) * 100 : 0 };
+  });
+  const delta = sellers.reduce((acc, s, i) => acc + s.resultado - base.sellers[i].resultado, 0);
+  const faturamento = Math.max(0, base.faturamento + delta);
+  const volume = base.faturamento > 0 ? faturamento / base.faturamento : 1;
+
+  const custos = {} as Record<ScenarioCostGroup, number>;
+  base.grupos.forEach(({ key }) => {
+    custos[key] = base.custos[key] * volume * (1 + (scenario?.costs[key] || 0) / 100);
+  });
+  const custoTotal = Object.values(custos).reduce((a, b) => a + b, 0);
+  const lucro = faturamento - custoTotal;
+
+  return {
+    faturamento,
+    atingimento: base.metaAno > 0 ? (faturamento / base.metaAno) * 100 : 0,
+    custos,
+    custoTotal,
+    lucro,
+    margem: faturamento > 0 ? (lucro / faturamento) * 100 : 0,
+    sellers,
+    oportunidade: opportunityCost(base.clientes, base.metaAno, base.year, scenario?.clients),
+  };
+};
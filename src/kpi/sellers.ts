@@ -0,0 +1,105 @@
+export interface SellerMonth {
+  month: string;
+  real: number;
+  target: number;
+}
+
+export interface SellerAttainment {
+  id: string;
+  label: string;
+  color?: string;
+  meta: number;
+  realizado: number;
+  atingimento: number;
+  months: SellerMonth[];
+}
+
+// Meta mensal individual lançada para o vendedor, ou undefined quando a célula não existe.
+const individualTarget = (targets: any[] | undefined, idx: number, id: string): number | undefined => {
+  const value = targets?.[idx]?.[id];
+  return typeof value === 'number' ? value : undefined;
+};
+
+/**
+ * Atingimento de cada vendedor sobre a meta anual. A meta mensal vem das metas individuais
+ * por vendedor; sem ela (vendedor novo, ano sem planilha), é a meta da empresa no mês
+ * repartida pela participação do vendedor na soma das metas anuais.
+ */
+export const sellerAttainment = (config: any[], vendedorData: any[], metas: any[], targets?: any[]): SellerAttainment[] => {
+  const totalMetaEmpresa = config.reduce((acc: number, s: any) => acc + s.meta, 0);
+  return config.map((s: any) => {
+    const realizado = vendedorData.reduce((acc: number, m: any) => acc + (m[s.id] || 0), 0);
+    const share = totalMetaEmpresa > 0 ? s.meta / totalMetaEmpresa : 0;
+    return {
+      id: s.id,
+      label: s.label,
+      color: s.color,
+      meta: s.meta,
+      realizado,
+      atingimento: s.meta > 0 ? (realizado / s.meta) * 100 : 0,
+      months: vendedorData.map((m: any, idx: number) => ({
+        month: m.month,
+        real: m[s.id] || 0,
+        target: individualTarget(targets, idx, s.id) ?? (metas[idx]?.meta || 0) * share,
+      })),
+    };
+  });
+};
+
+export interface TargetReconciliationMonth {
+  month: string;
+  metaEmpresa: number;
+  sellers: Record<string, number>;
+  somaVendedores: number;
+  diferenca: number;
+  divergente: boolean;
+}
+
+export interface TargetReconciliationSeller {
+  id: string;
+  label: string;
+  color?: string;
+  metaAnual: number;
+  somaMensal: number;
+  diferenca: number;
+  divergente: boolean;
+}
+
+export interface TargetReconciliation {
+  months: TargetReconciliationMonth[];
+  sellers: TargetReconciliationSeller[];
+  metaEmpresa: number;
+  somaVendedores: number;
+  mesesDivergentes: number;
+}
+
+// Diferenças abaixo de um centavo vêm de arredondamento e não contam como divergência.
+const TOLERANCIA = 0.01;
+
+/**
+ * Confronta as metas mensais individuais com a meta da empresa no mês e com a meta anual
+ * cadastrada para cada vendedor. Diferença positiva: os vendedores somam mais que a empresa.
+ */
+export const reconcileSellerTargets = (config: any[], metas: any[], targets: any[]): TargetReconciliation => {
+  const months = metas.map((m: any, idx: number) => {
+    const sellers: Record<string, number> = config.reduce((acc: Record<string, number>, s: any) => ({ ...acc, [s.id]: individualTarget(targets, idx, s.id) || 0 }), {});
+    const somaVendedores = config.reduce((acc: number, s: any) => acc + sellers[s.id], 0);
+    const metaEmpresa = m.meta || 0;
+    const diferenca = somaVendedores - metaEmpresa;
+    return { month: m.month, metaEmpresa, sellers, somaVendedores, diferenca, divergente: Math.abs(diferenca) >= TOLERANCIA };
+  });
+
+  const sellers = config.map((s: any) => {
+    const somaMensal = months.reduce((acc, m) => acc + (m.sellers[s.id] || 0), 0);
+    const diferenca = somaMensal - (s.meta || 0);
+    return { id: s.id, label: s.label, color: s.color, metaAnual: s.meta || 0, somaMensal, diferenca, divergente: Math.abs(diferenca) >= TOLERANCIA };
+  });
+
+  return {
+    months,
+    sellers,
+    metaEmpresa: months.reduce((acc, m) => acc + m.metaEmpresa, 0),
+    somaVendedores: months.reduce((acc, m) => acc + m.somaVendedores, 0),
+    mesesDivergentes: months.filter(m => m.divergente).length,
+  };
+};
@@ -0,0 +1,192 @@
+import { MONTHS } from '../constants';
+import { GestaoTop20Client, QuarterlyData } from './data';
+import { tryParseMoney } from '../utils/parseMoney';
+import { CostCategory } from './kpi/costCategories';
+
+export type ColumnType = 'text' | 'currency' | 'integer' | 'percent' | 'color' | 'enum' | 'year';
+
+export interface ColumnSchema {
+  key: string;
+  label: string;
+  type: ColumnType;
+  options?: string[];
+  required?: boolean;
+  min?: number;
+  max?: number;
+}
+
+export interface SheetSchema {
+  columns: ColumnSchema[];
+  // Colunas dinâmicas (projection2027, Histórico 2025, ids de vendedores...) resolvidas por padrão de nome.
+  patterns?: { match: RegExp; column: (key: string) => ColumnSchema }[];
+  // Tipo das colunas criadas pelo usuário que não aparecem no schema.
+  fallbackType?: ColumnType;
+}
+
+const TRIMESTRES: QuarterlyData['trimestre'][] = ['1º', '2º', '3º', '4º'];
+export const CLUSTERS: GestaoTop20Client['cluster'][] = ['Jundiaí', 'RMC', 'Interior Norte', 'Sorocaba / ABC'];
+
+const monthColumn = (key: string): ColumnSchema => ({ key, label: 'Mês', type: 'enum', options: MONTHS, required: true });
+
+export const SHEET_SCHEMAS = {
+  vendedoresConfig: {
+    columns: [
+      { key: 'id', label: 'ID', type: 'text', required: true },
+      { key: 'label', label: 'Nome', type: 'text', required: true },
+      { key: 'meta', label: 'Meta Anual', type: 'currency', min: 0 },
+      { key: 'color', label: 'Cor', type: 'color' },
+      { key: 'comissaoTipo', label: 'Comissão', type: 'enum', options: ['fixa', 'faixas'] },
+      { key: 'comissaoTaxa', label: 'Taxa Fixa', type: 'percent', min: 0 },
+      { key: 'comissaoFaixas', label: 'Faixas (ating.%:taxa%)', type: 'text' },
+      { key: 'acelerador', label: 'Acelerador >100%', type: 'percent', min: 0 },
+      { key: 'bonusTrimestral', label: 'Bônus Trimestral', type: 'currency', min: 0 },
+    ],
+  },
+  metas: {
+    columns: [
+      monthColumn('month'),
+      { key: 'meta', label: 'Meta', type: 'currency', min: 0 },
+      { key: 'realizado', label: 'Realizado', type: 'currency' },
+    ],
+  },
+  vendedorData: {
+    columns: [monthColumn('month')],
+    fallbackType: 'currency',
+  },
+  metasVendedores: {
+    columns: [monthColumn('month')],
+    fallbackType: 'currency',
+  },
+  // As colunas de cada categoria de custo vêm do registro (custosSchema).
+  custos: {
+    columns: [
+      monthColumn('mes'),
+      { key: 'faturamento', label: 'Faturamento', type: 'currency' },
+    ],
+    fallbackType: 'currency',
+  },
+  quarterlyHistory: {
+    columns: [
+      { key: 'ano', label: 'Ano', type: 'year', required: true },
+      { key: 'trimestre', label: 'Trimestre', type: 'enum', options: TRIMESTRES, required: true },
+      { key: 'faturamento', label: 'Faturamento', type: 'currency' },
+    ],
+  },
+  gestaoTop20: {
+    columns: [
+      { key: 'id', label: 'ID', type: 'integer', required: true },
+      { key: 'nome', label: 'Nome', type: 'text', required: true },
+      { key: 'cidade', label: 'Cidade', type: 'text' },
+      { key: 'cluster', label: 'Cluster', type: 'enum', options: CLUSTERS, required: true },
+      { key: 'relevancia', label: 'Relevância', type: 'text' },
+      { key: 'x', label: 'Posição X (Mapa)', type: 'integer', min: 0, max: 100 },
+      { key: 'y', label: 'Posição Y (Mapa)', type: 'integer', min: 0, max: 100 },
+    ],
+    patterns: [
+      { match: /^Histórico 20\d\d$/, column: (key: string): ColumnSchema => ({ key, label: key, type: 'currency' }) },
+      { match: /^projection20\d\d$/, column: (key: string): ColumnSchema => ({ key, label: `Projeção ${key.slice(10)}`, type: 'currency' }) },
+    ],
+  },
+  carteira: {
+    columns: [
+      { key: 'id', label: 'ID', type: 'text', required: true },
+      { key: 'name', label: 'Cliente', type: 'text', required: true },
+      { key: 'salesperson', label: 'Vendedor (ID)', type: 'text', required: true },
+      { key: 'billing', label: 'Faturamento', type: 'currency', min: 0 },
+      { key: 'cost', label: 'Custo de Atendimento', type: 'currency', min: 0 },
+      { key: 'salesCycleDays', label: 'Ciclo de Venda (dias)', type: 'integer', min: 0 },
+    ],
+    patterns: [
+      { match: /^Faturamento 20\d\d$/, column: (key: string): ColumnSchema => ({ key, label: key, type: 'currency' }) },
+    ],
+  },
+} satisfies Record<string, SheetSchema>;
+
+// Planilha de custos com as colunas de valor e de meta das categorias cadastradas.
+export const custosSchema = (categories: CostCategory[]): SheetSchema => ({
+  ...SHEET_SCHEMAS.custos,
+  columns: [
+    ...SHEET_SCHEMAS.custos.columns,
+    ...categories.flatMap((c): ColumnSchema[] => [
+      ...(c.metaKey ? [{ key: c.metaKey, label: `Meta ${c.label}`, type: 'currency' as const, min: 0 }] : []),
+      { key: c.key, label: c.label, type: 'currency', min: 0 },
+    ]),
+  ],
+});
+
+// Resolve o schema de uma coluna: declarado, por padrão de nome ou inferido pelo valor já gravado.
+export const resolveColumn = (schema: SheetSchema | undefined, key: string, sample?: any): ColumnSchema => {
+  const declared = schema?.columns.find(c => c.key === key);
+  if (declared) return declared;
+  const pattern = schema?.patterns?.find(p => p.match.test(key));
+  if (pattern) return pattern.column(key);
+  const type = schema?.fallbackType ?? (typeof sample === 'number' ? 'currency' : 'text');
+  return { key, label: key, type };
+};
+
+export const isNumericType = (type: ColumnType) =>
+  type === 'currency' || type === 'integer' || type === 'percent' || type === 'year';
+
+const numberFormat = (value: number, decimals: number) =>
+  new Intl.NumberFormat('pt-BR', { minimumFractionDigits: decimals, maximumFractionDigits: decimals }).format(value);
+
+export const formatCell = (column: ColumnSchema, value: any): string => {
+  if (value === undefined || value === null || value === '') return '';
+  if (typeof value !== 'number') return String(value);
+  switch (column.type) {
+    case 'currency':
+      return new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL', minimumFractionDigits: 2 }).format(value);
+    case 'percent':
+      return `${numberFormat(value, 2)}%`;
+    case 'integer':
+      return numberFormat(value, 0);
+    default:
+      return String(value);
+  }
+};
+
+// Texto usado enquanto a célula está em edição (sem "R$" e sem separador de milhar).
+export const toEditText = (column: ColumnSchema, value: any): string => {
+  if (value === undefined || value === null) return '';
+  if (typeof value === 'number' && (column.type === 'currency' || column.type === 'percent')) {
+    return value.toLocaleString('pt-BR', { useGrouping: false, maximumFractionDigits: 10 });
+  }
+  return String(value);
+};
+
+export const validateCell = (column: ColumnSchema, value: any): string | null => {
+  const empty = value === undefined || value === null || value === '';
+  if (empty) return column.required ? 'Obrigatório' : null;
+  if (isNumericType(column.type)) {
+    if (typeof value !== 'number' || !Number.isFinite(value)) return 'Valor numérico inválido';
+    if ((column.type === 'integer' || column.type === 'year') && !Number.isInteger(value)) return 'Use um número inteiro';
+    if (column.type === 'year' && (value < 2000 || value > 2100)) return 'Ano fora do intervalo 2000–2100';
+    if (column.min !== undefined && value < column.min) return `Mínimo ${formatCell(column, column.min)}`;
+    if (column.max !== undefined && value > column.max) return `Máximo ${formatCell(column, column.max)}`;
+  }
+  if (column.type === 'enum' && column.options && !column.options.includes(String(value))) {
+    return `Use: ${column.options.join(', ')}`;
+  }
+  if (column.type === 'color' && !/^#[0-9a-f]{6}$/i.test(String(value))) return 'Cor no formato #RRGGBB';
+  return null;
+};
+
+// Converte o texto digitado para o valor armazenado. Em caso de erro, `value` fica indefinido.
+export const parseCell = (column: ColumnSchema, input: string): { value?: any; error: string | null } => {
+  const text = input.trim();
+  if (text === '') {
+    const value = isNumericType(column.type) ? 0 : '';
+    return { value, error: column.required && !isNumericType(column.type) ? 'Obrigatório' : null };
+  }
+  let value: any = text;
+  if (isNumericType(column.type)) {
+    const num = tryParseMoney(text.replace('%', ''));
+    if (num === null) return { error: 'Valor numérico inválido' };
+    value = num;
+  }
+  const error = validateCell(column, value);
+  return error ? { error } : { value, error: null };
+};
+
+export const defaultValue = (column: ColumnSchema): any =>
+  isNumericType(column.type) ? 0 : column.type === 'color' ? '#6b7280' : '';
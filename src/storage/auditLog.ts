@@ -0,0 +1,133 @@
+import { ROW_KEY, SETTINGS_FIELDS, WorkspaceField } from './backup';
+import { YEAR_KEYED_FIELDS } from '../yearlyData';
+
+// Uma célula alterada. `row` é a chave legível da linha (mês, id, ano-trimestre) e
+// `rowIndex` a posição no momento da edição, usada para localizar a linha ao reverter.
+export interface AuditEntry {
+  id: string;
+  timestamp: string;
+  user: string;
+  action: string;
+  dataset: WorkspaceField;
+  year?: string;
+  rowIndex: number;
+  row: string;
+  month?: string;
+  column: string;
+  oldValue: any;
+  newValue: any;
+  revertedAt?: string;
+  revertedBy?: string;
+}
+
+export type AuditChange = Pick<AuditEntry, 'dataset' | 'year' | 'rowIndex' | 'row' | 'month' | 'column' | 'oldValue' | 'newValue'>;
+
+// Mantém o log em um tamanho que o armazenamento do navegador suporta com folga.
+export const AUDIT_LOG_LIMIT = 5000;
+
+const isYearKeyed = (field: WorkspaceField) => (YEAR_KEYED_FIELDS as WorkspaceField[]).includes(field);
+
+// Parâmetros são uma linha só, com uma coluna por parâmetro.
+const sheetsOf = (field: WorkspaceField, data: any): [string | undefined, any[]][] => {
+  if (SETTINGS_FIELDS.includes(field)) return [[undefined, data ? [data] : []]];
+  if (isYearKeyed(field)) return Object.entries<any[]>(data || {}).map(([year, rows]) => [year, rows || []]);
+  return [[undefined, (field === 'gestaoTop20' ? data?.clientes : data) || []]];
+};
+
+// Objetos aninhados (history do Top 20) viram colunas "history.2024".
+const flattenRow = (row: any): Record<string, any> =>
+  Object.entries(row || {}).reduce((acc, [k, v]) => (
+    v && typeof v === 'object' && !Array.isArray(v)
+      ? { ...acc, ...Object.fromEntries(Object.entries(v).map(([sub, subV]) => [`${k}.${sub}`, subV])) }
+      : { ...acc, [k]: v }
+  ), {} as Record<string, any>);
+
+const sameValue = (a: any, b: any) => a === b || JSON.stringify(a) === JSON.stringify(b);
+
+// Pareia linhas pela chave (mês, id...) quando ela é única; senão, pela posição.
+const pairRows = (field: WorkspaceField, before: any[], after: any[]): [number, any, any][] => {
+  const keyOf = ROW_KEY[field];
+  const unique = (rows: any[]) => new Set(rows.map(keyOf)).size === rows.length;
+  if (!unique(before) || !unique(after)) {
+    return Array.from({ length: Math.max(before.length, after.length) }, (_, i) => [i, before[i], after[i]]);
+  }
+  const beforeByKey = new Map(before.map(r => [keyOf(r), r]));
+  const afterKeys = new Set(after.map(keyOf));
+  return [
+    ...after.map((r, i): [number, any, any] => [i, beforeByKey.get(keyOf(r)), r]),
+    ...before.map((r, i): [number, any, any] => [i, r, undefined]).filter(([, r]) => !afterKeys.has(keyOf(r))),
+  ];
+};
+
+/** Lista as células que mudaram entre duas versões de um dataset do workspace. */
+export const diffCells = (field: WorkspaceField, before: any, after: any): AuditChange[] => {
+  const beforeSheets = new Map(sheetsOf(field, before));
+  const afterSheets = new Map(sheetsOf(field, after));
+  const years = Array.from(new Set([...beforeSheets.keys(), ...afterSheets.keys()]));
+
+  return years.flatMap(year =>
+    pairRows(field, beforeSheets.get(year) || [], afterSheets.get(year) || []).flatMap(([rowIndex, oldRow, newRow]) => {
+      const ref = newRow ?? oldRow;
+      const oldCells = flattenRow(oldRow);
+      const newCells = flattenRow(newRow);
+      return Array.from(new Set([...Object.keys(oldCells), ...Object.keys(newCells)]))
+        .filter(column => !sameValue(oldCells[column], newCells[column]))
+        .map(column => ({
+          dataset: field,
+          year,
+          rowIndex,
+          row: ROW_KEY[field](ref),
+          month: ref.month ?? ref.mes,
+          column,
+          oldValue: oldCells[column],
+          newValue: newCells[column],
+        }));
+    })
+  );
+};
+
+const locateRow = (field: WorkspaceField, rows: any[], entry: AuditEntry): number => {
+  const keyOf = ROW_KEY[field];
+  if (rows[entry.rowIndex] && keyOf(rows[entry.rowIndex]) === entry.row) return entry.rowIndex;
+  const matches = rows.map((r, i) => (keyOf(r) === entry.row ? i : -1)).filter(i => i >= 0);
+  return matches.length === 1 ? matches[0] : -1;
+};
+
+const readCell = (row: any, column: string) => {
+  const [head, sub] = column.split('.');
+  return sub !== undefined && row[head] && typeof row[head] === 'object' ? row[head][sub] : row[column];
+};
+
+const writeCell = (row: any, column: string, value: any) => {
+  const [head, sub] = column.split('.');
+  if (sub !== undefined && row[head] && typeof row[head] === 'object') {
+    const nested = { ...row[head] };
+    if (value === undefined) delete nested[sub];
+    else nested[sub] = value;
+    return { ...row, [head]: nested };
+  }
+  const copy = { ...row };
+  if (value === undefined) delete copy[column];
+  else copy[column] = value;
+  return copy;
+};
+
+/**
+ * Devolve o dataset com a célula da entrada de volta ao valor anterior. Falha quando a
+ * linha não existe mais ou quando a célula foi alterada de novo depois dessa mudança.
+ */
+export const revertCell = (field: WorkspaceField, data: any, entry: AuditEntry): { data?: any; error?: string } => {
+  const rows: any[] = SETTINGS_FIELDS.includes(field) ? [data] : isYearKeyed(field) ? data?.[entry.year || ''] : field === 'gestaoTop20' ? data?.clientes : data;
+  if (!Array.isArray(rows)) return { error: 'O dataset desta alteração não existe mais.' };
+  const index = locateRow(field, rows, entry);
+  if (index < 0) return { error: `A linha "${entry.row}" não existe mais.` };
+  const current = readCell(rows[index], entry.column);
+  if (!sameValue(current, entry.newValue)) {
+    return { error: `A célula foi alterada depois desta mudança (valor atual: ${current === undefined ? 'vazio' : JSON.stringify(current)}).` };
+  }
+  const nextRows = rows.map((r, i) => (i === index ? writeCell(r, entry.column, entry.oldValue) : r));
+  if (SETTINGS_FIELDS.includes(field)) return { data: nextRows[0] };
+  if (isYearKeyed(field)) return { data: { ...data, [entry.year as string]: nextRows } };
+  if (field === 'gestaoTop20') return { data: { ...data, clientes: nextRows } };
+  return { data: nextRows };
+};
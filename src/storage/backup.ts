@@ -0,0 +1,321 @@
+import { Client, GestaoTop20Client, QuarterlyData } from '../data';
+import { COST_CATEGORY_TYPES, CostCategory, syncCostColumns } from '../kpi/costCategories';
+import { PERIOD_STATUSES, PeriodRow, lockedMonths } from '../kpi/periods';
+import { DatasetKey, getSchemaVersion, migrateDataset } from './migrations';
+import { YEAR_KEYED_FIELDS, YearKeyed } from '../yearlyData';
+
+export type WorkspaceField = 'metas' | 'vendedoresConfig' | 'vendedorData' | 'metasVendedores' | 'custos' | 'categoriasCusto' | 'periodos' | 'quarterlyHistory' | 'gestaoTop20' | 'carteira' | 'statusThresholds' | 'abcXyz';
+
+export const WORKSPACE_FIELDS: Record<WorkspaceField, DatasetKey> = {
+  metas: 'skg-metas',
+  vendedoresConfig: 'skg-vendedores-config',
+  vendedorData: 'skg-vendedores',
+  metasVendedores: 'skg-metas-vendedores',
+  custos: 'skg-custos',
+  categoriasCusto: 'skg-categorias-custo',
+  periodos: 'skg-periodos',
+  quarterlyHistory: 'skg-quarterly',
+  gestaoTop20: 'skg-gestao-top20',
+  carteira: 'skg-carteira',
+  statusThresholds: 'skg-status-thresholds',
+  abcXyz: 'skg-abc-xyz',
+};
+
+export const WORKSPACE_LABELS: Record<WorkspaceField, string> = {
+  metas: 'Metas Mensais',
+  vendedoresConfig: 'Configuração de Vendedores',
+  vendedorData: 'Lançamentos de Vendedores',
+  metasVendedores: 'Metas Mensais por Vendedor',
+  custos: 'Custos e Logística',
+  categoriasCusto: 'Categorias de Custo',
+  periodos: 'Fechamento de Períodos',
+  quarterlyHistory: 'Histórico Trimestral',
+  gestaoTop20: 'Gestão Top 20',
+  carteira: 'Carteira de Clientes',
+  statusThresholds: 'Limites de Status',
+  abcXyz: 'Classificação ABC/XYZ',
+};
+
+// Parâmetros (um objeto nome → número) que acompanham as planilhas para os indicadores baterem com o painel.
+export const SETTINGS_FIELDS: WorkspaceField[] = ['statusThresholds', 'abcXyz'];
+
+export type Workspace = Record<WorkspaceField, any>;
+
+export interface WorkspaceBackupFile {
+  app: 'skg-dashboard';
+  formatVersion: 1;
+  exportedAt: string;
+  schemaVersions: Record<WorkspaceField, number>;
+  data: Workspace;
+}
+
+const FIELDS = Object.keys(WORKSPACE_FIELDS) as WorkspaceField[];
+const TRIMESTRES: QuarterlyData['trimestre'][] = ['1º', '2º', '3º', '4º'];
+const CLUSTERS: GestaoTop20Client['cluster'][] = ['Jundiaí', 'RMC', 'Interior Norte', 'Sorocaba / ABC'];
+
+export const createBackup = (workspace: Workspace): WorkspaceBackupFile => ({
+  app: 'skg-dashboard',
+  formatVersion: 1,
+  exportedAt: new Date().toISOString(),
+  schemaVersions: FIELDS.reduce((acc, f) => ({ ...acc, [f]: getSchemaVersion(WORKSPACE_FIELDS[f]) }), {} as Record<WorkspaceField, number>),
+  data: workspace,
+});
+
+export const downloadBackup = (workspace: Workspace) => {
+  const blob = new Blob([JSON.stringify(createBackup(workspace), null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `skg-workspace-${new Date().toISOString().slice(0, 10)}.json`;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+// --- Validação estrutural ---
+
+const isNum = (v: any) => typeof v === 'number' && Number.isFinite(v);
+const isStr = (v: any) => typeof v === 'string';
+// Linhas novas do DataGrid nascem com células vazias ('') até serem preenchidas.
+const isAmount = (v: any) => isNum(v) || v === '';
+const isCell = (v: any) => isNum(v) || isStr(v) || v === null;
+// Colunas de texto do DataGrid (ano, id) guardam o que foi digitado como string.
+const isNumeric = (v: any) => isNum(v) || (isStr(v) && v.trim() !== '' && Number.isFinite(Number(v)));
+
+const validateRows = (field: WorkspaceField, rows: any, check: (row: any, i: number) => string[], year?: string): string[] => {
+  const label = year ? `${WORKSPACE_LABELS[field]} ${year}` : WORKSPACE_LABELS[field];
+  if (!Array.isArray(rows)) return [`${label}: esperado uma lista de linhas.`];
+  return rows.flatMap((row, i) =>
+    row && typeof row === 'object'
+      ? check(row, i).map(msg => `${label}, linha ${i + 1}: ${msg}`)
+      : [`${label}, linha ${i + 1}: linha inválida.`]
+  );
+};
+
+const isYearKeyed = (field: WorkspaceField) => (YEAR_KEYED_FIELDS as WorkspaceField[]).includes(field);
+
+// Datasets mensais são gravados como { '2026': [...], '2027': [...] }.
+const validateYears = (field: WorkspaceField, data: any, check: (row: any, i: number) => string[]): string[] => {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) return [`${WORKSPACE_LABELS[field]}: esperado um objeto ano → linhas.`];
+  return Object.entries(data).flatMap(([year, rows]) =>
+    /^\d{4}$/.test(year) ? validateRows(field, rows, check, year) : [`${WORKSPACE_LABELS[field]}: ano "${year}" inválido.`]
+  );
+};
+
+// Colunas extras criadas pelo usuário ("+ Coluna") podem guardar números ou textos simples.
+const extraColumns = (row: any, skip: string[]) =>
+  Object.entries(row).filter(([k, v]) => !skip.includes(k) && !isCell(v)).map(([k]) => `"${k}" deve ser número ou texto.`);
+
+const validateSettings = (field: WorkspaceField, data: any): string[] => {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) return [`${WORKSPACE_LABELS[field]}: esperado um objeto de parâmetros.`];
+  return Object.entries(data).filter(([, v]) => !isNum(v)).map(([k]) => `${WORKSPACE_LABELS[field]}: "${k}" deve ser numérico.`);
+};
+
+const VALIDATORS: Record<WorkspaceField, (data: any) => string[]> = {
+  metas: data => validateYears('metas', data, row => [
+    ...(isStr(row.month) ? [] : ['"month" ausente.']),
+    ...(isAmount(row.meta) ? [] : ['"meta" deve ser numérico.']),
+    ...(row.realizado === undefined || isAmount(row.realizado) ? [] : ['"realizado" deve ser numérico.']),
+    ...extraColumns(row, ['month', 'meta', 'realizado']),
+  ]),
+  vendedoresConfig: data => validateYears('vendedoresConfig', data, row => [
+    ...(isStr(row.id) && row.id ? [] : ['"id" ausente.']),
+    ...(isStr(row.label) ? [] : ['"label" ausente.']),
+    ...(isAmount(row.meta) ? [] : ['"meta" deve ser numérico.']),
+    ...extraColumns(row, ['id', 'label', 'meta']),
+  ]),
+  vendedorData: data => validateYears('vendedorData', data, row => [
+    ...(isStr(row.month) ? [] : ['"month" ausente.']),
+    ...extraColumns(row, ['month']),
+  ]),
+  metasVendedores: data => validateYears('metasVendedores', data, row => [
+    ...(isStr(row.month) ? [] : ['"month" ausente.']),
+    ...extraColumns(row, ['month']),
+  ]),
+  custos: data => validateYears('custos', data, row => [
+    ...(isStr(row.mes) ? [] : ['"mes" ausente.']),
+    ...extraColumns(row, ['mes']),
+  ]),
+  categoriasCusto: data => validateRows('categoriasCusto', data, (c: CostCategory) => [
+    ...(isStr(c.key) && c.key ? [] : ['"key" ausente.']),
+    ...(isStr(c.label) && c.label ? [] : ['"label" ausente.']),
+    ...(COST_CATEGORY_TYPES.includes(c.tipo) ? [] : [`"tipo" deve ser um de ${COST_CATEGORY_TYPES.join(', ')}.`]),
+    ...(isStr(c.metaKey) ? [] : ['"metaKey" deve ser texto (vazio quando não há meta).']),
+  ]),
+  periodos: data => validateYears('periodos', data, row => [
+    ...(isStr(row.month) ? [] : ['"month" ausente.']),
+    ...(PERIOD_STATUSES.includes(row.status) ? [] : [`"status" deve ser um de ${PERIOD_STATUSES.join(', ')}.`]),
+    ...(['atualizadoEm', 'motivo'] as const).filter(k => !isStr(row[k])).map(k => `"${k}" deve ser texto.`),
+  ]),
+  quarterlyHistory: data => validateRows('quarterlyHistory', data, (row: QuarterlyData) => [
+    ...(isNumeric(row.ano) ? [] : ['"ano" deve ser numérico.']),
+    ...(TRIMESTRES.includes(row.trimestre) ? [] : [`"trimestre" deve ser um de ${TRIMESTRES.join(', ')}.`]),
+    ...(isAmount(row.faturamento) ? [] : ['"faturamento" deve ser numérico.']),
+  ]),
+  gestaoTop20: data => {
+    if (!data || typeof data !== 'object' || Array.isArray(data)) return ['Gestão Top 20: estrutura inválida.'];
+    const errors: string[] = [];
+    if (!data.indicadores || typeof data.indicadores !== 'object') {
+      errors.push('Gestão Top 20: "indicadores" ausente.');
+    } else {
+      errors.push(...Object.entries(data.indicadores).filter(([, v]) => !isNum(v)).map(([k]) => `Gestão Top 20, indicadores: "${k}" deve ser numérico.`));
+    }
+    errors.push(...validateRows('gestaoTop20', data.clientes, (c: GestaoTop20Client) => [
+      ...(isNumeric(c.id) ? [] : ['"id" deve ser numérico.']),
+      ...(isStr(c.nome) && c.nome ? [] : ['"nome" ausente.']),
+      ...(isStr(c.cidade) ? [] : ['"cidade" ausente.']),
+      ...(CLUSTERS.includes(c.cluster) ? [] : [`"cluster" deve ser um de ${CLUSTERS.join(', ')}.`]),
+      ...(c.history && typeof c.history === 'object' && Object.values(c.history).every(isAmount) ? [] : ['"history" deve mapear ano → valor numérico.']),
+      ...(['projection2026', 'projection2027', 'projection2028'] as const).filter(k => !isAmount(c[k])).map(k => `"${k}" deve ser numérico.`),
+      ...(isStr(c.relevancia) ? [] : ['"relevancia" ausente.']),
+      ...(['x', 'y'] as const).filter(k => c[k] !== undefined && !isAmount(c[k])).map(k => `"${k}" deve ser numérico.`),
+    ]));
+    return errors;
+  },
+  carteira: data => validateRows('carteira', data, (c: Client) => [
+    ...(isStr(c.id) && c.id ? [] : ['"id" ausente.']),
+    ...(isStr(c.name) && c.name ? [] : ['"name" ausente.']),
+    ...(isStr(c.salesperson) ? [] : ['"salesperson" ausente.']),
+    ...(['billing', 'cost', 'salesCycleDays'] as const).filter(k => !isAmount(c[k])).map(k => `"${k}" deve ser numérico.`),
+    ...(c.yearlyBilling && typeof c.yearlyBilling === 'object' && Object.values(c.yearlyBilling).every(isAmount) ? [] : ['"yearlyBilling" deve mapear ano → valor numérico.']),
+  ]),
+  statusThresholds: data => validateSettings('statusThresholds', data),
+  abcXyz: data => validateSettings('abcXyz', data),
+};
+
+// Validação de um dataset recebido por outro caminho (sincronização); só os do workspace têm estrutura conferida.
+export const validateDataset = (key: DatasetKey, data: any): string[] => {
+  const field = FIELDS.find(f => WORKSPACE_FIELDS[f] === key);
+  return field ? VALIDATORS[field](data) : [];
+};
+
+export interface ParsedBackup {
+  workspace: Partial<Workspace>;
+  errors: string[];
+  exportedAt?: string;
+}
+
+// Lê o arquivo de backup, aplica as migrações de schema pendentes e valida cada dataset.
+export const parseBackup = (text: string): ParsedBackup => {
+  let file: any;
+  try {
+    file = JSON.parse(text);
+  } catch (e) {
+    return { workspace: {}, errors: ['Arquivo não é um JSON válido.'] };
+  }
+  if (!file || file.app !== 'skg-dashboard' || !file.data || typeof file.data !== 'object') {
+    return { workspace: {}, errors: ['Arquivo não é um backup do painel SK-G.'] };
+  }
+
+  const workspace: Partial<Workspace> = {};
+  const errors: string[] = [];
+  FIELDS.forEach(field => {
+    if (!(field in file.data)) return;
+    try {
+      const migrated = migrateDataset(WORKSPACE_FIELDS[field], {
+        schemaVersion: file.schemaVersions?.[field] ?? 0,
+        data: file.data[field],
+      });
+      const fieldErrors = VALIDATORS[field](migrated.data);
+      if (fieldErrors.length > 0) errors.push(...fieldErrors);
+      else workspace[field] = migrated.data;
+    } catch (e: any) {
+      errors.push(`${WORKSPACE_LABELS[field]}: ${e?.message || e}`);
+    }
+  });
+  if (Object.keys(workspace).length === 0 && errors.length === 0) errors.push('O backup não contém nenhum dataset.');
+  return { workspace, errors, exportedAt: file.exportedAt };
+};
+
+// --- Diferenças e mesclagem ---
+
+export const ROW_KEY: Record<WorkspaceField, (row: any) => string> = {
+  metas: r => String(r.month),
+  vendedoresConfig: r => String(r.id),
+  vendedorData: r => String(r.month),
+  metasVendedores: r => String(r.month),
+  custos: r => String(r.mes),
+  categoriasCusto: r => String(r.key),
+  periodos: r => String(r.month),
+  quarterlyHistory: r => `${r.ano}-${r.trimestre}`,
+  gestaoTop20: r => String(r.id),
+  carteira: r => String(r.id),
+  statusThresholds: () => 'Parâmetros',
+  abcXyz: () => 'Parâmetros',
+};
+
+// Pares [chave, linha] de um dataset; nos datasets por ano a chave leva o ano ("2027 Mar") e nos
+// parâmetros cada parâmetro conta como uma linha.
+const keyedRows = (field: WorkspaceField, data: any): [string, any][] => {
+  const keyOf = ROW_KEY[field];
+  if (SETTINGS_FIELDS.includes(field)) return Object.entries(data || {});
+  if (isYearKeyed(field)) {
+    return Object.entries((data as YearKeyed) || {}).flatMap(([year, rows]) => (rows || []).map(r => [`${year} ${keyOf(r)}`, r] as [string, any]));
+  }
+  return ((field === 'gestaoTop20' ? data?.clientes : data) || []).map((r: any) => [keyOf(r), r] as [string, any]);
+};
+
+export interface DatasetDiff {
+  field: WorkspaceField;
+  added: string[];
+  removed: string[];
+  changed: string[];
+  unchanged: number;
+}
+
+export const diffWorkspace = (current: Workspace, incoming: Partial<Workspace>): DatasetDiff[] =>
+  (Object.keys(incoming) as WorkspaceField[]).map(field => {
+    const before = new Map(keyedRows(field, current[field]));
+    const after = new Map(keyedRows(field, incoming[field]));
+    const diff: DatasetDiff = { field, added: [], removed: [], changed: [], unchanged: 0 };
+    after.forEach((row, key) => {
+      if (!before.has(key)) diff.added.push(key);
+      else if (JSON.stringify(before.get(key)) !== JSON.stringify(row)) diff.changed.push(key);
+      else diff.unchanged++;
+    });
+    before.forEach((_, key) => { if (!after.has(key)) diff.removed.push(key); });
+    return diff;
+  });
+
+const mergeRows = (field: WorkspaceField, current: any[], incoming: any[]) => {
+  const keyOf = ROW_KEY[field];
+  const incomingByKey = new Map(incoming.map(r => [keyOf(r), r]));
+  const merged = current.map(r => incomingByKey.has(keyOf(r)) ? { ...r, ...incomingByKey.get(keyOf(r)) } : r);
+  const existing = new Set(current.map(keyOf));
+  return [...merged, ...incoming.filter(r => !existing.has(keyOf(r)))];
+};
+
+// Mesclar: linhas do backup sobrescrevem as de mesma chave, as novas são acrescentadas e as locais são mantidas.
+// Com um novo registro de categorias, as colunas de custos o acompanham como em uma edição no
+// painel; linhas de meses bloqueados ficam como estão.
+const withCostColumns = (current: Workspace, next: Workspace, incoming: Partial<Workspace>): Workspace => {
+  if (!incoming.categoriasCusto) return next;
+  const locked = Object.fromEntries(Object.entries((current.periodos as YearKeyed<PeriodRow>) || {}).map(([year, rows]) => [year, lockedMonths(rows)]));
+  return { ...next, custos: syncCostColumns(next.custos || {}, current.categoriasCusto || [], next.categoriasCusto, locked) };
+};
+
+export const mergeWorkspace = (current: Workspace, incoming: Partial<Workspace>): Workspace => {
+  const next = { ...current };
+  (Object.keys(incoming) as WorkspaceField[]).forEach(field => {
+    if (field === 'gestaoTop20') {
+      next.gestaoTop20 = {
+        ...current.gestaoTop20,
+        ...incoming.gestaoTop20,
+        indicadores: { ...current.gestaoTop20?.indicadores, ...incoming.gestaoTop20.indicadores },
+        clientes: mergeRows(field, current.gestaoTop20?.clientes || [], incoming.gestaoTop20.clientes),
+      };
+    } else if (SETTINGS_FIELDS.includes(field)) {
+      next[field] = { ...current[field], ...incoming[field] };
+    } else if (isYearKeyed(field)) {
+      next[field] = Object.entries(incoming[field] as Record<string, any[]>).reduce(
+        (acc, [year, rows]) => ({ ...acc, [year]: mergeRows(field, current[field]?.[year] || [], rows) }),
+        { ...current[field] }
+      );
+    } else {
+      next[field] = mergeRows(field, current[field] || [], incoming[field]);
+    }
+  });
+  return withCostColumns(current, next, incoming);
+};
+
+export const replaceWorkspace = (current: Workspace, incoming: Partial<Workspace>): Workspace =>
+  withCostColumns(current, { ...current, ...incoming }, incoming);
@@ -0,0 +1,165 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { initialCustosEficiencia, initialGestaoTop20, metaMensal } from '../data';
+import { MIGRATIONS, Migration, getSchemaVersion, migrateDataset, toEnvelope } from './migrations';
+
+const step = (dataset: Migration['dataset'], version: number) => {
+  const migration = MIGRATIONS.find(m => m.dataset === dataset && m.version === version);
+  assert.ok(migration, `migração ${dataset} v${version} não registrada`);
+  return migration.up;
+};
+
+describe('MIGRATIONS', () => {
+  it('cada dataset tem versões em sequência a partir de 1', () => {
+    const byDataset = new Map<string, number[]>();
+    MIGRATIONS.forEach(m => byDataset.set(m.dataset, [...(byDataset.get(m.dataset) || []), m.version]));
+    byDataset.forEach((versions, dataset) => {
+      assert.deepEqual([...versions].sort((a, b) => a - b), versions.map((_, i) => i + 1), dataset);
+    });
+  });
+
+  describe('skg-metas v1', () => {
+    const up = step('skg-metas', 1);
+
+    it('mantém metas digitadas pelo usuário, mesmo com total diferente de 2.180.000', () => {
+      const prev = [{ month: 'Jan', meta: 100000, r2026: 90000 }, { month: 'Fev', meta: 120000.5, r2026: 0 }];
+      assert.deepEqual(up(prev), prev);
+    });
+
+    it('completa só as metas vazias com a meta de 2026', () => {
+      const prev = [{ month: 'Jan', meta: '', r2026: 1 }, { month: 'Fev', meta: 5, r2026: 2 }];
+      assert.deepEqual(up(prev), [{ month: 'Jan', meta: metaMensal[0].meta, r2026: 1 }, { month: 'Fev', meta: 5, r2026: 2 }]);
+    });
+  });
+
+  it('skg-vendedores-config v1 renomeia V3 para SKG', () => {
+    const up = step('skg-vendedores-config', 1);
+    assert.deepEqual(
+      up([{ id: 'V1', label: 'Ana', meta: 10 }, { id: 'V3', label: 'Antigo', meta: 20 }]),
+      [{ id: 'V1', label: 'Ana', meta: 10 }, { id: 'SKG', label: 'SK-G', meta: 20 }]
+    );
+  });
+
+  it('skg-vendedores v1 move a coluna V3 para SKG', () => {
+    const up = step('skg-vendedores', 1);
+    assert.deepEqual(up([{ month: 'Jan', V1: 1, V3: 7 }, { month: 'Fev', V1: 2 }]), [{ month: 'Jan', V1: 1, SKG: 7 }, { month: 'Fev', V1: 2 }]);
+  });
+
+  describe('skg-custos v1', () => {
+    const up = step('skg-custos', 1);
+
+    it('lista vazia recebe os custos iniciais', () => {
+      assert.equal(up([]), initialCustosEficiencia);
+    });
+
+    it('renomeia materiaPrima, remove eficiencia e completa as colunas novas', () => {
+      assert.deepEqual(up([{ mes: 'Jan', materiaPrima: 300, eficiencia: 0.9, correios: 10 }]), [{
+        mes: 'Jan',
+        Camozzi: 300,
+        correios: 10,
+        'Outros Fornecedores': initialCustosEficiencia[0]['Outros Fornecedores'] ?? 0,
+        metaCamozzi: initialCustosEficiencia[0].metaCamozzi ?? 0,
+      }]);
+    });
+
+    it('não sobrescreve Camozzi já lançado', () => {
+      const [row] = up([{ mes: 'Jan', materiaPrima: 1, Camozzi: 2, 'Outros Fornecedores': 3, metaCamozzi: 4 }]);
+      assert.deepEqual(row, { mes: 'Jan', Camozzi: 2, 'Outros Fornecedores': 3, metaCamozzi: 4 });
+    });
+  });
+
+  describe('skg-gestao-top20 v1', () => {
+    const up = step('skg-gestao-top20', 1);
+
+    it('mantém bases com histórico por cliente', () => {
+      const prev = { indicadores: { meta: 1 }, clientes: [{ id: 1, nome: 'A', history: { 2025: 10 } }] };
+      assert.deepEqual(up(prev), prev);
+    });
+
+    it('mantém os clientes das bases antigas sem histórico, com histórico vazio', () => {
+      const prev = { indicadores: { meta: 1 }, clientes: [{ id: 1, nome: 'A', projection2026: 50 }, { id: 2, nome: 'B', history: { 2025: 7 } }] };
+      assert.deepEqual(up(prev), {
+        indicadores: { meta: 1 },
+        clientes: [{ id: 1, nome: 'A', projection2026: 50, history: {} }, { id: 2, nome: 'B', history: { 2025: 7 } }],
+      });
+    });
+
+    it('aceita a lista de clientes sem indicadores', () => {
+      assert.deepEqual(up([{ id: 1, nome: 'A' }]), { indicadores: initialGestaoTop20.indicadores, clientes: [{ id: 1, nome: 'A', history: {} }] });
+    });
+
+    it('falha, sem trocar pela base inicial, quando não há lista de clientes', () => {
+      assert.throws(() => up(null), /formato desconhecido/);
+      assert.throws(() => up({ indicadores: {} }), /formato desconhecido/);
+      assert.throws(() => up({ clientes: ['A'] }), /formato desconhecido/);
+    });
+  });
+
+  it('skg-quarterly v1 converte anos digitados como texto', () => {
+    const up = step('skg-quarterly', 1);
+    assert.deepEqual(
+      up([{ ano: '2024', trimestre: '1º', faturamento: 1 }, { ano: 2025, trimestre: '2º', faturamento: 2 }, { ano: 'x', trimestre: '3º', faturamento: 3 }]),
+      [{ ano: 2024, trimestre: '1º', faturamento: 1 }, { ano: 2025, trimestre: '2º', faturamento: 2 }, { ano: 'x', trimestre: '3º', faturamento: 3 }]
+    );
+  });
+
+  it('skg-gestao-top20 v2 converte ids digitados como texto', () => {
+    const up = step('skg-gestao-top20', 2);
+    assert.deepEqual(
+      up({ indicadores: { meta: 1 }, clientes: [{ id: '12', nome: 'A' }, { id: 3, nome: 'B' }, { id: '', nome: 'C' }] }),
+      { indicadores: { meta: 1 }, clientes: [{ id: 12, nome: 'A' }, { id: 3, nome: 'B' }, { id: '', nome: 'C' }] }
+    );
+  });
+
+  describe('skg-metas v2', () => {
+    const up = step('skg-metas', 2);
+
+    it('separa as colunas de realizado por ano', () => {
+      const prev = [
+        { month: 'Jan', meta: 100, r2026: 90, r2027: 40, r2028: 0, obs: 'x' },
+        { month: 'Fev', meta: 200, r2026: 0, r2027: 0, r2028: 0 },
+      ];
+      assert.deepEqual(up(prev), {
+        '2026': [{ month: 'Jan', meta: 100, obs: 'x', realizado: 90 }, { month: 'Fev', meta: 200, realizado: 0 }],
+        '2027': [{ month: 'Jan', meta: 100, realizado: 40 }, { month: 'Fev', meta: 200, realizado: 0 }],
+      });
+    });
+
+    it('sempre cria 2026 e ignora dados já agrupados por ano', () => {
+      assert.deepEqual(up([{ month: 'Jan', meta: 1 }]), { '2026': [{ month: 'Jan', meta: 1, realizado: 0 }] });
+      const byYear = { '2026': [{ month: 'Jan', meta: 1, realizado: 0 }] };
+      assert.equal(up(byYear), byYear);
+    });
+  });
+
+  (['skg-vendedores-config', 'skg-vendedores', 'skg-custos'] as const).forEach(dataset => {
+    it(`${dataset} v2 agrupa a lista antiga em 2026`, () => {
+      const up = step(dataset, 2);
+      const rows = [{ mes: 'Jan', month: 'Jan', id: 'V1' }];
+      assert.deepEqual(up(rows), { '2026': rows });
+      const byYear = { '2027': rows };
+      assert.equal(up(byYear), byYear);
+    });
+  });
+});
+
+describe('migrateDataset', () => {
+  it('leva JSON cru (versão 0) até a versão atual', () => {
+    const migrated = migrateDataset('skg-vendedores', toEnvelope([{ month: 'Jan', V3: 5 }]));
+    assert.deepEqual(migrated, { schemaVersion: getSchemaVersion('skg-vendedores'), data: { '2026': [{ month: 'Jan', SKG: 5 }] } });
+  });
+
+  it('aplica só as migrações posteriores à versão gravada', () => {
+    const stored = { schemaVersion: 1, data: [{ month: 'Jan', meta: 7, r2026: 3 }] };
+    assert.deepEqual(migrateDataset('skg-metas', stored), { schemaVersion: 2, data: { '2026': [{ month: 'Jan', meta: 7, realizado: 3 }] } });
+  });
+
+  it('recusa versões mais novas que a suportada', () => {
+    assert.throws(() => migrateDataset('skg-metas', { schemaVersion: getSchemaVersion('skg-metas') + 1, data: {} }), /mais nova que a suportada/);
+  });
+
+  it('datasets sem migrações ficam como estão', () => {
+    const stored = { schemaVersion: 0, data: { limiteA: 60 } };
+    assert.deepEqual(migrateDataset('skg-abc-xyz', stored), stored);
+  });
+});
@@ -0,0 +1,201 @@
+import { metaMensal, initialCustosEficiencia, initialGestaoTop20 } from '../data';
+
+// Chaves persistidas no navegador. Cada uma guarda um envelope versionado ({ schemaVersion, data }).
+export type DatasetKey =
+  | 'skg-metas'
+  | 'skg-vendedores'
+  | 'skg-custos'
+  | 'skg-categorias-custo'
+  | 'skg-periodos'
+  | 'skg-quarterly'
+  | 'skg-gestao-top20'
+  | 'skg-carteira'
+  | 'skg-vendedores-config'
+  | 'skg-metas-vendedores'
+  | 'skg-audit-log'
+  | 'skg-status-thresholds'
+  | 'skg-abc-xyz'
+  | 'skg-logistica'
+  | 'skg-alocacao-custos'
+  | 'skg-scenarios'
+  | 'skg-catch-up';
+
+export const DATASET_KEYS: DatasetKey[] = [
+  'skg-metas',
+  'skg-vendedores-config',
+  'skg-vendedores',
+  'skg-quarterly',
+  'skg-custos',
+  'skg-categorias-custo',
+  'skg-periodos',
+  'skg-metas-vendedores',
+  'skg-gestao-top20',
+  'skg-carteira',
+  'skg-audit-log',
+  'skg-status-thresholds',
+  'skg-scenarios',
+  'skg-catch-up',
+  'skg-abc-xyz',
+  'skg-logistica',
+  'skg-alocacao-custos',
+];
+
+export interface StoredDataset<T = any> {
+  schemaVersion: number;
+  data: T;
+}
+
+export interface Migration {
+  dataset: DatasetKey;
+  version: number; // versão resultante após aplicar `up`
+  description: string;
+  up: (data: any) => any;
+}
+
+const REALIZADO_COLUMN = /^r20\d\d$/;
+
+// Registro ordenado de migrações. Nunca edite uma migração já publicada:
+// adicione uma nova entrada com a próxima versão do dataset.
+export const MIGRATIONS: Migration[] = [
+  {
+    dataset: 'skg-metas',
+    version: 1,
+    // Alinhava a coluna meta ao total anual de 2.180.000 sempre que a soma diferia, o que apagava
+    // metas digitadas pelo usuário; agora só completa as metas que estão vazias.
+    description: 'Completa as metas mensais vazias com a meta de 2026 (preserva as metas e os realizados lançados)',
+    up: (prev: any[]) => prev.map((m, idx) => (m.meta === undefined || m.meta === null || m.meta === '' ? { ...m, meta: metaMensal[idx]?.meta ?? 0 } : m)),
+  },
+  {
+    dataset: 'skg-vendedores-config',
+    version: 1,
+    description: 'Renomeia o vendedor V3 para SKG',
+    up: (prev: any[]) => prev.map(v => (v.id === 'V3' ? { ...v, id: 'SKG', label: 'SK-G' } : v)),
+  },
+  {
+    dataset: 'skg-vendedores',
+    version: 1,
+    description: 'Move os lançamentos da coluna V3 para SKG',
+    up: (prev: any[]) => prev.map(v => {
+      if (v.V3 === undefined) return v;
+      const copy = { ...v, SKG: v.V3 };
+      delete copy.V3;
+      return copy;
+    }),
+  },
+  {
+    dataset: 'skg-custos',
+    version: 1,
+    description: 'Renomeia materiaPrima para Camozzi, remove eficiencia e completa metaCamozzi/Outros Fornecedores',
+    up: (prev: any[]) => {
+      if (!prev || prev.length === 0) return initialCustosEficiencia;
+      return prev.map((row, idx) => {
+        const defaults: any = initialCustosEficiencia[idx] || {};
+        const copy: any = { ...row };
+        if ('materiaPrima' in copy) {
+          if (!('Camozzi' in copy)) copy.Camozzi = copy.materiaPrima;
+          delete copy.materiaPrima;
+        }
+        delete copy.eficiencia;
+        if (!('Camozzi' in copy)) copy.Camozzi = defaults.Camozzi ?? 0;
+        if (!('Outros Fornecedores' in copy)) copy['Outros Fornecedores'] = defaults['Outros Fornecedores'] ?? 0;
+        if (!('metaCamozzi' in copy)) copy.metaCamozzi = defaults.metaCamozzi ?? 0;
+        return copy;
+      });
+    },
+  },
+  {
+    dataset: 'skg-gestao-top20',
+    version: 1,
+    description: 'Completa com histórico vazio os clientes das bases antigas, sem histórico por cliente',
+    up: (prev: any) => {
+      // Bases sem a lista de clientes não são convertidas: a migração falha e o chamador guarda o original.
+      const clientes = Array.isArray(prev) ? prev : prev?.clientes;
+      if (!Array.isArray(clientes) || clientes.some(c => c === null || typeof c !== 'object' || Array.isArray(c))) {
+        throw new Error('Gestão Top 20 em formato desconhecido: esperada uma lista de clientes.');
+      }
+      const indicadores = Array.isArray(prev) ? undefined : prev.indicadores;
+      return {
+        ...(Array.isArray(prev) ? {} : prev),
+        indicadores: indicadores && typeof indicadores === 'object' ? indicadores : { ...initialGestaoTop20.indicadores },
+        clientes: clientes.map(c => (c.history && typeof c.history === 'object' ? c : { ...c, history: {} })),
+      };
+    },
+  },
+  {
+    dataset: 'skg-quarterly',
+    version: 1,
+    description: 'Converte para número os anos digitados como texto na planilha',
+    up: (prev: any[]) => prev.map(d => (typeof d.ano === 'string' && d.ano.trim() !== '' && !isNaN(Number(d.ano)) ? { ...d, ano: Number(d.ano) } : d)),
+  },
+  {
+    dataset: 'skg-gestao-top20',
+    version: 2,
+    description: 'Converte para número os ids de cliente digitados como texto na planilha',
+    up: (prev: any) => ({
+      ...prev,
+      clientes: prev.clientes.map((c: any) => (typeof c.id === 'string' && c.id.trim() !== '' && !isNaN(Number(c.id)) ? { ...c, id: Number(c.id) } : c)),
+    }),
+  },
+  {
+    dataset: 'skg-metas',
+    version: 2,
+    description: 'Separa as colunas r2026/r2027/... em um conjunto de metas por ano ({ ano: [{ month, meta, realizado }] })',
+    up: (prev: any) => {
+      if (!Array.isArray(prev)) return prev;
+      const years = new Set<string>(['2026']);
+      prev.forEach(row => Object.keys(row).forEach(k => { if (REALIZADO_COLUMN.test(k) && row[k]) years.add(k.slice(1)); }));
+      return [...years].sort().reduce((acc, year) => ({
+        ...acc,
+        [year]: prev.map(row => {
+          const extra = Object.fromEntries(Object.entries(row).filter(([k]) => !REALIZADO_COLUMN.test(k)));
+          // Colunas criadas pelo usuário ficam no ano em que eram usadas (2026).
+          return year === '2026'
+            ? { ...extra, realizado: row.r2026 ?? 0 }
+            : { month: row.month, meta: row.meta ?? 0, realizado: row[`r${year}`] ?? 0 };
+        }),
+      }), {});
+    },
+  },
+  {
+    dataset: 'skg-vendedores-config',
+    version: 2,
+    description: 'Agrupa a configuração de vendedores por ano (lista antiga vira 2026)',
+    up: (prev: any) => (Array.isArray(prev) ? { '2026': prev } : prev),
+  },
+  {
+    dataset: 'skg-vendedores',
+    version: 2,
+    description: 'Agrupa os lançamentos de vendedores por ano (lista antiga vira 2026)',
+    up: (prev: any) => (Array.isArray(prev) ? { '2026': prev } : prev),
+  },
+  {
+    dataset: 'skg-custos',
+    version: 2,
+    description: 'Agrupa custos e logística por ano (lista antiga vira 2026)',
+    up: (prev: any) => (Array.isArray(prev) ? { '2026': prev } : prev),
+  },
+];
+
+export const getMigrations = (dataset: DatasetKey): Migration[] =>
+  MIGRATIONS.filter(m => m.dataset === dataset).sort((a, b) => a.version - b.version);
+
+export const getSchemaVersion = (dataset: DatasetKey): number =>
+  getMigrations(dataset).reduce((max, m) => Math.max(max, m.version), 0);
+
+const isEnvelope = (value: any): value is StoredDataset =>
+  value !== null && typeof value === 'object' && !Array.isArray(value)
+  && typeof value.schemaVersion === 'number' && 'data' in value;
+
+// Aceita tanto o envelope versionado quanto o JSON cru gravado antes do versionamento (versão 0).
+export const toEnvelope = (value: any): StoredDataset =>
+  isEnvelope(value) ? value : { schemaVersion: 0, data: value };
+
+export const migrateDataset = (dataset: DatasetKey, stored: StoredDataset): StoredDataset => {
+  const target = getSchemaVersion(dataset);
+  if (stored.schemaVersion > target) {
+    throw new Error(`Dataset ${dataset} está na versão ${stored.schemaVersion}, mais nova que a suportada (${target}).`);
+  }
+  return getMigrations(dataset)
+    .filter(m => m.version > stored.schemaVersion)
+    .reduce<StoredDataset>((acc, m) => ({ schemaVersion: m.version, data: m.up(acc.data) }), stored);
+};
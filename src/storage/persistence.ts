@@ -0,0 +1,116 @@
+import { DatasetKey, DATASET_KEYS, StoredDataset, getSchemaVersion, migrateDataset, toEnvelope } from './migrations';
+
+const DB_NAME = 'skg-dashboard';
+const DB_VERSION = 1;
+const STORE = 'datasets';
+
+export type StorageBackend = 'indexeddb' | 'localstorage';
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+// Abre o banco uma única vez. Resolve `null` quando o navegador não oferece IndexedDB
+// (modo privado, SSR), e a camada passa a usar o localStorage.
+const openDatabase = (): Promise<IDBDatabase | null> => {
+  if (!dbPromise) {
+    dbPromise = new Promise(resolve => {
+      if (typeof indexedDB === 'undefined') return resolve(null);
+      try {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(STORE)) request.result.createObjectStore(STORE);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => resolve(null);
+        request.onblocked = () => resolve(null);
+      } catch (e) {
+        console.error('IndexedDB indisponível, usando localStorage', e);
+        resolve(null);
+      }
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = <T>(db: IDBDatabase, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE, mode);
+    const request = action(tx.objectStore(STORE));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+export const getStorageBackend = async (): Promise<StorageBackend> =>
+  (await openDatabase()) ? 'indexeddb' : 'localstorage';
+
+// Uma cópia no localStorage só sobra de antes do IndexedDB ou de uma gravação em contingência
+// (toda gravação bem-sucedida no IndexedDB a apaga), então é sempre a versão mais recente.
+export const readDataset = async (dataset: DatasetKey): Promise<StoredDataset | null> => {
+  const raw = localStorage.getItem(dataset);
+  if (raw) return toEnvelope(JSON.parse(raw));
+  const db = await openDatabase();
+  if (db) {
+    try {
+      const value = await runRequest(db, 'readonly', store => store.get(dataset));
+      if (value !== undefined) return toEnvelope(value);
+    } catch (e) {
+      console.error(`Erro ao ler ${dataset} do IndexedDB`, e);
+    }
+  }
+  return null;
+};
+
+export const writeDataset = async (dataset: DatasetKey, data: any): Promise<StorageBackend> => {
+  const envelope: StoredDataset = { schemaVersion: getSchemaVersion(dataset), data };
+  const db = await openDatabase();
+  if (db) {
+    try {
+      await runRequest(db, 'readwrite', store => store.put(envelope, dataset));
+      localStorage.removeItem(dataset);
+      return 'indexeddb';
+    } catch (e) {
+      console.error(`Erro ao gravar ${dataset} no IndexedDB, usando localStorage`, e);
+    }
+  }
+  localStorage.setItem(dataset, JSON.stringify(envelope));
+  // O registro antigo no IndexedDB não pode sobreviver à versão gravada em contingência.
+  if (db) {
+    try {
+      await runRequest(db, 'readwrite', store => store.delete(dataset));
+    } catch (e) {
+      console.error(`Erro ao remover a versão antiga de ${dataset} do IndexedDB`, e);
+    }
+  }
+  return 'localstorage';
+};
+
+export const removeDataset = async (dataset: DatasetKey) => {
+  const db = await openDatabase();
+  if (db) {
+    try {
+      await runRequest(db, 'readwrite', store => store.delete(dataset));
+    } catch (e) {
+      console.error(`Erro ao remover ${dataset} do IndexedDB`, e);
+    }
+  }
+  localStorage.removeItem(dataset);
+};
+
+// Lê e migra todos os datasets persistidos. Chaves nunca salvas ficam de fora do resultado.
+export const loadWorkspace = async (): Promise<Partial<Record<DatasetKey, any>>> => {
+  const result: Partial<Record<DatasetKey, any>> = {};
+  for (const dataset of DATASET_KEYS) {
+    let stored: StoredDataset | null = null;
+    try {
+      stored = await readDataset(dataset);
+      if (!stored) continue;
+      const migrated = migrateDataset(dataset, stored);
+      if (migrated.schemaVersion !== stored.schemaVersion) await writeDataset(dataset, migrated.data);
+      if (migrated.data !== undefined && migrated.data !== null) result[dataset] = migrated.data;
+    } catch (e) {
+      console.error(`Erro ao carregar ${dataset}`, e);
+      if (stored) localStorage.setItem(`${dataset}-backup`, JSON.stringify(stored));
+    }
+  }
+  return result;
+};
@@ -0,0 +1,59 @@
+import { DatasetKey, StoredDataset } from './migrations';
+
+// Protocolo REST do servidor de sincronização (server/index.ts). Cada dataset tem uma
+// revisão que só avança; um PUT precisa informar a revisão em que a edição foi baseada.
+// Os dados viajam no mesmo envelope do armazenamento local ({ schemaVersion, data }).
+export interface RemoteDatasetInfo {
+  key: DatasetKey;
+  revision: number;
+  updatedAt: string;
+  updatedBy: string;
+}
+
+export interface RemoteDataset extends RemoteDatasetInfo, StoredDataset {}
+
+export interface PutDatasetBody extends StoredDataset {
+  baseRevision: number;
+  updatedBy: string;
+}
+
+export type PutResult =
+  | { ok: true; info: RemoteDatasetInfo }
+  | { ok: false; conflict: RemoteDataset };
+
+// URL base da API, configurada por SKG_SYNC_URL (vazio = sincronização desligada).
+export const SYNC_URL: string = process.env.SYNC_URL || '';
+
+// Falha de rede (servidor fora do ar, sem internet): a edição fica na fila para reenvio.
+export class SyncOfflineError extends Error {}
+
+const request = async (path: string, init?: RequestInit): Promise<Response> => {
+  try {
+    return await fetch(`${SYNC_URL}${path}`, { ...init, headers: { 'Content-Type': 'application/json', ...init?.headers } });
+  } catch (e: any) {
+    throw new SyncOfflineError(e?.message || 'Servidor de sincronização indisponível');
+  }
+};
+
+const failed = async (response: Response) =>
+  new Error(`Servidor respondeu ${response.status}: ${(await response.json().catch(() => null))?.error || response.statusText}`);
+
+export const listRemoteDatasets = async (): Promise<RemoteDatasetInfo[]> => {
+  const response = await request('/datasets');
+  if (!response.ok) throw await failed(response);
+  return response.json();
+};
+
+export const fetchRemoteDataset = async (key: DatasetKey): Promise<RemoteDataset | null> => {
+  const response = await request(`/datasets/${key}`);
+  if (response.status === 404) return null;
+  if (!response.ok) throw await failed(response);
+  return response.json();
+};
+
+export const putRemoteDataset = async (key: DatasetKey, body: PutDatasetBody): Promise<PutResult> => {
+  const response = await request(`/datasets/${key}`, { method: 'PUT', body: JSON.stringify(body) });
+  if (response.status === 409) return { ok: false, conflict: (await response.json()).current };
+  if (!response.ok) throw await failed(response);
+  return { ok: true, info: await response.json() };
+};
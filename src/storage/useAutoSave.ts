@@ -0,0 +1,101 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { DatasetKey, DATASET_KEYS } from './migrations';
+import { loadWorkspace, writeDataset, StorageBackend } from './persistence';
+
+// 'fallback': salvo, mas no localStorage de contingência (IndexedDB indisponível ou com falha).
+export type SaveStatus = 'loading' | 'dirty' | 'saving' | 'saved' | 'fallback' | 'error';
+
+export type WorkspaceDatasets = Record<DatasetKey, any>;
+export type WorkspaceSetters = Record<DatasetKey, (value: any) => void>;
+
+/**
+ * Hidrata o estado a partir do armazenamento persistente e grava automaticamente
+ * (com debounce) os datasets alterados. Enquanto houver alterações pendentes,
+ * o fechamento da aba pede confirmação.
+ */
+export const useAutoSave = (datasets: WorkspaceDatasets, setters: WorkspaceSetters, delay = 1500) => {
+  const [hydrated, setHydrated] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [lastSavedAt, setLastSavedAt] = useState<Date | null>(null);
+  const [backend, setBackend] = useState<StorageBackend | null>(null);
+  const snapshots = useRef<Partial<Record<DatasetKey, string>>>({});
+  const [snapshotVersion, setSnapshotVersion] = useState(0);
+
+  const serialized = useMemo(() => {
+    const out = {} as Record<DatasetKey, string>;
+    DATASET_KEYS.forEach(k => { out[k] = JSON.stringify(datasets[k]); });
+    return out;
+  }, DATASET_KEYS.map(k => datasets[k]));
+
+  const latest = useRef({ datasets, serialized });
+  latest.current = { datasets, serialized };
+
+  useEffect(() => {
+    let cancelled = false;
+    loadWorkspace().then(loaded => {
+      if (cancelled) return;
+      DATASET_KEYS.forEach(k => {
+        if (k in loaded) {
+          setters[k](loaded[k]);
+          snapshots.current[k] = JSON.stringify(loaded[k]);
+        } else {
+          snapshots.current[k] = latest.current.serialized[k];
+        }
+      });
+      setHydrated(true);
+    });
+    return () => { cancelled = true; };
+  }, []);
+
+  const dirtyKeys = useMemo(
+    () => (hydrated ? DATASET_KEYS.filter(k => serialized[k] !== snapshots.current[k]) : []),
+    [hydrated, serialized, snapshotVersion]
+  );
+  const isDirty = dirtyKeys.length > 0;
+
+  const saveNow = useCallback(async () => {
+    const { datasets: current, serialized: currentSerialized } = latest.current;
+    const pending = DATASET_KEYS.filter(k => currentSerialized[k] !== snapshots.current[k]);
+    if (pending.length === 0) return;
+    setSaving(true);
+    try {
+      const backends = await Promise.all(pending.map(k => writeDataset(k, current[k])));
+      pending.forEach(k => { snapshots.current[k] = currentSerialized[k]; });
+      setBackend(backends.includes('localstorage') ? 'localstorage' : 'indexeddb');
+      setLastSavedAt(new Date());
+      setError(null);
+    } catch (e: any) {
+      console.error('Erro ao salvar lançamentos', e);
+      setError(e?.message || String(e));
+    } finally {
+      setSaving(false);
+      setSnapshotVersion(v => v + 1);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!hydrated || !isDirty) return;
+    const timer = setTimeout(saveNow, delay);
+    return () => clearTimeout(timer);
+  }, [hydrated, isDirty, serialized, delay, saveNow]);
+
+  useEffect(() => {
+    if (!isDirty) return;
+    const onBeforeUnload = (e: BeforeUnloadEvent) => {
+      e.preventDefault();
+      e.returnValue = '';
+    };
+    window.addEventListener('beforeunload', onBeforeUnload);
+    return () => window.removeEventListener('beforeunload', onBeforeUnload);
+  }, [isDirty]);
+
+  let status: SaveStatus = 'saved';
+  if (!hydrated) status = 'loading';
+  else if (saving) status = 'saving';
+  else if (error) status = 'error';
+  else if (isDirty) status = 'dirty';
+  else if (backend === 'localstorage') status = 'fallback';
+
+  return { status, hydrated, isDirty, dirtyKeys, lastSavedAt, backend, error, saveNow };
+};
@@ -0,0 +1,254 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { DatasetKey, DATASET_KEYS, getSchemaVersion, migrateDataset } from './migrations';
+import { WorkspaceDatasets, WorkspaceSetters } from './useAutoSave';
+import { WORKSPACE_FIELDS, WORKSPACE_LABELS, WorkspaceField, validateDataset } from './backup';
+import { PERIOD_LOCKED_FIELDS, lockedEditMessage, protectLockedMonths } from '../kpi/periods';
+import { SYNC_URL, SyncOfflineError, RemoteDataset, listRemoteDatasets, fetchRemoteDataset, putRemoteDataset } from './syncClient';
+
+export type SyncStatus = 'disabled' | 'connecting' | 'synced' | 'pending' | 'syncing' | 'offline' | 'conflict' | 'error';
+
+// Revisão do servidor em que cada dataset local se baseia e fila de envios pendentes.
+// Ficam no localStorage para sobreviver a um recarregamento feito sem conexão.
+const REVISIONS_KEY = 'skg-sync-revisions';
+const QUEUE_KEY = 'skg-sync-queue';
+const PUSH_DELAY = 1000;
+const POLL_MS = 15000;
+
+const readJson = <T>(key: string, fallback: T): T => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? JSON.parse(raw) : fallback;
+  } catch (e) {
+    return fallback;
+  }
+};
+
+// Versão do servidor levada ao schema atual e validada como num backup; erro descreve o problema.
+const decodeRemote = (remote: RemoteDataset): RemoteDataset => {
+  const migrated = migrateDataset(remote.key, { schemaVersion: remote.schemaVersion ?? 0, data: remote.data });
+  const errors = validateDataset(remote.key, migrated.data);
+  if (errors.length > 0) throw new Error(`Versão do servidor de ${remote.key} inválida: ${errors.slice(0, 3).join(' ')}`);
+  return { ...remote, ...migrated };
+};
+
+// Datasets que só crescem podem ser combinados em vez de virar conflito.
+const AUTO_MERGE: Partial<Record<DatasetKey, (local: any, remote: any) => any>> = {
+  'skg-audit-log': (local: any[], remote: any[]) => {
+    const byId = new Map([...(remote || []), ...(local || [])].map(e => [e.id, e]));
+    return [...byId.values()].sort((a, b) => String(a.timestamp).localeCompare(String(b.timestamp)));
+  },
+};
+
+/**
+ * Sincroniza os datasets com o servidor local (SKG_SYNC_URL). As edições são aplicadas
+ * na hora (o estado local é a fonte da tela) e enviadas em segundo plano; sem conexão
+ * ficam na fila. Um envio baseado em revisão antiga é recusado pelo servidor e vira
+ * conflito, resolvido pelo usuário mantendo a versão local ou a do servidor.
+ */
+export const useServerSync = (datasets: WorkspaceDatasets, setters: WorkspaceSetters, hydrated: boolean, user: string, pollInterval = POLL_MS) => {
+  const enabled = SYNC_URL !== '';
+  const [online, setOnline] = useState<boolean | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [lastSyncedAt, setLastSyncedAt] = useState<Date | null>(null);
+  const [queue, setQueue] = useState<DatasetKey[]>(() => readJson(QUEUE_KEY, []));
+  const [conflicts, setConflicts] = useState<Partial<Record<DatasetKey, RemoteDataset>>>({});
+
+  const queueRef = useRef(queue);
+  const conflictsRef = useRef(conflicts);
+  const revisions = useRef<Partial<Record<DatasetKey, number>>>(readJson(REVISIONS_KEY, {}));
+  const snapshots = useRef<Partial<Record<DatasetKey, string>>>({});
+  const ready = useRef(false);
+  const busyRef = useRef(false);
+
+  const serialized = useMemo(() => {
+    const out = {} as Record<DatasetKey, string>;
+    DATASET_KEYS.forEach(k => { out[k] = JSON.stringify(datasets[k]); });
+    return out;
+  }, DATASET_KEYS.map(k => datasets[k]));
+
+  const latest = useRef({ datasets, serialized, user });
+  latest.current = { datasets, serialized, user };
+
+  const updateQueue = (update: (prev: DatasetKey[]) => DatasetKey[]) => {
+    const next = update(queueRef.current);
+    queueRef.current = next;
+    localStorage.setItem(QUEUE_KEY, JSON.stringify(next));
+    setQueue(next);
+  };
+
+  const updateConflicts = (update: (prev: Partial<Record<DatasetKey, RemoteDataset>>) => Partial<Record<DatasetKey, RemoteDataset>>) => {
+    conflictsRef.current = update(conflictsRef.current);
+    setConflicts(conflictsRef.current);
+  };
+
+  const saveRevision = (key: DatasetKey, revision: number) => {
+    revisions.current = { ...revisions.current, [key]: revision };
+    localStorage.setItem(REVISIONS_KEY, JSON.stringify(revisions.current));
+  };
+
+  // Aplica a versão do servidor no estado local sem colocá-la na fila de envio. Meses bloqueados
+  // ficam com o valor local; a diferença para o servidor entra na fila e é reenviada.
+  const applyRemote = (remote: RemoteDataset) => {
+    snapshots.current[remote.key] = JSON.stringify(remote.data);
+    saveRevision(remote.key, remote.revision);
+    const field = (Object.keys(WORKSPACE_FIELDS) as WorkspaceField[]).find(f => WORKSPACE_FIELDS[f] === remote.key);
+    if (field === 'periodos' || PERIOD_LOCKED_FIELDS.includes(field)) {
+      const { datasets: current } = latest.current;
+      const { data, rejected } = protectLockedMonths(
+        { periodos: current[WORKSPACE_FIELDS.periodos], [field]: current[remote.key] },
+        { [field]: remote.data }
+      );
+      if (rejected.length > 0) {
+        alert(`A versão do servidor de "${WORKSPACE_LABELS[field]}" altera meses bloqueados e foi aplicada sem eles. ${lockedEditMessage(rejected)}`);
+        setters[remote.key](data[field]);
+        return;
+      }
+    }
+    setters[remote.key](remote.data);
+  };
+
+  const run = async (task: () => Promise<void>) => {
+    if (!enabled || !ready.current || busyRef.current) return false;
+    busyRef.current = true;
+    setBusy(true);
+    try {
+      await task();
+      setOnline(true);
+      setError(null);
+      setLastSyncedAt(new Date());
+    } catch (e: any) {
+      if (e instanceof SyncOfflineError) setOnline(false);
+      else {
+        console.error('Erro na sincronização', e);
+        setOnline(true);
+        setError(e?.message || String(e));
+      }
+    } finally {
+      busyRef.current = false;
+      setBusy(false);
+    }
+    return true;
+  };
+
+  const flush = useCallback(() => run(async () => {
+    for (const key of [...queueRef.current]) {
+      if (conflictsRef.current[key]) continue;
+      const { datasets: current, serialized: currentSerialized, user: author } = latest.current;
+      const sent = currentSerialized[key];
+      const result = await putRemoteDataset(key, {
+        baseRevision: revisions.current[key] ?? 0,
+        updatedBy: author.trim() || 'Anônimo',
+        schemaVersion: getSchemaVersion(key),
+        data: current[key],
+      });
+      if ('info' in result) {
+        saveRevision(key, result.info.revision);
+        snapshots.current[key] = sent;
+        if (latest.current.serialized[key] === sent) updateQueue(q => q.filter(k => k !== key));
+      } else if (AUTO_MERGE[key]) {
+        // A combinação entra no estado e é reenviada no próximo ciclo sobre a revisão nova.
+        const conflict = decodeRemote(result.conflict);
+        saveRevision(key, conflict.revision);
+        setters[key](AUTO_MERGE[key]!(current[key], conflict.data));
+      } else {
+        updateConflicts(prev => ({ ...prev, [key]: decodeRemote(result.conflict) }));
+      }
+    }
+  }), [enabled, setters]);
+
+  const pull = useCallback(async () => {
+    await run(async () => {
+      const remote = await listRemoteDatasets();
+      // Uma versão do servidor que não migra ou não valida fica de fora, sem travar as demais.
+      const invalid: string[] = [];
+      for (const info of remote) {
+        const key = info.key;
+        if (!DATASET_KEYS.includes(key) || queueRef.current.includes(key) || conflictsRef.current[key]) continue;
+        const known = revisions.current[key];
+        if (known !== undefined && info.revision <= known) continue;
+        const fetched = await fetchRemoteDataset(key);
+        if (!fetched) continue;
+        let full: RemoteDataset;
+        try {
+          full = decodeRemote(fetched);
+        } catch (e: any) {
+          invalid.push(e?.message || String(e));
+          continue;
+        }
+        // Primeira conexão deste navegador: dados locais diferentes do servidor não são descartados sem perguntar.
+        if (known === undefined && JSON.stringify(full.data) !== latest.current.serialized[key]) {
+          updateConflicts(prev => ({ ...prev, [key]: full }));
+        } else {
+          applyRemote(full);
+        }
+      }
+      const onServer = new Set(remote.map(r => r.key));
+      const missing = DATASET_KEYS.filter(k => !onServer.has(k) && !queueRef.current.includes(k));
+      if (missing.length > 0) updateQueue(q => [...q, ...missing]);
+      if (invalid.length > 0) throw new Error(invalid.join(' '));
+    });
+    if (queueRef.current.length > 0) await flush();
+  }, [enabled, setters, flush]);
+
+  useEffect(() => {
+    if (!enabled || !hydrated) return;
+    if (!ready.current) {
+      DATASET_KEYS.forEach(k => { snapshots.current[k] = serialized[k]; });
+      ready.current = true;
+      pull();
+      return;
+    }
+    const changed = DATASET_KEYS.filter(k => serialized[k] !== snapshots.current[k] && !queueRef.current.includes(k));
+    if (changed.length > 0) updateQueue(q => [...q, ...changed]);
+  }, [enabled, hydrated, serialized]);
+
+  useEffect(() => {
+    if (!enabled || !hydrated || queue.length === 0) return;
+    const timer = setTimeout(flush, PUSH_DELAY);
+    return () => clearTimeout(timer);
+  }, [enabled, hydrated, queue, serialized, flush]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    const timer = setInterval(pull, pollInterval);
+    window.addEventListener('online', pull);
+    return () => {
+      clearInterval(timer);
+      window.removeEventListener('online', pull);
+    };
+  }, [enabled, pull, pollInterval]);
+
+  const resolveConflict = useCallback((key: DatasetKey, keep: 'local' | 'remote') => {
+    const remote = conflictsRef.current[key];
+    if (!remote) return;
+    updateConflicts(prev => {
+      const next = { ...prev };
+      delete next[key];
+      return next;
+    });
+    if (keep === 'remote') {
+      applyRemote(remote);
+      updateQueue(q => q.filter(k => k !== key));
+    } else {
+      // Sobrescreve o servidor: a versão local passa a se basear na revisão mais nova.
+      saveRevision(key, remote.revision);
+      if (!queueRef.current.includes(key)) updateQueue(q => [...q, key]);
+    }
+  }, [setters]);
+
+  const conflictList = Object.values(conflicts) as RemoteDataset[];
+
+  let status: SyncStatus = 'synced';
+  if (!enabled) status = 'disabled';
+  else if (online === null) status = 'connecting';
+  else if (conflictList.length > 0) status = 'conflict';
+  else if (!online) status = 'offline';
+  else if (error) status = 'error';
+  else if (busy) status = 'syncing';
+  else if (queue.length > 0) status = 'pending';
+
+  return { status, queue, conflicts: conflictList, error, lastSyncedAt, resolveConflict, syncNow: pull };
+};
+
+export type ServerSync = ReturnType<typeof useServerSync>;
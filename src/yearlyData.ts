@@ -0,0 +1,99 @@
+import { MONTHS, INDIVIDUAL_METAS } from '../constants';
+import { metaMensal, initialSalespeopleConfig, initialSalespersonData, initialCustosEficiencia } from './data';
+import { openPeriods } from './kpi/periods';
+
+// Datasets mensais guardados por ano: { '2026': [linhas Jan..Dez], '2027': [...] }.
+export type YearKeyed<T = any> = Record<string, T[]>;
+
+export interface YearlyDatasets {
+  metas: YearKeyed;
+  vendedoresConfig: YearKeyed;
+  vendedorData: YearKeyed;
+  custos: YearKeyed;
+  metasVendedores: YearKeyed;
+  periodos: YearKeyed;
+}
+
+export const YEAR_KEYED_FIELDS: (keyof YearlyDatasets)[] = ['metas', 'vendedoresConfig', 'vendedorData', 'custos', 'metasVendedores', 'periodos'];
+
+export const initialMetasByYear: YearKeyed = {
+  '2026': metaMensal.map(m => ({ month: m.month, meta: m.meta, realizado: m.r2026 })),
+};
+export const initialSalespeopleConfigByYear: YearKeyed = { '2026': initialSalespeopleConfig };
+export const initialSalespersonDataByYear: YearKeyed = { '2026': initialSalespersonData['2026'] };
+export const initialCustosByYear: YearKeyed = { '2026': initialCustosEficiencia };
+// Metas mensais individuais de 2026 (INDIVIDUAL_METAS usa os ids dos vendedores em minúsculas).
+export const initialMetasVendedoresByYear: YearKeyed = {
+  '2026': MONTHS.map(month => initialSalespeopleConfig.reduce(
+    (acc: any, s) => ({ ...acc, [s.id]: INDIVIDUAL_METAS[s.id.toLowerCase()]?.[month] || 0 }),
+    { month }
+  )),
+};
+
+// Jan..Mai de 2026 já chegam fechados.
+export const initialPeriodosByYear: YearKeyed = { '2026': openPeriods(5) };
+
+export const listYears = (byYear: YearKeyed): string[] => Object.keys(byYear || {}).sort();
+
+// Ano aberto mais próximo (anterior de preferência) para servir de modelo de colunas.
+const templateYear = (byYear: YearKeyed, year: string): string | undefined => {
+  const years = listYears(byYear);
+  return [...years].reverse().find(y => y < year) || years[0];
+};
+
+const zeroed = (row: Record<string, unknown>, keep: string[]) =>
+  Object.keys(row).reduce<Record<string, unknown>>((acc, k) => ({ ...acc, [k]: keep.includes(k) ? row[k] : (typeof row[k] === 'number' ? 0 : row[k]) }), {});
+
+/**
+ * Cria as linhas de `year` nos datasets que ainda não o possuem, copiando a estrutura
+ * (vendedores, colunas de custo) do ano aberto mais próximo com os valores zerados.
+ * Retorna apenas os datasets alterados.
+ */
+export const ensureYear = (datasets: YearlyDatasets, year: string): Partial<YearlyDatasets> => {
+  const changes: Partial<YearlyDatasets> = {};
+
+  if (!datasets.metas?.[year]) {
+    changes.metas = { ...datasets.metas, [year]: MONTHS.map(month => ({ month, meta: 0, realizado: 0 })) };
+  }
+
+  const configTemplate = datasets.vendedoresConfig?.[templateYear(datasets.vendedoresConfig, year) || ''] || initialSalespeopleConfig;
+  if (!datasets.vendedoresConfig?.[year]) {
+    changes.vendedoresConfig = { ...datasets.vendedoresConfig, [year]: configTemplate.map(s => ({ ...s, meta: 0 })) };
+  }
+
+  if (!datasets.vendedorData?.[year]) {
+    const sellers = (changes.vendedoresConfig?.[year] || datasets.vendedoresConfig[year]).map((s: any) => s.id);
+    changes.vendedorData = {
+      ...datasets.vendedorData,
+      [year]: MONTHS.map(month => sellers.reduce((acc: any, id: string) => ({ ...acc, [id]: 0 }), { month })),
+    };
+  }
+
+  if (!datasets.custos?.[year]) {
+    const template = datasets.custos?.[templateYear(datasets.custos, year) || ''] || initialCustosEficiencia;
+    changes.custos = {
+      ...datasets.custos,
+      [year]: MONTHS.map((mes, idx) => ({ ...zeroed(template[idx] || template[0] || {}, []), mes })),
+    };
+  }
+
+  // Sem metas individuais, o ano começa com a meta da empresa repartida pela meta anual de cada vendedor.
+  if (!datasets.metasVendedores?.[year]) {
+    const config: any[] = changes.vendedoresConfig?.[year] || datasets.vendedoresConfig[year];
+    const metas: any[] = changes.metas?.[year] || datasets.metas[year];
+    const total = config.reduce((acc, s) => acc + (s.meta || 0), 0);
+    changes.metasVendedores = {
+      ...datasets.metasVendedores,
+      [year]: MONTHS.map((month, idx) => config.reduce(
+        (acc: any, s: any) => ({ ...acc, [s.id]: total > 0 ? Math.round((metas[idx]?.meta || 0) * (s.meta || 0) / total * 100) / 100 : 0 }),
+        { month }
+      )),
+    };
+  }
+
+  if (!datasets.periodos?.[year]) {
+    changes.periodos = { ...datasets.periodos, [year]: openPeriods() };
+  }
+
+  return changes;
+};
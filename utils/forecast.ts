@@ -0,0 +1,238 @@
+import { MONTHS } from '../constants';
+
+const PERIOD = 12;
+const Z80 = 1.2816;
+const Z95 = 1.96;
+
+export interface QuarterPoint {
+  ano: number;
+  trimestre: string;
+  faturamento: number;
+}
+
+export interface ForecastInput {
+  year: number;
+  // Faturamento trimestral histórico (anos anteriores a `year` são usados no ajuste).
+  quarterlyHistory: QuarterPoint[];
+  // Séries mensais conhecidas por ano ({ 2025: { Jan: ..., Fev: ... } }). Anos completos
+  // entram como estão; nos demais, servem só de formato para repartir os trimestres em meses.
+  monthlyHistory: Record<string | number, Record<string, number>>;
+  // Realizado mensal do ano projetado (Jan..Dez); meses após o último lançamento são projetados.
+  realized: number[];
+  // Meses fechados do ano; quando informado, só eles contam como realizado e os demais são projetados.
+  closedMonths?: number;
+}
+
+export interface ForecastPoint {
+  month: string;
+  actual: number | null;
+  forecast: number | null;
+  band80: [number, number] | null;
+  band95: [number, number] | null;
+}
+
+export interface YearEndForecast {
+  actual: number;
+  expected: number;
+  band80: [number, number];
+  band95: [number, number];
+  sd: number;
+}
+
+export interface RevenueForecast {
+  year: number;
+  points: ForecastPoint[];
+  lastActualIndex: number;
+  yearEnd: YearEndForecast;
+  params: { alpha: number; beta: number; gamma: number };
+  // Erro percentual médio absoluto das previsões um passo à frente dentro da amostra.
+  mape: number;
+  historyFrom: number | null;
+}
+
+const QUARTERS = ['1º', '2º', '3º', '4º'];
+
+const isCompleteYear = (months?: Record<string, number>) => !!months && MONTHS.every(m => (months[m] || 0) > 0);
+
+// Participação de cada mês dentro do seu trimestre, média dos anos mensais completos.
+const withinQuarterShares = (monthlyHistory: ForecastInput['monthlyHistory'], beforeYear: number): number[] => {
+  const shares = MONTHS.map(() => [] as number[]);
+  Object.entries(monthlyHistory).forEach(([year, months]) => {
+    if (Number(year) >= beforeYear) return;
+    QUARTERS.forEach((_, q) => {
+      const values = MONTHS.slice(q * 3, q * 3 + 3).map(m => months[m] || 0);
+      const total = values.reduce((a, b) => a + b, 0);
+      if (values.some(v => v <= 0)) return;
+      values.forEach((v, i) => shares[q * 3 + i].push(v / total));
+    });
+  });
+  return shares.map(list => (list.length > 0 ? list.reduce((a, b) => a + b, 0) / list.length : 1 / 3));
+};
+
+/**
+ * Monta a série mensal histórica: anos com os 12 meses lançados entram como estão; os
+ * demais vêm do histórico trimestral repartido pela participação média de cada mês.
+ */
+export const buildMonthlyHistory = (input: ForecastInput): { from: number | null; series: number[] } => {
+  const shares = withinQuarterShares(input.monthlyHistory, input.year);
+  const byYear: Record<number, Record<string, number>> = {};
+  input.quarterlyHistory.forEach(d => {
+    if (d.ano >= input.year) return;
+    (byYear[d.ano] ||= {})[d.trimestre] = (byYear[d.ano]?.[d.trimestre] || 0) + (Number(d.faturamento) || 0);
+  });
+  Object.keys(input.monthlyHistory).map(Number).filter(y => y < input.year && isCompleteYear(input.monthlyHistory[y])).forEach(y => { byYear[y] ||= {}; });
+
+  const years = Object.keys(byYear).map(Number).sort((a, b) => a - b)
+    .filter(y => isCompleteYear(input.monthlyHistory[y]) || QUARTERS.every(q => (byYear[y][q] || 0) > 0));
+  // Só anos consecutivos terminando no último ano completo formam uma série contínua.
+  const contiguous: number[] = [];
+  for (let y = years[years.length - 1]; years.includes(y); y--) contiguous.unshift(y);
+
+  const series = contiguous.flatMap(y => {
+    const monthly = input.monthlyHistory[y];
+    if (isCompleteYear(monthly)) return MONTHS.map(m => monthly[m]);
+    return MONTHS.map((_, i) => (byYear[y][QUARTERS[Math.floor(i / 3)]] || 0) * shares[i]);
+  });
+  return { from: contiguous[0] ?? null, series };
+};
+
+interface HoltWintersFit {
+  level: number;
+  trend: number;
+  seasonals: number[];
+  relErrors: number[];
+  sse: number;
+}
+
+// Holt-Winters multiplicativo (nível, tendência aditiva, sazonalidade multiplicativa de 12 meses).
+const fitHoltWinters = (series: number[], alpha: number, beta: number, gamma: number): HoltWintersFit => {
+  const firstYear = series.slice(0, PERIOD);
+  const secondYear = series.slice(PERIOD, PERIOD * 2);
+  const mean1 = firstYear.reduce((a, b) => a + b, 0) / PERIOD;
+  const mean2 = secondYear.length === PERIOD ? secondYear.reduce((a, b) => a + b, 0) / PERIOD : mean1;
+  let level = mean1;
+  let trend = (mean2 - mean1) / PERIOD;
+  const seasonals = firstYear.map(v => (mean1 > 0 ? v / mean1 : 1));
+  const relErrors: number[] = [];
+  let sse = 0;
+
+  for (let t = PERIOD; t < series.length; t++) {
+    const s = seasonals[t % PERIOD];
+    const predicted = (level + trend) * s;
+    const value = series[t];
+    if (predicted > 0) {
+      const rel = (value - predicted) / predicted;
+      relErrors.push(rel);
+      sse += rel * rel;
+    }
+    const prevLevel = level;
+    level = alpha * (s > 0 ? value / s : value) + (1 - alpha) * (level + trend);
+    trend = beta * (level - prevLevel) + (1 - beta) * trend;
+    seasonals[t % PERIOD] = level > 0 ? gamma * (value / level) + (1 - gamma) * s : s;
+  }
+  return { level, trend, seasonals, relErrors, sse };
+};
+
+const GRID_ALPHA = [0.05, 0.1, 0.2, 0.3, 0.4, 0.5, 0.6, 0.8];
+const GRID_BETA = [0, 0.02, 0.05, 0.1, 0.2];
+const GRID_GAMMA = [0.05, 0.1, 0.2, 0.3, 0.5];
+
+// Variância relativa do erro h passos à frente (aproximação de Hyndman para Holt-Winters).
+const horizonFactor = (h: number, alpha: number, beta: number, gamma: number) => {
+  let sum = 1;
+  for (let j = 1; j < h; j++) {
+    const c = alpha * (1 + j * beta) + (j % PERIOD === 0 ? gamma : 0);
+    sum += c * c;
+  }
+  return Math.sqrt(sum);
+};
+
+const band = (center: number, sd: number, z: number): [number, number] => [Math.max(0, center - z * sd), center + z * sd];
+
+// Função de distribuição normal padrão (Abramowitz-Stegun 7.1.26).
+export const normalCdf = (x: number) => {
+  const t = 1 / (1 + 0.3275911 * Math.abs(x) / Math.SQRT2);
+  const erf = 1 - (((((1.061405429 * t - 1.453152027) * t) + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-(x * x) / 2);
+  return x >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+};
+
+/**
+ * Projeta os meses restantes do ano com Holt-Winters ajustado (busca em grade) sobre o
+ * histórico mensal seguido dos meses já lançados. Sem dois anos de histórico, cai para
+ * sazonal ingênuo: o mesmo mês do ano anterior corrigido pela variação do acumulado.
+ */
+export const forecastMonthlyRevenue = (input: ForecastInput): RevenueForecast => {
+  const { from, series: history } = buildMonthlyHistory(input);
+  const realized = MONTHS.map((_, i) => Number(input.realized[i]) || 0);
+  const lastActualIndex = input.closedMonths !== undefined
+    ? Math.min(input.closedMonths, PERIOD) - 1
+    : realized.reduce((last, v, i) => (v > 0 ? i : last), -1);
+  const actuals = realized.slice(0, lastActualIndex + 1);
+  const series = [...history, ...actuals];
+  const horizon = PERIOD - actuals.length;
+
+  let forecasts: number[] = [];
+  let sds: number[] = [];
+  let params = { alpha: 0, beta: 0, gamma: 0 };
+  let mape = 0;
+
+  if (history.length >= PERIOD * 2) {
+    let best: (HoltWintersFit & { alpha: number; beta: number; gamma: number }) | null = null;
+    GRID_ALPHA.forEach(alpha => GRID_BETA.forEach(beta => GRID_GAMMA.forEach(gamma => {
+      const fit = fitHoltWinters(series, alpha, beta, gamma);
+      if (!best || fit.sse < best.sse) best = { ...fit, alpha, beta, gamma };
+    })));
+    const fit = best!;
+    params = { alpha: fit.alpha, beta: fit.beta, gamma: fit.gamma };
+    const sigma = Math.sqrt(fit.sse / Math.max(1, fit.relErrors.length));
+    mape = fit.relErrors.reduce((acc, e) => acc + Math.abs(e), 0) / Math.max(1, fit.relErrors.length) * 100;
+    forecasts = Array.from({ length: horizon }, (_, k) => {
+      const t = series.length + k;
+      return Math.max(0, (fit.level + (k + 1) * fit.trend) * fit.seasonals[t % PERIOD]);
+    });
+    sds = forecasts.map((f, k) => f * sigma * horizonFactor(k + 1, fit.alpha, fit.beta, fit.gamma));
+  } else if (history.length >= PERIOD) {
+    const lastYear = history.slice(-PERIOD);
+    const ytdPrev = lastYear.slice(0, actuals.length).reduce((a, b) => a + b, 0);
+    const ytd = actuals.reduce((a, b) => a + b, 0);
+    const growth = ytdPrev > 0 && ytd > 0 ? ytd / ytdPrev : 1;
+    forecasts = lastYear.slice(actuals.length).map(v => v * growth);
+    // Sem resíduos de ajuste, a incerteza vem da variação mês a mês do ano anterior.
+    const mean = lastYear.reduce((a, b) => a + b, 0) / PERIOD;
+    const cv = mean > 0 ? Math.sqrt(lastYear.reduce((acc, v) => acc + (v - mean) ** 2, 0) / PERIOD) / mean : 0;
+    sds = forecasts.map((f, k) => f * cv * Math.sqrt(k + 1) / 2);
+    mape = cv * 100;
+  }
+
+  const points: ForecastPoint[] = MONTHS.map((month, i) => {
+    if (i <= lastActualIndex) {
+      // O último mês lançado também recebe o ponto de previsão para a linha sair dele.
+      const anchor = i === lastActualIndex && forecasts.length > 0;
+      return { month, actual: realized[i], forecast: anchor ? realized[i] : null, band80: anchor ? [realized[i], realized[i]] : null, band95: anchor ? [realized[i], realized[i]] : null };
+    }
+    const k = i - lastActualIndex - 1;
+    if (k >= forecasts.length) return { month, actual: null, forecast: null, band80: null, band95: null };
+    return { month, actual: null, forecast: forecasts[k], band80: band(forecasts[k], sds[k], Z80), band95: band(forecasts[k], sds[k], Z95) };
+  });
+
+  const actualTotal = actuals.reduce((a, b) => a + b, 0);
+  const expected = actualTotal + forecasts.reduce((a, b) => a + b, 0);
+  // Soma das variâncias mensais: trata os erros dos meses como independentes.
+  const sd = Math.sqrt(sds.reduce((acc, s) => acc + s * s, 0));
+
+  return {
+    year: input.year,
+    points,
+    lastActualIndex,
+    yearEnd: {
+      actual: actualTotal,
+      expected,
+      band80: band(expected, sd, Z80).map(v => Math.max(v, actualTotal)) as [number, number],
+      band95: band(expected, sd, Z95).map(v => Math.max(v, actualTotal)) as [number, number],
+      sd,
+    },
+    params,
+    mape,
+    historyFrom: from,
+  };
+};
@@ -0,0 +1,63 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseMoney, tryParseMoney } from './parseMoney';
+
+describe('tryParseMoney', () => {
+  const accepted: [string, number][] = [
+    ['1.234,56', 1234.56],
+    ['R$ 1.234,56', 1234.56],
+    ['R$1.234.567,8', 1234567.8],
+    ['1,234.56', 1234.56],
+    ['1.234', 1234],
+    ['1,234', 1234],
+    ['1.234.567', 1234567],
+    ['1234.5', 1234.5],
+    ['1,5', 1.5],
+    ['0,05', 0.05],
+    ['.5', 0.5],
+    ['  42  ', 42],
+    ['-10', -10],
+    ['-R$ 10,00', -10],
+    ['R$ -10,00', -10],
+    ['10-', -10],
+    ['1.234,56-', -1234.56],
+    ['(10)', -10],
+    ['(1.000,00)', -1000],
+  ];
+  accepted.forEach(([input, expected]) => {
+    it(`lê "${input}" como ${expected}`, () => {
+      assert.equal(tryParseMoney(input), expected);
+    });
+  });
+
+  const rejected = ['', '   ', 'abc', 'R$', '12-34', '2026-01', '--5', '-5-', '(-5)', '1.2.3', '1,2,3', '10%', '1e5', '12a'];
+  rejected.forEach(input => {
+    it(`recusa "${input}"`, () => {
+      assert.equal(tryParseMoney(input), null);
+    });
+  });
+
+  it('números passam direto, exceto os não finitos', () => {
+    assert.equal(tryParseMoney(1234.567), 1234.567);
+    assert.equal(tryParseMoney(-3), -3);
+    assert.equal(tryParseMoney(NaN), null);
+    assert.equal(tryParseMoney(Infinity), null);
+  });
+});
+
+describe('parseMoney', () => {
+  it('lê valores em pt-BR', () => {
+    assert.equal(parseMoney('R$ 1.234,56'), 1234.56);
+    assert.equal(parseMoney('1.234'), 1234);
+    assert.equal(parseMoney('10,5'), 10.5);
+  });
+
+  it('números passam direto', () => {
+    assert.equal(parseMoney(99.9), 99.9);
+  });
+
+  it('assume 0 quando o texto não é um valor', () => {
+    assert.equal(parseMoney('abc'), 0);
+    assert.equal(parseMoney(''), 0);
+  });
+});
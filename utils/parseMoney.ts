@@ -1,3 +1,27 @@
+// Retorna null quando o texto não representa um valor (ex.: "abc", "12-34"), em vez de assumir 0.
+// O separador decimal é o último "." ou "," seguido de 1 ou 2 dígitos; os demais separam milhares,
+// então "1.234,56", "1,234.56" e "1234.5" são aceitos. O sinal de menos vale só no início ou no fim.
+export const tryParseMoney = (val: string | number): number | null => {
+    if (typeof val === 'number') return Number.isFinite(val) ? val : null;
+    let text = val.replace(/R\$|\s/g, '');
+    let negative = false;
+    const parens = /^\((.*)\)$/.exec(text);
+    if (parens) {
+        negative = true;
+        text = parens[1];
+    }
+    if (!parens && (text.startsWith('-') || text.endsWith('-'))) {
+        negative = true;
+        text = text.startsWith('-') ? text.slice(1) : text.slice(0, -1);
+    }
+    if (!/^[\d.,]*\d[\d.,]*$/.test(text)) return null;
+    const decimal = /^(.*?)([.,])(\d{1,2})$/.exec(text);
+    const integer = decimal ? decimal[1] : text;
+    if (decimal && integer.includes(decimal[2])) return null;
+    const num = parseFloat(`${integer.replace(/[.,]/g, '') || '0'}.${decimal ? decimal[3] : '0'}`);
+    return negative ? -num : num;
+};
+
 export const parseMoney = (val: string | number): number => {
     if (typeof val === 'number') return val;
     return parseFloat(val.replace(/[R$\s.]/g, '').replace(',', '.')) || 0;
@@ -0,0 +1,170 @@
+import * as XLSX from 'xlsx';
+import { ColumnSchema, defaultValue, isNumericType, parseCell, validateCell } from '../src/sheetSchemas';
+
+export type SheetCell = string | number;
+
+export interface SheetTable {
+    headers: string[];
+    rows: SheetCell[][];
+}
+
+export interface ImportError {
+    row: number; // linha no arquivo de origem (1 = cabeçalho)
+    column: string;
+    value: SheetCell;
+    message: string;
+}
+
+// Exportações do ERP em pt-BR usam ";" porque a vírgula é o separador decimal.
+const detectDelimiter = (line: string) => {
+    const counts = [';', '\t', ','].map(d => ({ d, n: line.split(d).length }));
+    return counts.sort((a, b) => b.n - a.n)[0].d;
+};
+
+export const parseCsv = (text: string): SheetTable => {
+    const clean = text.replace(/^\uFEFF/, '');
+    const delimiter = detectDelimiter(clean.split(/\r?\n/)[0] || '');
+    const lines: string[][] = [];
+    let field = '';
+    let row: string[] = [];
+    let quoted = false;
+
+    for (let i = 0; i < clean.length; i++) {
+        const ch = clean[i];
+        if (quoted) {
+            if (ch === '"' && clean[i + 1] === '"') { field += '"'; i++; }
+            else if (ch === '"') quoted = false;
+            else field += ch;
+        } else if (ch === '"') {
+            quoted = true;
+        } else if (ch === delimiter) {
+            row.push(field); field = '';
+        } else if (ch === '\n' || ch === '\r') {
+            if (ch === '\r' && clean[i + 1] === '\n') i++;
+            row.push(field); lines.push(row); row = []; field = '';
+        } else {
+            field += ch;
+        }
+    }
+    if (field !== '' || row.length > 0) { row.push(field); lines.push(row); }
+
+    const [headers = [], ...rows] = lines;
+    return { headers: headers.map(h => h.trim()), rows };
+};
+
+export const readSpreadsheetFile = async (file: File): Promise<SheetTable> => {
+    if (/\.csv$|\.txt$/i.test(file.name)) return parseCsv(await file.text());
+    const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array' });
+    const sheet = workbook.Sheets[workbook.SheetNames[0]];
+    const [headers = [], ...rows] = XLSX.utils.sheet_to_json<SheetCell[]>(sheet, { header: 1, raw: true, defval: '' });
+    return { headers: headers.map(h => String(h).trim()), rows };
+};
+
+const normalize = (s: string) => s.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-z0-9]/gi, '').toLowerCase();
+
+// Sugere, para cada coluna da planilha, a coluna de origem com o mesmo nome (ignorando acentos e caixa).
+export const guessMapping = (columns: string[], headers: string[]): Record<string, string> =>
+    columns.reduce((acc, col) => {
+        const match = headers.find(h => normalize(h) === normalize(col));
+        return { ...acc, [col]: match || '' };
+    }, {} as Record<string, string>);
+
+// Cada célula passa pelo mesmo parse e validação do editor da planilha (schema da coluna); células
+// vazias recebem o valor padrão da coluna, e colunas obrigatórias vazias são erro da linha.
+export const mapImportedRows = (
+    table: SheetTable,
+    columns: ColumnSchema[],
+    mapping: Record<string, string>
+): { rows: any[]; errors: ImportError[] } => {
+    const rows: any[] = [];
+    const errors: ImportError[] = [];
+
+    table.rows.forEach((source, i) => {
+        if (source.every(cell => String(cell).trim() === '')) return;
+        const row: any = {};
+        const rowErrors: ImportError[] = [];
+        columns.forEach(column => {
+            const idx = mapping[column.key] ? table.headers.indexOf(mapping[column.key]) : -1;
+            const value: SheetCell = idx >= 0 ? (source[idx] ?? '') : '';
+            let parsed: { value?: any; error: string | null };
+            if (String(value).trim() === '') {
+                parsed = column.required ? { error: 'Obrigatório' } : { value: defaultValue(column), error: null };
+            } else if (typeof value === 'number' && isNumericType(column.type)) {
+                // Células numéricas do XLSX já vêm como número; o texto "1234.567" seria lido como milhar.
+                const error = validateCell(column, value);
+                parsed = error ? { error } : { value, error: null };
+            } else {
+                parsed = parseCell(column, String(value));
+            }
+            if (parsed.error) {
+                rowErrors.push({ row: i + 2, column: column.key, value, message: String(value).trim() === '' ? parsed.error : `"${value}": ${parsed.error}` });
+            } else {
+                row[column.key] = parsed.value;
+            }
+        });
+        if (rowErrors.length > 0) errors.push(...rowErrors);
+        else rows.push(row);
+    });
+
+    return { rows, errors };
+};
+
+// --- Exportação ---
+
+export type ExportKind = 'text' | 'currency' | 'number' | 'percent';
+
+export interface ExportColumn {
+    key: string;
+    label: string;
+    kind?: ExportKind;
+}
+
+const formatCsvCell = (value: any, kind: ExportKind = 'text') => {
+    if (typeof value === 'number' && kind !== 'text') {
+        const decimals = kind === 'number' && Number.isInteger(value) ? 0 : 2;
+        return value.toLocaleString('pt-BR', { minimumFractionDigits: decimals, maximumFractionDigits: decimals, useGrouping: false });
+    }
+    const text = value === undefined || value === null ? '' : String(value);
+    return /[;"\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (columns: ExportColumn[], rows: any[]): string =>
+    [columns.map(c => formatCsvCell(c.label)).join(';'),
+     ...rows.map(r => columns.map(c => formatCsvCell(r[c.key], c.kind)).join(';'))].join('\r\n');
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    a.click();
+    URL.revokeObjectURL(url);
+};
+
+const XLSX_FORMATS: Record<ExportKind, string | undefined> = {
+    text: undefined,
+    currency: '"R$" #,##0.00',
+    number: '0',
+    percent: '0.00"%"',
+};
+
+export const exportTable = (fileName: string, columns: ExportColumn[], rows: any[], format: 'csv' | 'xlsx') => {
+    const safeName = fileName.replace(/[\\/:*?"<>|]/g, '-');
+    if (format === 'csv') {
+        // BOM para o Excel reconhecer UTF-8 (acentos dos cabeçalhos).
+        downloadBlob(new Blob(['\uFEFF' + toCsv(columns, rows)], { type: 'text/csv;charset=utf-8' }), `${safeName}.csv`);
+        return;
+    }
+    const sheet = XLSX.utils.aoa_to_sheet([
+        columns.map(c => c.label),
+        ...rows.map(r => columns.map(c => r[c.key] ?? '')),
+    ]);
+    rows.forEach((r, i) => columns.forEach((c, j) => {
+        const cell = sheet[XLSX.utils.encode_cell({ r: i + 1, c: j })];
+        const fmt = XLSX_FORMATS[c.kind || 'text'];
+        if (cell && typeof cell.v === 'number' && fmt) cell.z = fmt;
+    }));
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, sheet, safeName.slice(0, 31));
+    XLSX.writeFile(workbook, `${safeName}.xlsx`);
+};